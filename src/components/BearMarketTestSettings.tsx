@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import {
+  BEAR_MARKET_TEST_PRESETS,
+  BearMarketTestParameters,
+  validateBearMarketTestParameters
+} from '../utils/RetirementCalculations';
+
+interface BearMarketTestSettingsProps {
+  parameters: BearMarketTestParameters;
+  onChange: (parameters: BearMarketTestParameters) => void;
+}
+
+const SETTINGS: Record<keyof BearMarketTestParameters, { label: string; unit: string; step: number }> = {
+  floorYears: { label: 'Years at Floor', unit: 'years', step: 1 },
+  recoveryFraction: { label: 'Recovery Fraction', unit: 'of the way to fair value', step: 0.05 },
+  runwayYears: { label: 'Runway After Recovery', unit: 'years', step: 1 }
+};
+
+const CUSTOM_PRESET_ID = 'custom';
+
+const matchesPreset = (a: BearMarketTestParameters, b: BearMarketTestParameters): boolean =>
+  a.floorYears === b.floorYears && a.recoveryFraction === b.recoveryFraction && a.runwayYears === b.runwayYears;
+
+const BearMarketTestSettings: React.FC<BearMarketTestSettingsProps> = ({ parameters, onChange }) => {
+  // Parameters are edited locally and only handed to the plan once they are valid
+  const [draft, setDraft] = useState<BearMarketTestParameters>(parameters);
+  const errors = validateBearMarketTestParameters(draft);
+  const preset = BEAR_MARKET_TEST_PRESETS.find(candidate => matchesPreset(candidate.parameters, parameters));
+
+  const handleChange = (next: BearMarketTestParameters) => {
+    setDraft(next);
+    if (validateBearMarketTestParameters(next).length === 0) {
+      onChange(next);
+    }
+  };
+
+  const selectPreset = (id: string) => {
+    const selected = BEAR_MARKET_TEST_PRESETS.find(candidate => candidate.id === id);
+    if (selected) handleChange(selected.parameters);
+  };
+
+  return (
+    <div className="historical-retirement-info">
+      <h5>🐻 Bear Market Test: {preset ? preset.name : 'Custom'}</h5>
+      <p className="historical-note">
+        Withdrawals for {parameters.floorYears} year{parameters.floorYears === 1 ? '' : 's'} at the floor, then one
+        recovery year {Math.round(parameters.recoveryFraction * 100)}% of the way back to fair value; what is left must
+        cover at least {parameters.runwayYears} more years of withdrawals at fair value. The verdict, the solvers, the
+        historical retirement date and the stress matrix all use these parameters.
+      </p>
+
+      <div className="analysis-inputs">
+        <div className="input-group">
+          <label htmlFor="bearMarketTest-preset">Preset:</label>
+          <select
+            id="bearMarketTest-preset"
+            value={preset ? preset.id : CUSTOM_PRESET_ID}
+            onChange={(e) => selectPreset(e.target.value)}
+          >
+            {BEAR_MARKET_TEST_PRESETS.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+            ))}
+            {!preset && <option value={CUSTOM_PRESET_ID}>Custom</option>}
+          </select>
+        </div>
+        {(Object.keys(SETTINGS) as Array<keyof BearMarketTestParameters>).map(key => (
+          <div className="input-group" key={key}>
+            <label htmlFor={`bearMarketTest-${key}`}>{SETTINGS[key].label}:</label>
+            <input
+              id={`bearMarketTest-${key}`}
+              type="number"
+              value={draft[key]}
+              onChange={(e) => handleChange({ ...draft, [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+              step={SETTINGS[key].step}
+              min="0"
+            />
+            <span className="input-unit">{SETTINGS[key].unit}</span>
+          </div>
+        ))}
+      </div>
+
+      {errors.map(error => (
+        <p className="historical-note" key={error}>⚠️ {error}</p>
+      ))}
+    </div>
+  );
+};
+
+export default BearMarketTestSettings;
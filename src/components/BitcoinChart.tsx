@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import {
   LineChart,
   Line,
@@ -7,22 +7,172 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
   ResponsiveContainer
 } from 'recharts';
 import { BitcoinAPI } from '../services/BitcoinAPI';
-import { BitcoinPowerLaw } from '../models/PowerLaw';
-import { ChartDataPoint, RetirementInputs, MonthlySavingsInputs, SavingsProjection } from '../types/Bitcoin';
-import { SmartWithdrawalStrategy } from '../utils/SmartWithdrawalStrategy';
+import { BitcoinPowerLaw, DEFAULT_BAND_MULTIPLIERS, PUBLISHED_POWER_LAW_PARAMETERS, PowerLawParameters } from '../models/PowerLaw';
+import { DecayingUpperBound, UpperBoundModel } from '../models/DecayingUpperBound';
+import {
+  POWER_LAW_MODEL,
+  PowerLawPriceModel,
+  PriceModel,
+  PriceModelRegistry,
+  PriceModelSettings,
+  createDefaultPriceModelSettings
+} from '../models/PriceModel';
+import { BandSelection, DEFAULT_BAND_SELECTION, PowerLawBands, RESIDUAL_BAND_PERCENTILES, ResidualBand } from '../models/PowerLawBands';
+import { BitcoinPriceData, ChartDataPoint, RetirementInputs, MonthlySavingsInputs, RetirementScenario, WithdrawalFrequency } from '../types/Bitcoin';
+import { DEFAULT_SMART_WITHDRAWAL_CONFIG, SmartWithdrawalConfig, SmartWithdrawalStrategy } from '../utils/SmartWithdrawalStrategy';
+import { BearMarketTestParameters, DEFAULT_BEAR_MARKET_TEST, testBearMarketSurvival } from '../utils/RetirementCalculations';
+import { formatMultiplier, formatPrice } from '../utils/Formatters';
+import { DEFAULT_INFLATION_INPUTS, InflationInputs, toTodaysDollars } from '../utils/Inflation';
+import { CapitalGainsTaxInputs, DEFAULT_CAPITAL_GAINS_TAX_INPUTS } from '../utils/CapitalGainsTax';
+import { BuyBackInputs, CashRefillInputs, DEFAULT_BUY_BACK_INPUTS, DEFAULT_CASH_REFILL_INPUTS } from '../utils/CashReserve';
+import { CycleCalendarSettings, DEFAULT_CYCLE_CALENDAR } from '../utils/CycleCalendar';
+import { CustomCycle } from '../utils/CustomCycle';
+import {
+  DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS,
+  SMART_WITHDRAWAL_STRATEGY,
+  WithdrawalStrategyRegistry,
+  WithdrawalStrategySettings
+} from '../utils/WithdrawalStrategy';
+import {
+  buildPlanChartData,
+  evaluateRetirementPlan,
+  getScenarioSavingsProjection,
+  hasRetirementAssets
+} from '../utils/RetirementEngine';
+import {
+  EarliestRetirementRequest,
+  EarliestRetirementResponse,
+  EarliestRetirementResult,
+  MAX_YEARS_UNTIL_RETIREMENT,
+  findEarliestRetirementYear
+} from '../utils/RetirementSolver';
+import { serializeScenario } from '../utils/SuccessHeatmap';
+import { PowerLawFitMethod, PowerLawFitResult, PowerLawRegression, PowerLawSource } from '../models/PowerLawRegression';
+import MonteCarloPanel from './MonteCarloPanel';
+import PowerLawFitPanel from './PowerLawFitPanel';
+import PowerLawBandsPanel from './PowerLawBandsPanel';
+import PriceModelPanel from './PriceModelPanel';
+import CycleCalendarPanel from './CycleCalendarPanel';
+import CustomCyclePanel from './CustomCyclePanel';
+import InflationPanel from './InflationPanel';
+import CapitalGainsTaxPanel from './CapitalGainsTaxPanel';
+import TaxLotComparisonPanel from './TaxLotComparisonPanel';
+import StrategyComparisonPanel from './StrategyComparisonPanel';
+import SmartWithdrawalPanel from './SmartWithdrawalPanel';
+import WithdrawalStrategyPanel from './WithdrawalStrategyPanel';
+import CashReservePanel from './CashReservePanel';
+import HistoricalBacktestPanel from './HistoricalBacktestPanel';
+import RetirementSolverPanel from './RetirementSolverPanel';
+import SensitivityPanel from './SensitivityPanel';
+import StressTestMatrix from './StressTestMatrix';
+import BearMarketTestSettings from './BearMarketTestSettings';
+import SuccessHeatmapPanel from './SuccessHeatmapPanel';
+
+const RESIDUAL_BAND_COLORS = ['#1b5e20', '#66bb6a', '#90caf9', '#ffa726', '#b71c1c'];
+
+/**
+ * Combine actual prices with the model's fair value, floor and ceiling, plus 10 years of projections.
+ * Percentile bands are multiples of the Power Law fair value, whichever model is selected.
+ */
+const buildChartData = (
+  historicalPrices: BitcoinPriceData[],
+  residualBands: ResidualBand[] | null,
+  priceModel: PriceModel,
+  powerLawParameters: PowerLawParameters
+): ChartDataPoint[] => {
+  const bandPrices = (date: Date) => residualBands?.map(band => BitcoinPowerLaw.calculateFairValue(date, powerLawParameters) * band.multiplier);
+
+  // Combine actual prices with power law data (fair value, floor, and upper bound)
+  const combinedData: ChartDataPoint[] = historicalPrices.map(priceData => {
+    const date = new Date(priceData.timestamp);
+    const powerLawPrice = priceModel.fairValue(date);
+    const powerLawFloor = priceModel.floor(date);
+    const powerLawUpperBound = priceModel.ceiling(date);
 
+    return {
+      date: priceData.date,
+      actualPrice: priceData.price,
+      powerLawPrice: powerLawPrice,
+      powerLawFloor: powerLawFloor,
+      powerLawUpperBound: powerLawUpperBound,
+      residualBands: bandPrices(date),
+      timestamp: priceData.timestamp
+    };
+  });
+
+  // Add future power law projections (10 years ahead)
+  if (historicalPrices.length > 0) {
+    const lastDataDate = new Date(historicalPrices[historicalPrices.length - 1].timestamp);
+    const futureProjections: ChartDataPoint[] = [];
+    
+    console.log(`Adding 8 years of future power law projections starting from ${lastDataDate.toISOString().split('T')[0]}`);
+    
+    // Generate daily data points for the next 8 years to match historical spacing
+    const daysPer8Years = 10 * 365; // ~3650 days
+    for (let dayOffset = 1; dayOffset <= daysPer8Years; dayOffset += 30) { // Every 30 days for performance
+      const futureDate = new Date(lastDataDate);
+      futureDate.setDate(futureDate.getDate() + dayOffset);
+      
+      const powerLawPrice = priceModel.fairValue(futureDate);
+      const powerLawFloor = priceModel.floor(futureDate);
+      const powerLawUpperBound = priceModel.ceiling(futureDate);
+      
+      futureProjections.push({
+        date: futureDate.toISOString().split('T')[0],
+        actualPrice: null as any, // No actual price for future dates
+        powerLawPrice: powerLawPrice,
+        powerLawFloor: powerLawFloor,
+        powerLawUpperBound: powerLawUpperBound,
+        residualBands: bandPrices(futureDate),
+        timestamp: futureDate.getTime()
+      });
+    }
+    
+    console.log(`Added ${futureProjections.length} future projection points (every 30 days for 8 years)`);
+    combinedData.push(...futureProjections);
+  }
+
+  // Sort by timestamp to ensure proper chart ordering
+  combinedData.sort((a, b) => a.timestamp - b.timestamp);
+
+  // Filter out data points with Power Law values that are too small for log scale
+  // This can happen with very early Bitcoin dates where the Power Law model produces tiny values
+  const filteredData = combinedData.filter(d => {
+    // Keep all data points where actual price exists and is reasonable for log scale
+    if (d.actualPrice !== null && d.actualPrice >= 0.01) {
+      return true;
+    }
+    // For future projections (actualPrice is null), keep if Power Law values are reasonable
+    if (d.actualPrice === null && d.powerLawPrice >= 0.01) {
+      return true;
+    }
+    // Filter out points with very small values that cause log scale issues
+    return false;
+  });
+
+  // Filter out data points with values too small for log scale display
+  if (combinedData.length - filteredData.length > 0) {
+    console.log(`Filtered ${combinedData.length - filteredData.length} data points with values too small for log scale`);
+  }
+
+  return filteredData;
+};
 
 const BitcoinChart: React.FC = () => {
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [priceHistory, setPriceHistory] = useState<BitcoinPriceData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPrice, setCurrentPrice] = useState<number | null>(null);
-  const [currentFairValue, setCurrentFairValue] = useState<number | null>(null);
-  const [currentFloorValue, setCurrentFloorValue] = useState<number | null>(null);
-  const [currentUpperBound, setCurrentUpperBound] = useState<number | null>(null);
+  const [powerLawSource, setPowerLawSource] = useState<PowerLawSource>('published');
+  const [bandSelection, setBandSelection] = useState<BandSelection>(DEFAULT_BAND_SELECTION);
+  const [showResidualBands, setShowResidualBands] = useState<boolean>(false);
+  const [upperBoundModel, setUpperBoundModel] = useState<UpperBoundModel>('flat');
+  const [priceModelId, setPriceModelId] = useState<string>(POWER_LAW_MODEL.id);
+  const [priceModelSettings, setPriceModelSettings] = useState<PriceModelSettings>(() => createDefaultPriceModelSettings());
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   
   // Retirement functionality state
@@ -38,7 +188,22 @@ const BitcoinChart: React.FC = () => {
     enabled: false,
     doubleDownInBearMarkets: false
   });
+  const [inflationInputs, setInflationInputs] = useState<InflationInputs>(DEFAULT_INFLATION_INPUTS);
+  const [capitalGainsTax, setCapitalGainsTax] = useState<CapitalGainsTaxInputs>(DEFAULT_CAPITAL_GAINS_TAX_INPUTS);
+  const [smartWithdrawalConfig, setSmartWithdrawalConfig] = useState<SmartWithdrawalConfig>(DEFAULT_SMART_WITHDRAWAL_CONFIG);
+  const [withdrawalStrategyId, setWithdrawalStrategyId] = useState<string>(SMART_WITHDRAWAL_STRATEGY.id);
+  const [withdrawalStrategySettings, setWithdrawalStrategySettings] = useState<WithdrawalStrategySettings>(DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS);
+  const [cashRefill, setCashRefill] = useState<CashRefillInputs>(DEFAULT_CASH_REFILL_INPUTS);
+  const [buyBack, setBuyBack] = useState<BuyBackInputs>(DEFAULT_BUY_BACK_INPUTS);
+  const [withdrawalFrequency, setWithdrawalFrequency] = useState<WithdrawalFrequency>('yearly');
+  const [cycleCalendar, setCycleCalendar] = useState<CycleCalendarSettings>(DEFAULT_CYCLE_CALENDAR);
+  const [customCycle, setCustomCycle] = useState<CustomCycle | null>(null);
+  const [bearMarketTest, setBearMarketTest] = useState<BearMarketTestParameters>(DEFAULT_BEAR_MARKET_TEST);
   const [historicalRetirementDate, setHistoricalRetirementDate] = useState<ChartDataPoint | null>(null);
+  const [earliestRetirement, setEarliestRetirement] = useState<EarliestRetirementResult | null>(null);
+  const [searchingEarliestRetirement, setSearchingEarliestRetirement] = useState<boolean>(false);
+  const earliestRetirementWorker = useRef<Worker | null>(null);
+  const latestEarliestRetirementRequest = useRef<number>(0);
 
   useEffect(() => {
     loadChartData();
@@ -94,89 +259,8 @@ const BitcoinChart: React.FC = () => {
         }
       }
 
-      // Calculate current fair value, floor, and upper bound
-      const fairValue = BitcoinPowerLaw.calculateFairValue(new Date());
-      const floorValue = BitcoinPowerLaw.calculateFloorPrice(new Date());
-      const upperBound = BitcoinPowerLaw.calculateUpperBound(new Date());
-      setCurrentFairValue(fairValue);
-      setCurrentFloorValue(floorValue);
-      setCurrentUpperBound(upperBound);
-
-      // Process historical data for chart display
       console.log(`Chart loaded ${historicalPrices.length} historical price points`);
-
-      // Combine actual prices with power law data (fair value, floor, and upper bound)
-      const combinedData: ChartDataPoint[] = historicalPrices.map(priceData => {
-        const date = new Date(priceData.timestamp);
-        const powerLawPrice = BitcoinPowerLaw.calculateFairValue(date);
-        const powerLawFloor = BitcoinPowerLaw.calculateFloorPrice(date);
-        const powerLawUpperBound = BitcoinPowerLaw.calculateUpperBound(date);
-
-        return {
-          date: priceData.date,
-          actualPrice: priceData.price,
-          powerLawPrice: powerLawPrice,
-          powerLawFloor: powerLawFloor,
-          powerLawUpperBound: powerLawUpperBound,
-          timestamp: priceData.timestamp
-        };
-      });
-
-      // Add future power law projections (10 years ahead)
-      if (historicalPrices.length > 0) {
-        const lastDataDate = new Date(historicalPrices[historicalPrices.length - 1].timestamp);
-        const futureProjections: ChartDataPoint[] = [];
-        
-        console.log(`Adding 8 years of future power law projections starting from ${lastDataDate.toISOString().split('T')[0]}`);
-        
-        // Generate daily data points for the next 8 years to match historical spacing
-        const daysPer8Years = 10 * 365; // ~3650 days
-        for (let dayOffset = 1; dayOffset <= daysPer8Years; dayOffset += 30) { // Every 30 days for performance
-          const futureDate = new Date(lastDataDate);
-          futureDate.setDate(futureDate.getDate() + dayOffset);
-          
-          const powerLawPrice = BitcoinPowerLaw.calculateFairValue(futureDate);
-          const powerLawFloor = BitcoinPowerLaw.calculateFloorPrice(futureDate);
-          const powerLawUpperBound = BitcoinPowerLaw.calculateUpperBound(futureDate);
-          
-          futureProjections.push({
-            date: futureDate.toISOString().split('T')[0],
-            actualPrice: null as any, // No actual price for future dates
-            powerLawPrice: powerLawPrice,
-            powerLawFloor: powerLawFloor,
-            powerLawUpperBound: powerLawUpperBound,
-            timestamp: futureDate.getTime()
-          });
-        }
-        
-        console.log(`Added ${futureProjections.length} future projection points (every 30 days for 8 years)`);
-        combinedData.push(...futureProjections);
-      }
-
-      // Sort by timestamp to ensure proper chart ordering
-      combinedData.sort((a, b) => a.timestamp - b.timestamp);
-
-      // Filter out data points with Power Law values that are too small for log scale
-      // This can happen with very early Bitcoin dates where the Power Law model produces tiny values
-      const filteredData = combinedData.filter(d => {
-        // Keep all data points where actual price exists and is reasonable for log scale
-        if (d.actualPrice !== null && d.actualPrice >= 0.01) {
-          return true;
-        }
-        // For future projections (actualPrice is null), keep if Power Law values are reasonable
-        if (d.actualPrice === null && d.powerLawPrice >= 0.01) {
-          return true;
-        }
-        // Filter out points with very small values that cause log scale issues
-        return false;
-      });
-
-      // Filter out data points with values too small for log scale display
-      if (combinedData.length - filteredData.length > 0) {
-        console.log(`Filtered ${combinedData.length - filteredData.length} data points with values too small for log scale`);
-      }
-
-      setChartData(filteredData);
+      setPriceHistory(historicalPrices);
       setLastUpdated(new Date());
     } catch (err) {
       console.error('Error loading chart data:', err);
@@ -186,153 +270,163 @@ const BitcoinChart: React.FC = () => {
     }
   };
 
-  const calculateMonthlySavingsProjection = useCallback(() => {
-    if (!monthlySavingsInputs.enabled || monthlySavingsInputs.monthlySavingsAmount <= 0 || monthlySavingsInputs.yearsToRetirement <= 0) {
-      return [];
-    }
-
-    const projection: SavingsProjection[] = [];
-    const startDate = new Date();
-    let totalBitcoinAccumulated = 0;
-    let totalCashInvested = 0;
-    let currentMonthlySavings = monthlySavingsInputs.monthlySavingsAmount;
-
-    // Calculate for each month over the specified years
-    // Using Net Present Value approach - no wage growth adjustments
-    for (let year = 0; year < monthlySavingsInputs.yearsToRetirement; year++) {
-
-      // Determine if this year is a bear market using realistic cycle model
-      // Bear market: first 2 years of each 4-year cycle
-      // Align with actual calendar years to match withdrawal simulation
-      const actualYear = startDate.getFullYear() + year;
-      const cycleYear = (actualYear - 1) % 4; // 0, 1, 2, 3 within each 4-year cycle (same as withdrawal logic)
-      const isBearMarketYear = cycleYear === 0 || cycleYear === 1; // Bear market in years 0 and 1
-      
-      for (let month = 0; month < 12; month++) {
-        const projectionDate = new Date(startDate);
-        projectionDate.setFullYear(startDate.getFullYear() + year);
-        projectionDate.setMonth(startDate.getMonth() + month);
+  // Live fits of A and B to the loaded history, offered as alternatives to the published constants
+  const powerLawFits = useMemo<Record<PowerLawFitMethod, PowerLawFitResult | null>>(() => ({
+    'least-squares': PowerLawRegression.fit(priceHistory, { method: 'least-squares' }),
+    quantile: PowerLawRegression.fit(priceHistory, { method: 'quantile', quantile: 0.5 })
+  }), [priceHistory]);
+
+  // Published constants or the selected live fit
+  const powerLawParameters = useMemo<PowerLawParameters>(() => {
+    const fit = powerLawSource === 'published' ? null : powerLawFits[powerLawSource];
+    return fit ? fit.parameters : PUBLISHED_POWER_LAW_PARAMETERS;
+  }, [powerLawSource, powerLawFits]);
+
+  // Residuals are measured against the active fair value, then the selected percentiles become floor/upper
+  const residualBands = useMemo(() => {
+    return PowerLawBands.fromHistory(priceHistory, powerLawParameters);
+  }, [priceHistory, powerLawParameters]);
+
+  const powerLawBandMultipliers = useMemo(() => {
+    return PowerLawBands.selectMultipliers(residualBands, bandSelection, DEFAULT_BAND_MULTIPLIERS);
+  }, [residualBands, bandSelection]);
+
+  // Decaying upper bound through past cycle tops replaces the flat multiplier when selected
+  const upperBoundFit = useMemo(() => {
+    return DecayingUpperBound.fit(priceHistory, powerLawParameters);
+  }, [priceHistory, powerLawParameters]);
+  const upperBoundDecaying = upperBoundModel === 'decaying' && upperBoundFit !== null;
+
+  // The model panel's settings plus the Power Law controls, so the registry builds the model with both
+  const activePriceModelSettings = useMemo<PriceModelSettings>(() => ({
+    ...priceModelSettings,
+    powerLawParameters,
+    powerLawBandMultipliers,
+    powerLawUpperBoundDecay: upperBoundDecaying && upperBoundFit ? upperBoundFit.decay : null
+  }), [priceModelSettings, powerLawParameters, powerLawBandMultipliers, upperBoundDecaying, upperBoundFit]);
+
+  // Model behind the chart lines, plan prices, simulations and withdrawal strategy
+  const priceModel = useMemo(() => {
+    return PriceModelRegistry.create(priceModelId, activePriceModelSettings);
+  }, [priceModelId, activePriceModelSettings]);
+
+  const withdrawalStrategy = useMemo(() => {
+    return WithdrawalStrategyRegistry.create(withdrawalStrategyId, withdrawalStrategySettings);
+  }, [withdrawalStrategyId, withdrawalStrategySettings]);
+
+  // Chart lines and current values from the active model
+  const {
+    chartData,
+    currentFairValue,
+    currentFloorValue,
+    currentUpperBound
+  } = useMemo(() => {
+    const now = new Date();
+    return {
+      chartData: buildChartData(priceHistory, residualBands, priceModel, powerLawParameters),
+      currentFairValue: priceModel.fairValue(now),
+      currentFloorValue: priceModel.floor(now),
+      currentUpperBound: priceModel.ceiling(now)
+    };
+  }, [powerLawParameters, residualBands, priceHistory, priceModel]);
+
+  const floorLabel = formatMultiplier(currentFloorValue / currentFairValue);
+  const upperBoundLabel = upperBoundDecaying && priceModel instanceof PowerLawPriceModel
+    ? 'Decaying'
+    : formatMultiplier(currentUpperBound / currentFairValue);
+
+  // One scenario object drives the savings projection, the 50-year table, the chart plan line and the verdict
+  const retirementScenario = useMemo<RetirementScenario>(() => ({
+    retirementInputs,
+    monthlySavingsInputs,
+    startDate: new Date(),
+    priceModel,
+    inflation: inflationInputs,
+    capitalGainsTax,
+    smartWithdrawal: smartWithdrawalConfig,
+    withdrawalStrategy,
+    cashRefill,
+    buyBack,
+    withdrawalFrequency,
+    cycleCalendar,
+    customCycle,
+    bearMarketTest
+  }), [retirementInputs, monthlySavingsInputs, priceModel, inflationInputs, capitalGainsTax, smartWithdrawalConfig, withdrawalStrategy, cashRefill, buyBack, withdrawalFrequency, cycleCalendar, customCycle, bearMarketTest]);
+
+  // Plain-data copy for the workers, which cannot receive the model and strategy instances
+  const serializedScenario = useMemo(() => {
+    return serializeScenario(retirementScenario, priceModelId, activePriceModelSettings, withdrawalStrategyId, withdrawalStrategySettings);
+  }, [retirementScenario, priceModelId, activePriceModelSettings, withdrawalStrategyId, withdrawalStrategySettings]);
 
-        // Calculate Bitcoin fair value for this future date
-        const bitcoinFairValue = BitcoinPowerLaw.calculateFairValue(projectionDate);
-        
-        // Calculate realistic Bitcoin price based on cycle position (same logic as withdrawal simulation)
-        let bitcoinCyclePrice;
-        
-        if (year === 0) {
-          // For current year, use fair value (same as withdrawal simulation)
-          bitcoinCyclePrice = bitcoinFairValue;
-        } else {
-          // For future years, apply cycle logic
-          const floorValue = BitcoinPowerLaw.calculateFloorPrice(projectionDate);
-          const upperBound = BitcoinPowerLaw.calculateUpperBound(projectionDate);
-          
-          switch (cycleYear) {
-            case 0: // Year 1 of cycle: Deep bear market at floor
-              bitcoinCyclePrice = floorValue;
-              break;
-            case 1: // Year 2 of cycle: Bear market recovery
-              bitcoinCyclePrice = floorValue + (bitcoinFairValue - floorValue) * 0.75;
-              break;
-            case 2: // Year 3 of cycle: Bull market
-              bitcoinCyclePrice = bitcoinFairValue + (upperBound - bitcoinFairValue) * 0.7;
-              break;
-            case 3: // Year 4 of cycle: Bull peak and correction
-              bitcoinCyclePrice = bitcoinFairValue + (upperBound - bitcoinFairValue) * 0.3;
-              break;
-            default:
-              bitcoinCyclePrice = bitcoinFairValue;
-          }
-        }
-        
-        // Determine actual monthly savings amount for this month
-        let actualMonthlySavings = currentMonthlySavings;
-        if (monthlySavingsInputs.doubleDownInBearMarkets && isBearMarketYear) {
-          actualMonthlySavings = currentMonthlySavings * 2; // Double down during bear markets!
-          
-          // Debug logging for bear market doubling
-          if (month === 0) { // Only log once per year
-            console.log(`MONTHLY SAVINGS DEBUG - Year ${actualYear}:
-              Cycle Year: ${cycleYear} (of 4-year cycle)
-              Is Bear Market: ${isBearMarketYear}
-              Base Monthly Amount: $${Math.round(currentMonthlySavings)}
-              Doubled Monthly Amount: $${Math.round(actualMonthlySavings)}
-              Expected Yearly Total: $${Math.round(actualMonthlySavings * 12)}
-              Bitcoin Fair Value: $${bitcoinFairValue.toLocaleString()}
-              Bitcoin Cycle Price: $${bitcoinCyclePrice.toLocaleString()}`);
-          }
+  const savingsProjection = useMemo(() => {
+    return getScenarioSavingsProjection(retirementScenario);
+  }, [retirementScenario]);
+
+  // Actual prices only (no future projections) for models fitted to history
+  const historicalPrices = useMemo<BitcoinPriceData[]>(() => {
+    return chartData
+      .filter(point => point.actualPrice !== null && point.actualPrice > 0)
+      .map(point => ({ date: point.date, price: point.actualPrice as number, timestamp: point.timestamp }));
+  }, [chartData]);
+
+  const retirementPlan = useMemo(() => {
+    return currentPrice ? evaluateRetirementPlan(retirementScenario) : null;
+  }, [currentPrice, retirementScenario]);
+
+  // Forward counterpart of the historical retirement date: first future year the plan passes.
+  // The search evaluates up to 51 plans, so it runs in a worker; answers to older requests are ignored.
+  useEffect(() => {
+    if (!currentPrice) {
+      setEarliestRetirement(null);
+      return;
+    }
+    if (typeof Worker === 'undefined') {
+      setEarliestRetirement(findEarliestRetirementYear(retirementScenario));
+      return;
+    }
+    if (!earliestRetirementWorker.current) {
+      earliestRetirementWorker.current = new Worker(new URL('../workers/EarliestRetirement.worker.ts', import.meta.url));
+      earliestRetirementWorker.current.onmessage = (event: MessageEvent<EarliestRetirementResponse>) => {
+        if (event.data.id === latestEarliestRetirementRequest.current) {
+          setEarliestRetirement(event.data.result);
+          setSearchingEarliestRetirement(false);
         }
-        
-        // Calculate how much Bitcoin can be purchased with this month's savings (using realistic cycle price)
-        const bitcoinPurchased = actualMonthlySavings / bitcoinCyclePrice;
-        totalBitcoinAccumulated += bitcoinPurchased;
-        totalCashInvested += actualMonthlySavings;
-
-        projection.push({
-          year: year + 1,
-          month: month + 1,
-          monthlySavingsAmount: actualMonthlySavings,
-          bitcoinFairValue: bitcoinFairValue,
-          bitcoinCyclePrice: bitcoinCyclePrice,
-          bitcoinPurchased: bitcoinPurchased,
-          totalBitcoinAccumulated: totalBitcoinAccumulated,
-          totalCashInvested: totalCashInvested
-        });
-      }
+      };
     }
+    latestEarliestRetirementRequest.current += 1;
+    setSearchingEarliestRetirement(true);
+    const request: EarliestRetirementRequest = { id: latestEarliestRetirementRequest.current, scenario: serializedScenario };
+    earliestRetirementWorker.current.postMessage(request);
+  }, [currentPrice, retirementScenario, serializedScenario]);
 
-    return projection;
-  }, [monthlySavingsInputs.enabled, monthlySavingsInputs.monthlySavingsAmount, monthlySavingsInputs.yearsToRetirement, monthlySavingsInputs.doubleDownInBearMarkets]);
-
-  // Memoize the monthly savings projection calculation
-  const savingsProjection = useMemo(() => {
-    return calculateMonthlySavingsProjection();
-  }, [calculateMonthlySavingsProjection]);
+  useEffect(() => {
+    return () => {
+      if (earliestRetirementWorker.current) earliestRetirementWorker.current.terminate();
+    };
+  }, []);
 
   const calculateRetirementStatus = useCallback(() => {
-    if (!currentPrice) return;
+    if (!currentPrice || !retirementPlan) return;
 
-    // Use memoized monthly savings projection
-    const projectedBitcoin = monthlySavingsInputs.enabled && savingsProjection.length > 0 
-      ? savingsProjection[savingsProjection.length - 1].totalBitcoinAccumulated 
-      : 0;
-    
-    const totalBitcoinHoldings = retirementInputs.bitcoinAmount + projectedBitcoin;
-    
-    // Evaluate retirement readiness at planned retirement date (from "Years until retirement" or monthly savings)
-    const currentYear = new Date().getFullYear();
-    const yearsToRetirement = monthlySavingsInputs.enabled ? monthlySavingsInputs.yearsToRetirement : 0;
-    const evaluationYear = currentYear + Math.max(retirementInputs.yearsUntilRetirement, yearsToRetirement);
-    const evaluationDate = new Date(evaluationYear, 0, 1);
-    
-    // Calculate Bitcoin value at retirement date (not today)
+    const evaluationYear = retirementPlan.retirementStartYear;
     const bitcoinPriceAtRetirement = monthlySavingsInputs.enabled 
-      ? BitcoinPowerLaw.calculateFairValue(evaluationDate)
+      ? priceModel.fairValue(new Date(evaluationYear, 0, 1))
       : currentPrice;
-    
-    const bitcoinValue = totalBitcoinHoldings * bitcoinPriceAtRetirement;
+    const bitcoinValue = retirementPlan.bitcoinAtRetirement * bitcoinPriceAtRetirement;
     const totalAssets = bitcoinValue + retirementInputs.cashAmount;
 
-    console.log(`Retirement Status Evaluation:
-      Evaluation Year: ${evaluationYear} (${yearsToRetirement} years from now)
-      Bitcoin Price at Retirement: $${bitcoinPriceAtRetirement.toLocaleString()}
-      Total Bitcoin Holdings: ${totalBitcoinHoldings.toFixed(4)} BTC
-      Bitcoin Value at Retirement: $${bitcoinValue.toLocaleString()}
-      Total Assets: $${totalAssets.toLocaleString()}`);
-    
-    // Test if withdrawal amount passes Bear Market Test at retirement date
-    const bearMarketTestResult = testBearMarketSurvival(bitcoinPriceAtRetirement, evaluationYear, totalBitcoinHoldings, retirementInputs.annualWithdrawal, retirementInputs.cashAmount);
-    
     console.log(`Retirement Analysis:
-      Total Bitcoin Holdings: ${totalBitcoinHoldings.toFixed(4)} BTC
-      Bitcoin Value: $${bitcoinValue.toLocaleString()}
+      Evaluation Year: ${evaluationYear}
+      Total Bitcoin Holdings: ${retirementPlan.bitcoinAtRetirement.toFixed(4)} BTC
+      Bitcoin Value at Retirement: $${bitcoinValue.toLocaleString()}
       Cash Holdings: $${retirementInputs.cashAmount.toLocaleString()}
       Total Assets: $${totalAssets.toLocaleString()}
       Annual Withdrawal Need: $${retirementInputs.annualWithdrawal.toLocaleString()}
-      Bear Market Test: ${bearMarketTestResult.passes ? 'PASSED' : 'FAILED'}`);
+      Bear Market Test: ${retirementPlan.bearMarketTest.passes ? 'PASSED' : 'FAILED'}
+      50-Year Simulation: ${retirementPlan.simulationSucceeds ? 'PASSED' : 'FAILED'}`);
     
     // Results are logged above for debugging - no need to store in state
-  }, [currentPrice, savingsProjection, monthlySavingsInputs.enabled, monthlySavingsInputs.yearsToRetirement, retirementInputs.bitcoinAmount, retirementInputs.yearsUntilRetirement, retirementInputs.annualWithdrawal, retirementInputs.cashAmount]);
+  }, [currentPrice, retirementPlan, monthlySavingsInputs.enabled, retirementInputs.cashAmount, retirementInputs.annualWithdrawal, priceModel]);
 
   useEffect(() => {
     if (currentPrice && chartData.length > 0) {
@@ -340,22 +434,18 @@ const BitcoinChart: React.FC = () => {
       calculateHistoricalRetirementDate();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [retirementInputs, monthlySavingsInputs, currentPrice, chartData, savingsProjection]);
+  }, [retirementPlan, currentPrice, chartData]);
 
   const calculateHistoricalRetirementDate = useCallback(() => {
-    // Only calculate if we have withdrawal needs and either starting Bitcoin OR monthly savings plan
-    const hasAssets = retirementInputs.bitcoinAmount > 0 || (monthlySavingsInputs.enabled && monthlySavingsInputs.monthlySavingsAmount > 0);
-    if (!currentPrice || chartData.length === 0 || !hasAssets || retirementInputs.annualWithdrawal <= 0) {
+    // Only calculate if the plan has withdrawal needs and either starting Bitcoin OR monthly savings plan
+    if (!retirementPlan || chartData.length === 0) {
       setHistoricalRetirementDate(null);
       return;
     }
 
-    // Use the same logic as current retirement analysis for consistency
-    // Include monthly savings projections in historical calculation
-    const projectedBitcoin = monthlySavingsInputs.enabled && savingsProjection.length > 0 
-      ? savingsProjection[savingsProjection.length - 1].totalBitcoinAccumulated 
-      : 0;
-    const totalBitcoinHoldings = retirementInputs.bitcoinAmount + projectedBitcoin;
+    // Use the same holdings as current retirement analysis for consistency
+    // (original Bitcoin + projected from monthly savings)
+    const { projectedBitcoin, bitcoinAtRetirement: totalBitcoinHoldings } = retirementPlan;
 
     // Go backwards through historical data to find when they could have first retired
     // Only check actual price data (not future projections)
@@ -365,7 +455,6 @@ const BitcoinChart: React.FC = () => {
       // TypeScript type guard - we know actualPrice is not null due to filter above
       if (dataPoint.actualPrice === null) continue;
       
-      // Use total Bitcoin holdings (original + projected from monthly savings)
       const year = new Date(dataPoint.date).getFullYear();
       
       // Test if they could retire at this historical point using Bear Market Test
@@ -375,7 +464,10 @@ const BitcoinChart: React.FC = () => {
         year, 
         totalBitcoinHoldings, 
         retirementInputs.annualWithdrawal, 
-        retirementInputs.cashAmount
+        retirementInputs.cashAmount,
+        priceModel,
+        inflationInputs,
+        bearMarketTest
       );
       
       // Use the same retirement criteria as current analysis
@@ -391,75 +483,7 @@ const BitcoinChart: React.FC = () => {
     // If no historical date found where they could retire
     setHistoricalRetirementDate(null);
     console.log('No historical retirement date found - Bear Market Test failed for all historical prices');
-  }, [currentPrice, chartData, retirementInputs.bitcoinAmount, monthlySavingsInputs.enabled, monthlySavingsInputs.monthlySavingsAmount, retirementInputs.annualWithdrawal, savingsProjection, retirementInputs.cashAmount]);
-
-  const testBearMarketSurvival = (bitcoinPrice: number, year: number, bitcoinHoldings: number, annualWithdrawal: number, cashHoldings: number = 0) => {
-    if (bitcoinHoldings <= 0 || annualWithdrawal <= 0) return { passes: false };
-    
-    // Bear Market Test: Worst case = 2 years at floor, then 1 year recovery (within Power Law). Use cash first.
-    
-    let remainingBitcoin = bitcoinHoldings;
-    let remainingCash = Math.max(0, cashHoldings);
-    
-    const targetDate = new Date(year, 0, 1);
-    const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-    const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-    
-    // Years 1 & 2 at Power Law floor (worst case: 2 consecutive years at 0.42x), then Year 3 recovery
-    const deepBearPrice = floorValue;
-    
-    // Smart strategy: Use cash first during the crash
-    if (remainingCash >= annualWithdrawal) {
-      // Can cover entirely with cash - no Bitcoin sales needed!
-      remainingCash -= annualWithdrawal;
-    } else {
-      // Use all remaining cash, then sell Bitcoin for the rest
-      const remainingNeeded = annualWithdrawal - remainingCash;
-      remainingCash = 0;
-      const bitcoinToSell = remainingNeeded / deepBearPrice;
-      remainingBitcoin -= bitcoinToSell;
-      
-      if (remainingBitcoin < 0) return { passes: false }; // Ran out of Bitcoin in year 1
-    }
-    // Second year at floor (true worst case: 2 consecutive years at 0.42x)
-    if (remainingCash >= annualWithdrawal) {
-      remainingCash -= annualWithdrawal;
-    } else {
-      const remainingNeeded = annualWithdrawal - remainingCash;
-      remainingCash = 0;
-      remainingBitcoin -= remainingNeeded / deepBearPrice;
-      if (remainingBitcoin < 0) return { passes: false };
-    }
-    
-    // Year 3: Bear market recovery (second 12 months) - price between floor and fair value
-    const bearRecoveryPrice = floorValue + (fairValue - floorValue) * 0.75; // 75% of way to fair value
-    if (remainingCash >= annualWithdrawal) {
-      remainingCash -= annualWithdrawal;
-    } else {
-      const remainingNeeded = annualWithdrawal - remainingCash;
-      remainingCash = 0;
-      const bitcoinToSell = remainingNeeded / bearRecoveryPrice;
-      remainingBitcoin -= bitcoinToSell;
-      
-      if (remainingBitcoin < 0) return { passes: false }; // Ran out of Bitcoin in year 3
-    }
-    
-    // Year 4+: Back to fair value - check if remaining portfolio can last at least 20 more years
-    const sustainablePrice = fairValue;
-    const remainingBitcoinValue = remainingBitcoin * sustainablePrice;
-    const totalRemainingValue = remainingBitcoinValue + remainingCash;
-    
-    // Simple sustainability check: Can the remaining portfolio last at least 20 years?
-    // This is conservative but ensures long-term retirement security
-    const yearsOfRunway = totalRemainingValue / annualWithdrawal;
-    const minimumYearsRequired = 20; // Must survive bear market PLUS have 20 years runway
-    
-    return {
-      passes: yearsOfRunway >= minimumYearsRequired,
-      remainingBitcoin,
-      remainingCash
-    };
-  };
+  }, [retirementPlan, chartData, retirementInputs.annualWithdrawal, retirementInputs.cashAmount, priceModel, inflationInputs, bearMarketTest]);
 
   const handleInputChange = (field: keyof RetirementInputs, value: number) => {
     setRetirementInputs(prev => ({
@@ -475,16 +499,6 @@ const BitcoinChart: React.FC = () => {
     }));
   };
 
-  const formatPrice = (value: number): string => {
-    if (value >= 1000000) {
-      return `$${(value / 1000000).toFixed(2)}M`;
-    } else if (value >= 1000) {
-      return `$${(value / 1000).toFixed(0)}K`;
-    } else {
-      return `$${value.toFixed(2)}`;
-    }
-  };
-
   const formatTooltipDate = (timestamp: number): string => {
     return new Date(timestamp).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -493,282 +507,6 @@ const BitcoinChart: React.FC = () => {
     });
   };
 
-  const simulate50YearWithdrawals = () => {
-    // Only simulate if we have withdrawal needs and either starting Bitcoin OR monthly savings plan
-    const hasAssets = retirementInputs.bitcoinAmount > 0 || (monthlySavingsInputs.enabled && monthlySavingsInputs.monthlySavingsAmount > 0);
-    if (!currentPrice || !hasAssets || retirementInputs.annualWithdrawal <= 0) {
-      return [];
-    }
-
-    const simulation = [];
-    const currentYear = new Date().getFullYear();
-    // Start year for withdrawals: use "Years until retirement" from Retirement Inputs; if monthly savings enabled, use the later of the two so withdrawals start after accumulation
-    const yearsToRetirement = monthlySavingsInputs.enabled ? monthlySavingsInputs.yearsToRetirement : 0;
-    const retirementStartYear = currentYear + Math.max(retirementInputs.yearsUntilRetirement, yearsToRetirement);
-
-    // Phase 1: Accumulation Phase (if monthly savings enabled)
-    // Use the same calculation as retirement analysis for consistency
-    const projectedBitcoin = monthlySavingsInputs.enabled && savingsProjection.length > 0 
-      ? savingsProjection[savingsProjection.length - 1].totalBitcoinAccumulated 
-      : 0;
-    const totalCashInvested = monthlySavingsInputs.enabled && savingsProjection.length > 0 
-      ? savingsProjection[savingsProjection.length - 1].totalCashInvested 
-      : 0;
-    
-    let accumulatedBitcoin = retirementInputs.bitcoinAmount + projectedBitcoin;
-    let cumulativeCashInvested = 0; // Track cumulative cash for table display
-    
-    if (monthlySavingsInputs.enabled && yearsToRetirement > 0) {
-      // Group monthly projections by year for display
-      const yearlyAggregation: {[year: number]: {bitcoinPurchased: number, cashInvested: number, endingBitcoin: number}} = {};
-      
-      // Process savings projection data to create yearly summaries
-      for (const monthData of savingsProjection) {
-        const actualYear = currentYear + monthData.year - 1; // Convert to actual year (monthData.year starts at 1, but we want year 0-based)
-        if (!yearlyAggregation[actualYear]) {
-          yearlyAggregation[actualYear] = {bitcoinPurchased: 0, cashInvested: 0, endingBitcoin: 0};
-        }
-        yearlyAggregation[actualYear].bitcoinPurchased += monthData.bitcoinPurchased;
-        yearlyAggregation[actualYear].cashInvested += monthData.monthlySavingsAmount; // This is the actual monthly amount (including doubling)
-        yearlyAggregation[actualYear].endingBitcoin = retirementInputs.bitcoinAmount + monthData.totalBitcoinAccumulated;
-      }
-      
-      // Create simulation entries for each year using aggregated data with realistic cycles
-      for (let year = 0; year < yearsToRetirement; year++) {
-        const simulationYear = currentYear + year;
-        const targetDate = new Date(simulationYear, 0, 1);
-        const bitcoinFairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-        const yearData = yearlyAggregation[simulationYear];
-        
-        if (yearData) {
-          cumulativeCashInvested += yearData.cashInvested;
-          
-          // Realistic Bitcoin cycles based on historical data:
-          // 4-year cycles with proper phase distribution
-          // Bear market: ~2 years, Bull market: ~1.5 years, Correction: ~0.5 years
-          
-          // Align with actual calendar years to match withdrawal simulation
-          const cycleYear = (simulationYear - 1) % 4; // 0, 1, 2, 3 within each 4-year cycle (same as withdrawal logic)
-          const isBearMarketYear = cycleYear === 0 || cycleYear === 1; // Bear market in years 0 and 1
-          const cycleDate = new Date(simulationYear, 0, 1);
-          const floorValue = BitcoinPowerLaw.calculateFloorPrice(cycleDate);
-          const upperBound = BitcoinPowerLaw.calculateUpperBound(cycleDate);
-          let cyclePrice;
-          let cyclePhase = '';
-          
-          if (year === 0) {
-            // For current year (2025), use fair value (same as withdrawal simulation)
-            cyclePrice = bitcoinFairValue;
-            cyclePhase = 'Current Year (Fair Value)';
-          } else {
-            // For future years, apply cycle logic
-            switch (cycleYear) {
-              case 0: // Year 1 of cycle: Deep bear market at floor
-                cyclePrice = floorValue;
-                cyclePhase = 'Deep Bear (Floor)';
-                break;
-              case 1: // Year 2 of cycle: Bear market recovery
-                cyclePrice = floorValue + (bitcoinFairValue - floorValue) * 0.75;
-                cyclePhase = 'Bear Market Recovery';
-                break;
-              case 2: // Year 3 of cycle: Bull market
-                cyclePrice = bitcoinFairValue + (upperBound - bitcoinFairValue) * 0.7;
-                cyclePhase = 'Bull Market';
-                break;
-              case 3: // Year 4 of cycle: Bull peak and correction
-                cyclePrice = bitcoinFairValue + (upperBound - bitcoinFairValue) * 0.3;
-                cyclePhase = 'Bull Peak & Correction';
-                break;
-              default:
-                cyclePrice = bitcoinFairValue;
-                cyclePhase = 'Fair Value';
-            }
-          }
-          
-          // Debug logging for all years to verify cycle alignment
-          if (year === 0) { // Only log first year to verify alignment
-            console.log(`🔄 CYCLE ALIGNMENT DEBUG - Year ${simulationYear}:
-              Cycle Year: ${cycleYear} (of 4-year cycle) - ${cyclePhase}
-              Bitcoin Fair Value: $${bitcoinFairValue.toLocaleString()}
-              Bitcoin Cycle Price: $${cyclePrice.toLocaleString()}
-              Is Bear Market: ${isBearMarketYear}
-              Double Down Enabled: ${monthlySavingsInputs.doubleDownInBearMarkets}`);
-          }
-          
-          // Create withdrawal source description with bear market indicator
-          let withdrawalSource = `Investing $${Math.round(yearData.cashInvested).toLocaleString()}/year`;
-          if (monthlySavingsInputs.doubleDownInBearMarkets && isBearMarketYear) {
-            withdrawalSource += ' 🐻 (2x Bear Market!)';
-          }
-          
-          simulation.push({
-            year: simulationYear,
-            yearNumber: year + 1,
-            phase: 'ACCUMULATION',
-            bitcoinPrice: cyclePrice,
-            fairValue: bitcoinFairValue,
-            priceToFairRatio: cyclePrice / bitcoinFairValue,
-            cyclePhase: cyclePhase,
-            annualWithdrawal: 0,
-            withdrawalSource: withdrawalSource,
-            cashUsed: 0,
-            bitcoinSold: 0,
-            bitcoinPurchased: yearData.bitcoinPurchased,
-            remainingCash: retirementInputs.cashAmount,
-            remainingBitcoin: yearData.endingBitcoin,
-            remainingBitcoinValue: yearData.endingBitcoin * cyclePrice,
-            totalRemainingValue: yearData.endingBitcoin * cyclePrice + retirementInputs.cashAmount,
-            totalCashInvested: cumulativeCashInvested // Cumulative total for cash flow calculation
-          });
-        }
-      }
-      
-      // Set final cumulative total for retirement phase display
-      if (cumulativeCashInvested === 0) {
-        cumulativeCashInvested = totalCashInvested; // Use final total if no accumulation phase
-      }
-    }
-
-    // Phase 2: Withdrawal Phase (50 years of retirement)
-    let remainingBitcoin = accumulatedBitcoin; // Now uses the same calculation as retirement analysis
-    let remainingCash = retirementInputs.cashAmount;
-    const baseAnnualWithdrawal = retirementInputs.annualWithdrawal;
-
-    console.log(`50-Year Simulation:
-      Accumulation Phase: ${yearsToRetirement} years
-      Starting Bitcoin: ${retirementInputs.bitcoinAmount.toFixed(4)} BTC
-      Projected Bitcoin from Savings: ${projectedBitcoin.toFixed(4)} BTC
-      Total Bitcoin at retirement: ${accumulatedBitcoin.toFixed(4)} BTC
-      Cash at retirement: $${remainingCash.toLocaleString()}
-      Total Cash Invested: $${totalCashInvested.toLocaleString()}`);
-
-    for (let year = 0; year < 50; year++) {
-      const currentSimulationYear = retirementStartYear + year;
-      const targetDate = new Date(currentSimulationYear, 0, 1);
-      
-      // Use the original withdrawal amount (not inflation-adjusted)
-      // The Power Law model operates in its original context
-      const annualWithdrawal = baseAnnualWithdrawal;
-      
-      // Calculate Bitcoin fair value
-      const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-      
-      // Simulate simple Bitcoin cycle phases (4-year cycles using standard Power Law bands)
-      let bitcoinPrice;
-      let cyclePhase = '';
-      
-      const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-      const upperBound = BitcoinPowerLaw.calculateUpperBound(targetDate);
-
-      // Bear starts at retirement (matches chart: projected price = start of retirement)
-      if (year === 0 || year === 1) {
-        // First two years: 2 consecutive years at floor
-        bitcoinPrice = floorValue;
-        cyclePhase = year === 0 ? 'Retirement Start (Deep Bear — Year 1)' : 'Deep Bear (Floor) — Year 2';
-      } else if (year === 2) {
-        // Third year: bear market recovery
-        bitcoinPrice = floorValue + (fairValue - floorValue) * 0.75;
-        cyclePhase = 'Bear Market Recovery';
-      } else {
-        // From year 3 onward: normal 4-year cycle (bull → peak → floor → recovery)
-        const cycleYear = (year - 3) % 4; // year 3→0 (floor), 4→1 (recovery), 5→2 (bull), 6→3 (peak), ...
-        switch (cycleYear) {
-          case 0:
-            bitcoinPrice = floorValue;
-            cyclePhase = 'Deep Bear (Floor)';
-            break;
-          case 1:
-            bitcoinPrice = floorValue + (fairValue - floorValue) * 0.75;
-            cyclePhase = 'Bear Market Recovery';
-            break;
-          case 2:
-            bitcoinPrice = fairValue + (upperBound - fairValue) * 0.7;
-            cyclePhase = 'Bull Market';
-            break;
-          case 3:
-            bitcoinPrice = fairValue + (upperBound - fairValue) * 0.3;
-            cyclePhase = 'Bull Peak & Correction';
-            break;
-          default:
-            bitcoinPrice = fairValue;
-            cyclePhase = 'Fair Value';
-        }
-      }
-      
-      // Calculate price ratio for all years
-      const priceToFairRatio = bitcoinPrice / fairValue;
-      
-      let withdrawalSource = '';
-      let cashUsed = 0;
-      let bitcoinSold = 0;
-      let actualWithdrawal = annualWithdrawal;
-      
-      // Withdrawals start in year 0 (first year of retirement = first year at floor)
-      const withdrawalDecision = SmartWithdrawalStrategy.calculateWithdrawal({
-        currentBitcoinPrice: bitcoinPrice,
-        currentDate: targetDate,
-        availableCash: remainingCash,
-        availableBitcoin: remainingBitcoin,
-        withdrawalNeeded: actualWithdrawal
-      });
-
-      cashUsed = withdrawalDecision.useCashAmount;
-      bitcoinSold = withdrawalDecision.useBitcoinAmount;
-      remainingCash -= cashUsed;
-      remainingBitcoin -= bitcoinSold;
-      
-      if (withdrawalDecision.useCashAmount > 0 && withdrawalDecision.useBitcoinAmount > 0) {
-        const cashPercent = (cashUsed / actualWithdrawal * 100).toFixed(0);
-        const bitcoinPercent = (100 - parseFloat(cashPercent)).toFixed(0);
-        withdrawalSource = `${withdrawalDecision.strategy} (${cashPercent}%/${bitcoinPercent}%)`;
-      } else if (withdrawalDecision.useCashAmount > 0) {
-        withdrawalSource = withdrawalDecision.strategy;
-      } else {
-        withdrawalSource = withdrawalDecision.strategy;
-      }
-
-      if (remainingBitcoin < 0) {
-        remainingBitcoin = 0;
-        withdrawalSource += ' (DEPLETED)';
-      }
-      
-      // Label year 0 as retirement start for display
-      if (year === 0) {
-        withdrawalSource = 'Retirement Start — ' + withdrawalSource;
-      }
-
-      const remainingBitcoinValue = remainingBitcoin * bitcoinPrice;
-      const totalRemainingValue = remainingBitcoinValue + remainingCash;
-
-      simulation.push({
-        year: currentSimulationYear,
-        yearNumber: yearsToRetirement + year + 1, // Continue numbering from accumulation phase
-        phase: year === 0 ? 'RETIREMENT START' : 'WITHDRAWAL',
-        bitcoinPrice: bitcoinPrice,
-        fairValue: fairValue,
-        priceToFairRatio: priceToFairRatio,
-        cyclePhase: cyclePhase,
-        annualWithdrawal: actualWithdrawal,
-        withdrawalSource: withdrawalSource,
-        cashUsed: cashUsed,
-        bitcoinSold: bitcoinSold,
-        bitcoinPurchased: 0,
-        remainingCash: remainingCash,
-        remainingBitcoin: remainingBitcoin,
-        remainingBitcoinValue: remainingBitcoinValue,
-        totalRemainingValue: totalRemainingValue,
-        totalCashInvested: cumulativeCashInvested // Use final cumulative total for retirement phase
-      });
-
-      // Stop simulation if depleted
-      if (remainingBitcoin <= 0 && remainingCash <= 0) {
-        break;
-      }
-    }
-
-    return simulation;
-  };
-
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const actualPriceEntry = payload.find((entry: any) => entry.dataKey === 'actualPrice');
@@ -806,7 +544,7 @@ const BitcoinChart: React.FC = () => {
           )}
           {actualPriceEntry && actualPriceEntry.value !== null && upperBoundEntry && (
             <p className="tooltip-ratio">
-              {`Upper Bound Ratio (2x): ${(actualPriceEntry.value / upperBoundEntry.value).toFixed(2)}x`}
+              {`Upper Bound Ratio (${upperBoundLabel}): ${(actualPriceEntry.value / upperBoundEntry.value).toFixed(2)}x`}
             </p>
           )}
           {!actualPriceEntry || actualPriceEntry.value === null ? (
@@ -842,43 +580,16 @@ const BitcoinChart: React.FC = () => {
   const upperBoundRatio = currentPrice && currentUpperBound ? currentPrice / currentUpperBound : 0;
   const isAboveFairValue = priceRatio > 1;
   const isAboveFloor = floorRatio > 1;
-  const isNearUpperBound = upperBoundRatio > 0.7; // Consider "near" at 70% of 2x fair value
-
-  // Projected price line: anchor to retirement start year (from "Years until retirement"); bear starts there
-  const simulationForChart = simulate50YearWithdrawals();
-  const currentYear = new Date().getFullYear();
-  const yearsToRetirementForChart = monthlySavingsInputs.enabled ? monthlySavingsInputs.yearsToRetirement : 0;
-  const chartRetirementStartYear = currentYear + Math.max(retirementInputs.yearsUntilRetirement, yearsToRetirementForChart);
-
-  const getChartPlanPriceForYear = (year: number): number | null => {
-    if (year < chartRetirementStartYear) return null;
-    const targetDate = new Date(year, 0, 1);
-    const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-    const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-    const upperBound = BitcoinPowerLaw.calculateUpperBound(targetDate);
-    const offset = year - chartRetirementStartYear;
-    if (offset === 0 || offset === 1) return floorValue;           // 2 years at floor
-    if (offset === 2) return floorValue + (fairValue - floorValue) * 0.75; // recovery
-    const cycleYear = (offset - 3) % 4;  // then 4-year cycle: 0=floor, 1=recovery, 2=bull, 3=peak
-    switch (cycleYear) {
-      case 0: return floorValue;
-      case 1: return floorValue + (fairValue - floorValue) * 0.75;
-      case 2: return fairValue + (upperBound - fairValue) * 0.7;
-      case 3: return fairValue + (upperBound - fairValue) * 0.3;
-      default: return fairValue;
-    }
-  };
+  const isNearUpperBound = upperBoundRatio > 0.7; // Consider "near" at 70% of the upper bound
 
-  const chartDataWithPlan: ChartDataPoint[] = chartData.map(pt => ({
-    ...pt,
-    withdrawalPlanPrice: simulationForChart.length > 0 ? getChartPlanPriceForYear(new Date(pt.timestamp).getFullYear()) ?? null : null
-  }));
-  const showPlanLine = simulationForChart.length > 0;
+  // Projected price line: anchored to the plan's retirement start year; bear starts there
+  const chartDataWithPlan = buildPlanChartData(chartData, retirementPlan, priceModel, cycleCalendar, customCycle);
+  const showPlanLine = retirementPlan !== null;
 
   return (
     <div className="chart-container">
       <div className="chart-header">
-        <h2>Bitcoin Price and Power Law Model</h2>
+        <h2>Bitcoin Price and {priceModel.name} Model</h2>
         {lastUpdated && (
           <div style={{ 
             fontSize: '12px', 
@@ -895,15 +606,15 @@ const BitcoinChart: React.FC = () => {
               <span className="stat-value">{formatPrice(currentPrice)}</span>
             </div>
             <div className="stat">
-              <span className="stat-label">Fair Value (Power Law):</span>
+              <span className="stat-label">Fair Value ({priceModel.name}):</span>
               <span className="stat-value">{formatPrice(currentFairValue)}</span>
             </div>
             <div className="stat">
-              <span className="stat-label">Upper Bound (2x Fair Value):</span>
+              <span className="stat-label">Upper Bound ({formatMultiplier(currentUpperBound / currentFairValue)} Fair Value):</span>
               <span className="stat-value">{formatPrice(currentUpperBound)}</span>
             </div>
             <div className="stat">
-              <span className="stat-label">Floor Value (0.42x):</span>
+              <span className="stat-label">Floor Value ({floorLabel}):</span>
               <span className="stat-value">{formatPrice(currentFloorValue)}</span>
             </div>
             <div className="stat">
@@ -972,7 +683,7 @@ const BitcoinChart: React.FC = () => {
               strokeWidth={2}
               dot={false}
               strokeDasharray="5 5"
-              name="Power Law Fair Value"
+              name={`${priceModel.name} Fair Value`}
             />
             <Line
               type="monotone"
@@ -981,7 +692,7 @@ const BitcoinChart: React.FC = () => {
               strokeWidth={2}
               dot={false}
               strokeDasharray="3 3"
-              name="Power Law Floor (0.42x)"
+              name={`${priceModel.name} Floor (${floorLabel})`}
             />
             <Line
               type="monotone"
@@ -990,8 +701,20 @@ const BitcoinChart: React.FC = () => {
               strokeWidth={2}
               dot={false}
               strokeDasharray="7 3"
-              name="Power Law Upper Bound (2x)"
+              name={`${priceModel.name} Upper Bound (${upperBoundLabel})`}
             />
+            {showResidualBands && RESIDUAL_BAND_PERCENTILES.map((percentile, index) => (
+              <Line
+                key={percentile}
+                type="monotone"
+                dataKey={(point: ChartDataPoint) => point.residualBands?.[index]}
+                stroke={RESIDUAL_BAND_COLORS[index % RESIDUAL_BAND_COLORS.length]}
+                strokeWidth={1}
+                dot={false}
+                strokeDasharray="2 4"
+                name={`P${percentile} Band`}
+              />
+            ))}
             {showPlanLine && (
               <Line
                 type="monotone"
@@ -1000,7 +723,15 @@ const BitcoinChart: React.FC = () => {
                 strokeWidth={2}
                 dot={false}
                 connectNulls={false}
-                name="50-Year Plan (Projected Prices)"
+                name={customCycle ? `50-Year Plan (${customCycle.name})` : '50-Year Plan (Projected Prices)'}
+              />
+            )}
+            {earliestRetirement && (
+              <ReferenceLine
+                x={new Date(earliestRetirement.retirementYear, 0, 1).getTime()}
+                stroke="#2ed573"
+                strokeDasharray="4 4"
+                label={{ value: `Earliest Retirement ${earliestRetirement.retirementYear}`, position: 'insideTopLeft', fill: '#2ed573', fontSize: 12 }}
               />
             )}
 
@@ -1008,6 +739,35 @@ const BitcoinChart: React.FC = () => {
         </ResponsiveContainer>
       </div>
 
+      {/* Published constants vs live fit of the Power Law */}
+      <PowerLawFitPanel source={powerLawSource} fits={powerLawFits} onSourceChange={setPowerLawSource} />
+
+      {/* Empirical percentile bands as alternatives to the 0.42x floor and 2x upper bound */}
+      <PowerLawBandsPanel
+        bands={residualBands}
+        selection={bandSelection}
+        onSelectionChange={setBandSelection}
+        showOnChart={showResidualBands}
+        onShowOnChartChange={setShowResidualBands}
+        upperBoundModel={upperBoundModel}
+        upperBoundFit={upperBoundFit}
+        onUpperBoundModelChange={setUpperBoundModel}
+      />
+
+      {/* Alternative long-term models behind every projection */}
+      <PriceModelPanel
+        modelId={priceModelId}
+        settings={priceModelSettings}
+        onModelChange={setPriceModelId}
+        onSettingsChange={setPriceModelSettings}
+      />
+
+      {/* Halving-anchored calendar for bull, peak, bear and recovery years */}
+      <CycleCalendarPanel calendar={cycleCalendar} onChange={setCycleCalendar} today={retirementScenario.startDate} />
+
+      {/* User-drawn fair value multiples that replace the built-in cycle after retirement */}
+      <CustomCyclePanel onChange={setCustomCycle} />
+
       {/* Retirement Calculator Inputs */}
       <div className="retirement-section">
         <h3>Retirement Inputs</h3>
@@ -1050,7 +810,7 @@ const BitcoinChart: React.FC = () => {
               step="1000"
               min="0"
               placeholder="Enter annual needs"
-              title="This calculator uses Net Present Value (NPV) - enter amounts in today's purchasing power. No inflation adjustments are made as the Power Law model operates in real terms."
+              title="Enter the amount in today's purchasing power. It grows every year with the inflation assumption below; the 50-year table shows both nominal and today's dollars."
             />
             <span className="input-unit">USD</span>
           </div>
@@ -1072,6 +832,40 @@ const BitcoinChart: React.FC = () => {
           </div>
         </div>
 
+        {/* Inflation assumption: withdrawals grow in nominal dollars */}
+        <InflationPanel
+          inflation={inflationInputs}
+          onChange={setInflationInputs}
+          startYear={retirementScenario.startDate.getFullYear()}
+        />
+
+        {/* Capital gains tax on Bitcoin sales */}
+        <CapitalGainsTaxPanel tax={capitalGainsTax} onChange={setCapitalGainsTax} />
+
+        {/* How much to spend each year and where it comes from */}
+        <WithdrawalStrategyPanel
+          strategyId={withdrawalStrategyId}
+          settings={withdrawalStrategySettings}
+          onStrategyChange={setWithdrawalStrategyId}
+          onSettingsChange={setWithdrawalStrategySettings}
+          frequency={withdrawalFrequency}
+          onFrequencyChange={setWithdrawalFrequency}
+        />
+
+        {/* Zones that split each withdrawal between cash and Bitcoin */}
+        {withdrawalStrategy === SMART_WITHDRAWAL_STRATEGY && (
+          <SmartWithdrawalPanel config={smartWithdrawalConfig} onChange={setSmartWithdrawalConfig} />
+        )}
+
+        {/* Optional cash buffer refill from Bitcoin in overvalued years */}
+        <CashReservePanel
+          refill={cashRefill}
+          onRefillChange={setCashRefill}
+          buyBack={buyBack}
+          onBuyBackChange={setBuyBack}
+          scenario={retirementScenario}
+        />
+
         {/* Monthly Savings Component */}
         <div className="monthly-savings-section">
           <div className="savings-header">
@@ -1138,7 +932,7 @@ const BitcoinChart: React.FC = () => {
                   
                   {monthlySavingsInputs.doubleDownInBearMarkets && (
                     <div className="bear-market-info">
-                      <p><strong>Bear Market Strategy Active:</strong> Doubling savings every 4th year (years with cycle year 0) to maximize Bitcoin accumulation during low prices!</p>
+                      <p><strong>Bear Market Strategy Active:</strong> Doubling savings in the deep bear and recovery years of the halving cycle to maximize Bitcoin accumulation during low prices!</p>
                     </div>
                   )}
                   
@@ -1181,16 +975,8 @@ const BitcoinChart: React.FC = () => {
       </div>
 
       {/* Retirement Analysis - based on 50-year simulation */}
-      {(() => {
-        const hasAssets = retirementInputs.bitcoinAmount > 0 || (monthlySavingsInputs.enabled && monthlySavingsInputs.monthlySavingsAmount > 0);
-        return hasAssets && retirementInputs.annualWithdrawal > 0 && currentPrice !== null;
-      })() && currentPrice && (() => {
-        const simulation = simulate50YearWithdrawals();
-        if (simulation.length === 0) return null;
-        
-        const simulationSucceeds = simulation.length >= 50 && 
-          simulation[simulation.length - 1].remainingBitcoin > 0 &&
-          simulation[simulation.length - 1].totalRemainingValue > 0;
+      {retirementPlan && currentPrice && (() => {
+        const { simulationSucceeds } = retirementPlan;
         
         return (
           <div className="retirement-status">
@@ -1221,6 +1007,29 @@ const BitcoinChart: React.FC = () => {
               </div>
             )}
 
+            {/* Earliest forward retirement year */}
+            <div className="historical-retirement-info">
+              <h5>🗓️ Earliest Retirement Year</h5>
+              <p className="historical-note">
+                {searchingEarliestRetirement && !earliestRetirement ? (
+                  <>Searching the next {MAX_YEARS_UNTIL_RETIREMENT} years…</>
+                ) : earliestRetirement ? (
+                  <>
+                    <strong>You could retire in {earliestRetirement.retirementYear}</strong>
+                    {earliestRetirement.yearsUntilRetirement > 0 ? ` (in ${earliestRetirement.yearsUntilRetirement} year${earliestRetirement.yearsUntilRetirement === 1 ? '' : 's'})` : ' (today)'}
+                    {' '}with {earliestRetirement.plan.bitcoinAtRetirement.toFixed(3)} BTC, passing the Bear Market Test and the 50-year simulation
+                    {monthlySavingsInputs.enabled ? ' with monthly savings until then' : ''}. Marked in green on the chart.
+                  </>
+                ) : (
+                  <>No year in the next {MAX_YEARS_UNTIL_RETIREMENT} passes both the Bear Market Test and the 50-year simulation with the current holdings{monthlySavingsInputs.enabled ? ' and savings plan' : ''}.</>
+                )}
+              </p>
+            </div>
+
+            {/* Bear Market Test parameters, then the test beside the stress-test library */}
+            <BearMarketTestSettings parameters={bearMarketTest} onChange={setBearMarketTest} />
+            <StressTestMatrix scenario={retirementScenario} serializedScenario={serializedScenario} plan={retirementPlan} />
+
             <div className="status-details">
               <div className="asset-breakdown">
                 {retirementInputs.bitcoinAmount > 0 && (
@@ -1236,7 +1045,7 @@ const BitcoinChart: React.FC = () => {
                   const currentYear = new Date().getFullYear();
                   const retirementYear = currentYear + Math.max(retirementInputs.yearsUntilRetirement, monthlySavingsInputs.yearsToRetirement);
                   const retirementDate = new Date(retirementYear, 0, 1);
-                  const bitcoinPriceAtRetirement = BitcoinPowerLaw.calculateFairValue(retirementDate);
+                  const bitcoinPriceAtRetirement = priceModel.fairValue(retirementDate);
                   
                   return (
                     <>
@@ -1277,6 +1086,12 @@ const BitcoinChart: React.FC = () => {
                   <span className="withdrawal-label">Annual Withdrawal Need:</span>
                   <span className="withdrawal-value">{formatPrice(retirementInputs.annualWithdrawal)}</span>
                 </div>
+                {retirementPlan && retirementPlan.withdrawalYears.length > 0 && (
+                  <div className="withdrawal-item">
+                    <span className="withdrawal-label">Withdrawal in {retirementPlan.retirementStartYear} (nominal):</span>
+                    <span className="withdrawal-value">{formatPrice(retirementPlan.withdrawalYears[0].annualWithdrawal)}</span>
+                  </div>
+                )}
                 <div className="withdrawal-item">
                   <span className="withdrawal-label">Cash Buffer Available:</span>
                   <span className="withdrawal-value">{formatPrice(retirementInputs.cashAmount)} (one-time emergency fund)</span>
@@ -1343,7 +1158,8 @@ const BitcoinChart: React.FC = () => {
                 currentDate: new Date(),
                 availableCash: retirementInputs.cashAmount,
                 availableBitcoin: retirementInputs.bitcoinAmount,
-                withdrawalNeeded: retirementInputs.annualWithdrawal
+                withdrawalNeeded: retirementInputs.annualWithdrawal,
+                config: smartWithdrawalConfig
               });
               
               return (
@@ -1374,18 +1190,8 @@ const BitcoinChart: React.FC = () => {
       )}
       
       {/* 50-Year Simulation Validation */}
-      {(() => {
-        const hasAssets = retirementInputs.bitcoinAmount > 0 || (monthlySavingsInputs.enabled && monthlySavingsInputs.monthlySavingsAmount > 0);
-        return hasAssets && retirementInputs.annualWithdrawal > 0;
-      })() && (() => {
-        const simulation = simulate50YearWithdrawals();
-        if (simulation.length === 0) return null;
-        
-        const simulationSucceeds = simulation.length >= 50 && 
-          simulation[simulation.length - 1].remainingBitcoin > 0 &&
-          simulation[simulation.length - 1].totalRemainingValue > 0;
-        const yearsUntilDepletion = simulation.findIndex(s => s.remainingBitcoin <= 0 && s.remainingCash <= 0);
-        const actualYearsLasting = yearsUntilDepletion > 0 ? yearsUntilDepletion + 1 : simulation.length;
+      {retirementPlan && (() => {
+        const { simulationSucceeds, yearsLasted: actualYearsLasting } = retirementPlan;
         
         if (simulationSucceeds) {
           return (
@@ -1430,27 +1236,65 @@ const BitcoinChart: React.FC = () => {
         }
       })()}
 
+      {/* Maximum sustainable withdrawal */}
+      {hasRetirementAssets(retirementScenario) && (
+        <RetirementSolverPanel
+          scenario={retirementScenario}
+          serializedScenario={serializedScenario}
+          onApplyWithdrawal={(annualWithdrawal) => handleInputChange('annualWithdrawal', annualWithdrawal)}
+        />
+      )}
+
+      {/* Monte Carlo Simulation */}
+      {hasRetirementAssets(retirementScenario) && (
+        <MonteCarloPanel
+          scenario={retirementScenario}
+          serializedScenario={serializedScenario}
+          historicalPrices={historicalPrices}
+          powerLawParameters={powerLawParameters}
+        />
+      )}
+
+      {/* Historical-sequence backtest */}
+      {hasRetirementAssets(retirementScenario) && (
+        <HistoricalBacktestPanel
+          scenario={retirementScenario}
+          serializedScenario={serializedScenario}
+          historicalPrices={historicalPrices}
+          powerLawParameters={powerLawParameters}
+        />
+      )}
+
+      {/* FIFO / LIFO / HIFO / minimize-tax side by side */}
+      {capitalGainsTax.enabled && hasRetirementAssets(retirementScenario) && (
+        <TaxLotComparisonPanel scenario={retirementScenario} />
+      )}
+
+      {/* Smart Withdrawal against cash-first and proportional baselines */}
+      {hasRetirementAssets(retirementScenario) && (
+        <StrategyComparisonPanel scenario={retirementScenario} />
+      )}
+
+      {/* Pass/fail across withdrawals × BTC holdings or retirement years */}
+      {hasRetirementAssets(retirementScenario) && (
+        <SuccessHeatmapPanel scenario={retirementScenario} serializedScenario={serializedScenario} />
+      )}
+
       {/* 50-Year Withdrawal Projection Table */}
-      {(() => {
-        const hasAssets = retirementInputs.bitcoinAmount > 0 || (monthlySavingsInputs.enabled && monthlySavingsInputs.monthlySavingsAmount > 0);
-        return hasAssets && retirementInputs.annualWithdrawal > 0;
-      })() && (
+      {hasRetirementAssets(retirementScenario) && (
         <div className="retirement-projection">
           <h3 style={{ color: '#f7931a', textAlign: 'center', marginBottom: '20px' }}>
             {monthlySavingsInputs.enabled ? 'Full Life Plan: Accumulation + 50-Year Retirement' : '50-Year Withdrawal Projection'}
           </h3>
           
           {(() => {
-            const simulation = simulate50YearWithdrawals();
-            
-            if (simulation.length === 0) {
+            if (!retirementPlan) {
               return <p style={{ textAlign: 'center', color: '#999' }}>Enter Bitcoin and withdrawal amounts to see projection</p>;
             }
 
             // Get final year of withdrawal phase (not accumulation phase)
-            const withdrawalPhase = simulation.filter(s => s.phase !== 'ACCUMULATION');
+            const { simulation, withdrawalYears: withdrawalPhase } = retirementPlan;
             const finalYear = withdrawalPhase[withdrawalPhase.length - 1] || simulation[simulation.length - 1];
-            const yearsUntilDepletion = withdrawalPhase.findIndex(s => s.remainingBitcoin <= 0 && s.remainingCash <= 0);
             const totalSimulationYears = simulation.length;
             
             return (
@@ -1488,11 +1332,22 @@ const BitcoinChart: React.FC = () => {
                         <div style={{ fontSize: '1.2em', color: 'white' }}>
                           ${finalYear.totalRemainingValue.toLocaleString()}
                         </div>
+                        <div style={{ color: '#999', fontSize: '0.9em' }}>
+                          ≈ ${Math.round(toTodaysDollars(finalYear.totalRemainingValue, finalYear.inflationFactor)).toLocaleString()} in today's dollars
+                        </div>
                       </div>
+                      {capitalGainsTax.enabled && (
+                        <div>
+                          <div style={{ color: '#f7931a', fontWeight: 'bold' }}>Total Tax Paid</div>
+                          <div style={{ fontSize: '1.2em', color: 'white' }}>
+                            ${Math.round(retirementPlan.totalTaxPaid).toLocaleString()}
+                          </div>
+                        </div>
+                      )}
                     </div>
-                    {yearsUntilDepletion > 0 && (
+                    {retirementPlan.depletionYear !== null && (
                       <div style={{ marginTop: '10px', color: '#ff6b6b' }}>
-                        ⚠️ Assets depleted in year {yearsUntilDepletion + 1}
+                        ⚠️ Assets depleted in year {retirementPlan.yearsLasted}
                       </div>
                     )}
                   </div>
@@ -1521,10 +1376,19 @@ const BitcoinChart: React.FC = () => {
                         <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'center', minWidth: '80px' }}>Phase</th>
                         <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'center', minWidth: '100px' }}>Cycle</th>
                         <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '100px' }}>BTC Price</th>
-                        <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '100px' }}>Cash Flow</th>
+                        <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '100px' }}>Cash Flow (Nominal)</th>
+                        <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '100px' }}>Cash Flow (Today's $)</th>
                         <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'left', minWidth: '120px' }}>Activity</th>
                         <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '80px' }}>BTC Δ</th>
+                        {capitalGainsTax.enabled && (
+                          <>
+                            <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '90px' }}>Tax Paid</th>
+                            <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '70px' }}>Eff. Tax Rate</th>
+                          </>
+                        )}
                         <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '80px' }}>Total BTC</th>
+                        <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '110px' }}>Total Value (Nominal)</th>
+                        <th style={{ padding: '12px 8px', color: '#f7931a', fontWeight: 'bold', textAlign: 'right', minWidth: '110px' }}>Total Value (Today's $)</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -1536,9 +1400,11 @@ const BitcoinChart: React.FC = () => {
                             row.totalCashInvested - (index > 0 && simulation[index-1].totalCashInvested ? simulation[index-1].totalCashInvested : 0) 
                             : 0) : 
                           row.annualWithdrawal;
+                        // Retirement rows net buy-back purchases against sales
+                        const netBitcoin = row.bitcoinPurchased - row.bitcoinSold;
                         const btcDelta = isAccumulation ? 
                           (row.bitcoinPurchased ? `+${row.bitcoinPurchased.toFixed(4)}` : '+0') : 
-                          (row.bitcoinSold > 0 ? `-${row.bitcoinSold.toFixed(4)}` : '0');
+                          (netBitcoin > 0 ? `+${netBitcoin.toFixed(4)}` : netBitcoin < 0 ? `-${(-netBitcoin).toFixed(4)}` : '0');
                         
                         return (
                           <tr key={index} style={{ 
@@ -1587,6 +1453,9 @@ const BitcoinChart: React.FC = () => {
                             }}>
                               {isAccumulation ? '+' : '-'}${Math.abs(cashFlow).toLocaleString()}
                             </td>
+                            <td style={{ padding: '10px 8px', color: '#ccc', textAlign: 'right', fontSize: '0.9em' }}>
+                              {isAccumulation ? '+' : '-'}${Math.round(toTodaysDollars(Math.abs(cashFlow), row.inflationFactor)).toLocaleString()}
+                            </td>
                             <td style={{ 
                               padding: '10px 8px', 
                               color: isAccumulation ? '#2ed573' : (row.withdrawalSource.includes('Cash') ? '#2ed573' : '#ffa502'),
@@ -1597,12 +1466,22 @@ const BitcoinChart: React.FC = () => {
                             </td>
                             <td style={{ 
                               padding: '10px 8px', 
-                              color: isAccumulation ? '#2ed573' : '#ff6b6b', 
+                              color: isAccumulation || netBitcoin > 0 ? '#2ed573' : '#ff6b6b', 
                               textAlign: 'right',
                               fontWeight: 'bold'
                             }}>
                               {btcDelta}
                             </td>
+                            {capitalGainsTax.enabled && (
+                              <>
+                                <td style={{ padding: '10px 8px', color: row.taxPaid > 0 ? '#ff6b6b' : '#999', textAlign: 'right' }}>
+                                  ${Math.round(row.taxPaid).toLocaleString()}
+                                </td>
+                                <td style={{ padding: '10px 8px', color: '#ccc', textAlign: 'right' }}>
+                                  {(row.effectiveTaxRate * 100).toFixed(1)}%
+                                </td>
+                              </>
+                            )}
                             <td style={{ 
                               padding: '10px 8px', 
                               textAlign: 'right',
@@ -1611,6 +1490,12 @@ const BitcoinChart: React.FC = () => {
                             }}>
                               {row.remainingBitcoin.toFixed(3)}
                             </td>
+                            <td style={{ padding: '10px 8px', color: '#f0f0f0', textAlign: 'right' }}>
+                              ${Math.round(row.totalRemainingValue).toLocaleString()}
+                            </td>
+                            <td style={{ padding: '10px 8px', color: '#ccc', textAlign: 'right' }}>
+                              ${Math.round(toTodaysDollars(row.totalRemainingValue, row.inflationFactor)).toLocaleString()}
+                            </td>
                           </tr>
                         );
                       })}
@@ -1633,12 +1518,12 @@ const BitcoinChart: React.FC = () => {
                     <div>
                       <strong>💰 SAVE Phase:</strong> Monthly savings buy Bitcoin at Power Law fair value each year
                       <br/><strong>🏠 RETIRE Phase:</strong> {monthlySavingsInputs.enabled ? 'Retirement transition year (highlighted in purple)' : 'Immediate retirement'}
-                      <br/><strong>💸 SPEND Phase:</strong> Smart withdrawals over 50 years
+                      <br/><strong>💸 SPEND Phase:</strong> Smart withdrawals over 50 years{withdrawalFrequency === 'monthly' ? ', taken monthly and totaled per year' : ''}{customCycle ? ` at the "${customCycle.name}" custom prices` : ''}
                     </div>
                     <div>
                       <strong>Strategy:</strong> Use cash during 🔴 bear markets, sell Bitcoin during 🟢 bull markets
-                      <br/><strong>BTC Δ:</strong> + means buying Bitcoin, - means selling Bitcoin
-                      <br/><strong>Cash Impact:</strong> Cash loses value to inflation, but withdrawal needs stay constant
+                      <br/><strong>BTC Δ:</strong> + means buying Bitcoin (savings or 🛒 buy-backs), - means selling Bitcoin
+                      <br/><strong>Inflation:</strong> Withdrawals grow with inflation in nominal dollars; Today's $ columns divide by the price level since {retirementScenario.startDate.getFullYear()}
                     </div>
                   </div>
                 </div>
@@ -1647,6 +1532,11 @@ const BitcoinChart: React.FC = () => {
           })()}
         </div>
       )}
+
+      {/* Tornado chart: which input the plan is most fragile to */}
+      {hasRetirementAssets(retirementScenario) && (
+        <SensitivityPanel scenario={retirementScenario} serializedScenario={serializedScenario} />
+      )}
     </div>
   );
 };
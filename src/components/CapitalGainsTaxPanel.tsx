@@ -0,0 +1,186 @@
+import React from 'react';
+import {
+  CapitalGainsTaxInputs,
+  LOT_SELECTION_LABELS,
+  LOT_SELECTION_METHODS,
+  LotSelectionMethod,
+  TaxBracket,
+  TaxRateMode
+} from '../utils/CapitalGainsTax';
+
+interface CapitalGainsTaxPanelProps {
+  tax: CapitalGainsTaxInputs;
+  onChange: (tax: CapitalGainsTaxInputs) => void;
+}
+
+type BracketKey = 'shortTermBrackets' | 'longTermBrackets';
+
+const BRACKET_LABELS: Record<BracketKey, string> = {
+  shortTermBrackets: 'Short-Term Brackets (held under a year)',
+  longTermBrackets: 'Long-Term Brackets'
+};
+
+const toPercent = (rate: number): number => Math.round(rate * 1000) / 10;
+
+const CapitalGainsTaxPanel: React.FC<CapitalGainsTaxPanelProps> = ({ tax, onChange }) => {
+  const updateBracket = (key: BracketKey, index: number, bracket: TaxBracket) => {
+    onChange({ ...tax, [key]: tax[key].map((existing, i) => (i === index ? bracket : existing)) });
+  };
+
+  const addBracket = (key: BracketKey) => {
+    const last = tax[key][tax[key].length - 1];
+    onChange({ ...tax, [key]: [...tax[key], { from: last ? last.from * 2 : 0, rate: last ? last.rate : 0 }] });
+  };
+
+  const renderBrackets = (key: BracketKey) => (
+    <>
+      <h5 className="analysis-subheading">{BRACKET_LABELS[key]}</h5>
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Gains Above ($, today)</th>
+            <th>Rate (%)</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {tax[key].map((bracket, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="number"
+                  value={bracket.from}
+                  onChange={(e) => updateBracket(key, index, { ...bracket, from: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  step="1000"
+                  min="0"
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  value={toPercent(bracket.rate)}
+                  onChange={(e) => updateBracket(key, index, { ...bracket, rate: Math.min(99, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                  step="1"
+                  min="0"
+                  max="99"
+                />
+              </td>
+              <td>
+                <button onClick={() => onChange({ ...tax, [key]: tax[key].filter((_, i) => i !== index) })}>Remove</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={() => addBracket(key)}>Add Bracket</button>
+    </>
+  );
+
+  return (
+    <div className="monthly-savings-section">
+      <div className="savings-header">
+        <h4>Capital Gains Tax</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={tax.enabled}
+            onChange={(e) => onChange({ ...tax, enabled: e.target.checked })}
+          />
+          <span>Tax Bitcoin sales</span>
+        </label>
+      </div>
+
+      {tax.enabled && (
+        <>
+          <div className="savings-inputs">
+            <div className="input-group">
+              <label htmlFor="startingCostBasis">Cost Basis of Current Holdings:</label>
+              <input
+                id="startingCostBasis"
+                type="number"
+                value={tax.startingCostBasis}
+                onChange={(e) => onChange({ ...tax, startingCostBasis: Math.max(0, parseFloat(e.target.value) || 0) })}
+                step="1000"
+                min="0"
+                title="Average price paid per BTC. Current holdings count as held long-term; monthly purchases keep their own purchase price and date."
+              />
+              <span className="input-unit">USD/BTC</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="lotSelection">Lots Sold First:</label>
+              <select
+                id="lotSelection"
+                value={tax.lotSelection}
+                onChange={(e) => onChange({ ...tax, lotSelection: e.target.value as LotSelectionMethod })}
+              >
+                {LOT_SELECTION_METHODS.map(method => (
+                  <option key={method} value={method}>{LOT_SELECTION_LABELS[method]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="taxRateMode">Tax Rates:</label>
+              <select
+                id="taxRateMode"
+                value={tax.mode}
+                onChange={(e) => onChange({ ...tax, mode: e.target.value as TaxRateMode })}
+              >
+                <option value="flat">Flat rates</option>
+                <option value="brackets">Progressive brackets</option>
+              </select>
+            </div>
+
+            {tax.mode === 'flat' && (
+              <>
+                <div className="input-group">
+                  <label htmlFor="shortTermRate">Short-Term Rate:</label>
+                  <input
+                    id="shortTermRate"
+                    type="number"
+                    value={toPercent(tax.shortTermRate)}
+                    onChange={(e) => onChange({ ...tax, shortTermRate: Math.min(99, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                    step="1"
+                    min="0"
+                    max="99"
+                  />
+                  <span className="input-unit">%</span>
+                </div>
+                <div className="input-group">
+                  <label htmlFor="longTermRate">Long-Term Rate:</label>
+                  <input
+                    id="longTermRate"
+                    type="number"
+                    value={toPercent(tax.longTermRate)}
+                    onChange={(e) => onChange({ ...tax, longTermRate: Math.min(99, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                    step="1"
+                    min="0"
+                    max="99"
+                  />
+                  <span className="input-unit">%</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {tax.mode === 'brackets' && (
+            <>
+              {renderBrackets('shortTermBrackets')}
+              {renderBrackets('longTermBrackets')}
+            </>
+          )}
+
+          <p className="analysis-note">
+            Each purchase is its own lot, sold in the chosen order. Each sale is grossed up so the withdrawal is
+            still covered after tax; gains held under a year are short-term. Brackets apply to each year's gains
+            alone and their thresholds rise with inflation. The 50-year table shows the tax paid and the effective
+            rate every year.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CapitalGainsTaxPanel;
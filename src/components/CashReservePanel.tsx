@@ -0,0 +1,163 @@
+import React, { useMemo } from 'react';
+import { RetirementScenario } from '../types/Bitcoin';
+import { BuyBackInputs, CashRefillInputs } from '../utils/CashReserve';
+import { formatPrice } from '../utils/Formatters';
+import { evaluateRetirementPlan } from '../utils/RetirementEngine';
+
+interface CashReservePanelProps {
+  refill: CashRefillInputs;
+  onRefillChange: (refill: CashRefillInputs) => void;
+  buyBack: BuyBackInputs;
+  onBuyBackChange: (buyBack: BuyBackInputs) => void;
+  scenario: RetirementScenario;
+}
+
+const CashReservePanel: React.FC<CashReservePanelProps> = ({ refill, onRefillChange, buyBack, onBuyBackChange, scenario }) => {
+  // The same plan with and without buy-backs, so the "buy below fair value" advice can be judged by its outcome
+  const buyBackEffect = useMemo(() => {
+    if (!scenario.buyBack.enabled) return null;
+    const withBuyBack = evaluateRetirementPlan(scenario);
+    const withoutBuyBack = evaluateRetirementPlan({ ...scenario, buyBack: { ...scenario.buyBack, enabled: false } });
+    if (!withBuyBack || !withoutBuyBack) return null;
+    const bitcoinBought = withBuyBack.withdrawalYears.reduce((sum, row) => sum + row.bitcoinPurchased, 0);
+    const buyYears = withBuyBack.withdrawalYears.filter(row => row.bitcoinPurchased > 0).length;
+    return [
+      { label: `With buy-backs (${bitcoinBought.toFixed(4)} BTC in ${buyYears} years)`, plan: withBuyBack },
+      { label: 'Without buy-backs', plan: withoutBuyBack }
+    ].map(({ label, plan }) => ({
+      label,
+      finalYear: plan.withdrawalYears[plan.withdrawalYears.length - 1],
+      depletionYear: plan.depletionYear
+    }));
+  }, [scenario]);
+
+  return (
+    <div className="monthly-savings-section">
+      <div className="savings-header">
+        <h4>Cash Reserve</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={refill.enabled}
+            onChange={(e) => onRefillChange({ ...refill, enabled: e.target.checked })}
+          />
+          <span>Refill cash in overvalued years</span>
+        </label>
+      </div>
+
+      {refill.enabled && (
+        <>
+          <div className="savings-inputs">
+            <div className="input-group">
+              <label htmlFor="refillAboveRatio">Refill Above:</label>
+              <input
+                id="refillAboveRatio"
+                type="number"
+                value={refill.aboveRatio}
+                onChange={(e) => onRefillChange({ ...refill, aboveRatio: Math.max(0, parseFloat(e.target.value) || 0) })}
+                step="0.1"
+                min="0"
+              />
+              <span className="input-unit">x fair value</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="refillYears">Cash Target:</label>
+              <input
+                id="refillYears"
+                type="number"
+                value={refill.yearsOfExpenses}
+                onChange={(e) => onRefillChange({ ...refill, yearsOfExpenses: Math.max(0, parseFloat(e.target.value) || 0) })}
+                step="1"
+                min="0"
+              />
+              <span className="input-unit">years of expenses</span>
+            </div>
+          </div>
+
+          <p className="analysis-note">
+            After each year's withdrawal, if Bitcoin is above the threshold, extra Bitcoin is sold until cash covers
+            the target years of that year's withdrawal. Refills show as "🔄 Refill" in the table's Activity column
+            and count toward BTC sold and capital gains tax.
+          </p>
+        </>
+      )}
+
+      <div className="savings-header">
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={buyBack.enabled}
+            onChange={(e) => onBuyBackChange({ ...buyBack, enabled: e.target.checked })}
+          />
+          <span>Buy Bitcoin with surplus cash in undervalued years</span>
+        </label>
+      </div>
+
+      {buyBack.enabled && (
+        <>
+          <div className="savings-inputs">
+            <div className="input-group">
+              <label htmlFor="buyBackBelowRatio">Buy Below:</label>
+              <input
+                id="buyBackBelowRatio"
+                type="number"
+                value={buyBack.belowRatio}
+                onChange={(e) => onBuyBackChange({ ...buyBack, belowRatio: Math.max(0, parseFloat(e.target.value) || 0) })}
+                step="0.1"
+                min="0"
+              />
+              <span className="input-unit">x fair value</span>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="buyBackReserveYears">Keep in Cash:</label>
+              <input
+                id="buyBackReserveYears"
+                type="number"
+                value={buyBack.reserveYears}
+                onChange={(e) => onBuyBackChange({ ...buyBack, reserveYears: Math.max(0, parseFloat(e.target.value) || 0) })}
+                step="1"
+                min="0"
+              />
+              <span className="input-unit">years of expenses</span>
+            </div>
+          </div>
+
+          <p className="analysis-note">
+            After each year's withdrawal, if Bitcoin is below the threshold, cash above the reserve is spent on Bitcoin
+            at that year's price. Buy-backs show as "🛒 Bought" in the table's Activity column and as + in BTC Δ.
+          </p>
+          {refill.enabled && buyBack.belowRatio > refill.aboveRatio && (
+            <p className="analysis-note">⚠️ The buy-back threshold is above the refill threshold, so some years will sell and buy back the same Bitcoin.</p>
+          )}
+
+          {buyBackEffect && (
+            <table className="analysis-table">
+              <thead>
+                <tr>
+                  <th>Plan</th>
+                  <th>Terminal BTC</th>
+                  <th>Terminal Value</th>
+                  <th>Depleted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {buyBackEffect.map(outcome => (
+                  <tr key={outcome.label}>
+                    <td>{outcome.label}</td>
+                    <td>{outcome.finalYear.remainingBitcoin.toFixed(3)} BTC</td>
+                    <td>{formatPrice(outcome.finalYear.totalRemainingValue)}</td>
+                    <td>{outcome.depletionYear ?? 'Never'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CashReservePanel;
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import {
+  CUSTOM_CYCLE_PRESETS,
+  CustomCycle,
+  parseCustomCycles,
+  validateCustomCycle
+} from '../utils/CustomCycle';
+import { RETIREMENT_YEARS } from '../utils/RetirementEngine';
+
+interface CustomCyclePanelProps {
+  onChange: (cycle: CustomCycle | null) => void;
+}
+
+// Drawing area in SVG units; the editor stretches to the panel width
+const EDITOR_WIDTH = 600;
+const EDITOR_HEIGHT = 140;
+// Highest multiple the editor can draw; larger ones can still be typed
+const MAX_DRAWN_MULTIPLIER = 3;
+const DRAW_STEP = 0.05;
+
+const formatMultipliers = (multipliers: number[]): string => multipliers.join(', ');
+
+const parseMultipliers = (text: string): number[] =>
+  text.split(',').map(part => part.trim()).filter(part => part !== '').map(Number);
+
+const CustomCyclePanel: React.FC<CustomCyclePanelProps> = ({ onChange }) => {
+  const [enabled, setEnabled] = useState<boolean>(false);
+  // Saved scenarios live for the session only; the JSON box carries them across visits
+  const [library, setLibrary] = useState<CustomCycle[]>(CUSTOM_CYCLE_PRESETS);
+  const [draft, setDraft] = useState<CustomCycle>(CUSTOM_CYCLE_PRESETS[0]);
+  const [multipliersText, setMultipliersText] = useState<string>(formatMultipliers(CUSTOM_CYCLE_PRESETS[0].multipliers));
+  const [json, setJson] = useState<string>('');
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+  const errors = validateCustomCycle(draft);
+  const saved = library.some(cycle => cycle.name === draft.name);
+
+  // The path is edited locally and only handed to the plan once it is valid
+  const handleChange = (next: CustomCycle, text: string = formatMultipliers(next.multipliers)) => {
+    setDraft(next);
+    setMultipliersText(text);
+    if (enabled && validateCustomCycle(next).length === 0) {
+      onChange(next);
+    }
+  };
+
+  const handleToggle = (checked: boolean) => {
+    setEnabled(checked);
+    onChange(checked && errors.length === 0 ? draft : null);
+  };
+
+  const selectScenario = (name: string) => {
+    const cycle = library.find(candidate => candidate.name === name);
+    if (cycle) handleChange(cycle);
+  };
+
+  // Added years continue at the last multiplier
+  const setYears = (years: number) => {
+    const count = Math.min(RETIREMENT_YEARS, Math.max(1, Math.round(years)));
+    const last = draft.multipliers.length > 0 ? draft.multipliers[draft.multipliers.length - 1] : 1;
+    const multipliers = Array.from({ length: count }, (_, i) => (i < draft.multipliers.length ? draft.multipliers[i] : last));
+    handleChange({ ...draft, multipliers });
+  };
+
+  // Clicking or dragging across the editor sets the multiplier of the year under the pointer
+  const drawAt = (e: React.PointerEvent<SVGSVGElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const count = draft.multipliers.length;
+    const index = Math.min(count - 1, Math.max(0, Math.floor((e.clientX - bounds.left) / bounds.width * count)));
+    const height = 1 - (e.clientY - bounds.top) / bounds.height;
+    const multiplier = Math.max(DRAW_STEP, Math.round(height * MAX_DRAWN_MULTIPLIER / DRAW_STEP) * DRAW_STEP);
+    const rounded = Math.round(multiplier * 100) / 100;
+    if (draft.multipliers[index] === rounded) return;
+    handleChange({ ...draft, multipliers: draft.multipliers.map((existing, i) => (i === index ? rounded : existing)) });
+  };
+
+  // Saving under an existing name replaces that scenario
+  const saveScenario = () => {
+    setLibrary(saved
+      ? library.map(cycle => (cycle.name === draft.name ? draft : cycle))
+      : [...library, draft]);
+  };
+
+  const deleteScenario = () => {
+    setLibrary(library.filter(cycle => cycle.name !== draft.name));
+  };
+
+  const applyJson = () => {
+    const result = parseCustomCycles(json);
+    setJsonErrors(result.errors);
+    if (result.cycles && result.cycles.length > 0) {
+      setLibrary(result.cycles);
+      handleChange(result.cycles[0]);
+    }
+  };
+
+  const barWidth = EDITOR_WIDTH / Math.max(1, draft.multipliers.length);
+  const toY = (multiplier: number): number =>
+    EDITOR_HEIGHT * (1 - Math.min(multiplier, MAX_DRAWN_MULTIPLIER) / MAX_DRAWN_MULTIPLIER);
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>✏️ Custom Price Path</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => handleToggle(e.target.checked)}
+          />
+          <span>Replace the built-in cycle after retirement</span>
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <p className="analysis-note">
+            Each retirement year is priced at the price model's fair value times that year's multiplier, starting with
+            the first year of retirement. After the last year the sequence repeats, or its last multiplier holds for the
+            rest of the 50 years. The 50-year simulation and the chart plan line use this path instead of the worst-case
+            start and the halving cycle; the savings projection before retirement is unchanged.
+          </p>
+
+          <div className="analysis-inputs">
+            <div className="input-group">
+              <label htmlFor="customCycle-scenario">Scenario:</label>
+              <select
+                id="customCycle-scenario"
+                value={saved ? draft.name : ''}
+                onChange={(e) => selectScenario(e.target.value)}
+              >
+                {!saved && <option value="">(unsaved)</option>}
+                {library.map(cycle => (
+                  <option key={cycle.name} value={cycle.name}>{cycle.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor="customCycle-name">Name:</label>
+              <input
+                id="customCycle-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => handleChange({ ...draft, name: e.target.value }, multipliersText)}
+              />
+            </div>
+            <div className="input-group">
+              <label htmlFor="customCycle-years">Years in Sequence:</label>
+              <input
+                id="customCycle-years"
+                type="number"
+                value={draft.multipliers.length}
+                onChange={(e) => setYears(parseInt(e.target.value, 10) || 1)}
+                min="1"
+                max={RETIREMENT_YEARS}
+              />
+              <span className="input-unit">years</span>
+            </div>
+            <label className="savings-toggle">
+              <input
+                type="checkbox"
+                checked={draft.repeat}
+                onChange={(e) => handleChange({ ...draft, repeat: e.target.checked }, multipliersText)}
+              />
+              <span>Repeat the sequence</span>
+            </label>
+          </div>
+
+          <svg
+            viewBox={`0 0 ${EDITOR_WIDTH} ${EDITOR_HEIGHT}`}
+            width="100%"
+            height={EDITOR_HEIGHT}
+            preserveAspectRatio="none"
+            style={{ background: '#1a1a1a', cursor: 'crosshair', touchAction: 'none' }}
+            onPointerDown={drawAt}
+            onPointerMove={(e) => { if (e.buttons === 1) drawAt(e); }}
+          >
+            {draft.multipliers.map((multiplier, i) => (
+              <rect
+                key={i}
+                x={i * barWidth + 1}
+                y={toY(multiplier)}
+                width={Math.max(1, barWidth - 2)}
+                height={EDITOR_HEIGHT - toY(multiplier)}
+                fill={multiplier < 1 ? '#ff4757' : '#2ed573'}
+                opacity={0.8}
+              />
+            ))}
+            <line x1={0} x2={EDITOR_WIDTH} y1={toY(1)} y2={toY(1)} stroke="#f7931a" strokeDasharray="6 4" />
+          </svg>
+          <p className="analysis-note">
+            Click or drag to draw each year's multiple, from 0 to {MAX_DRAWN_MULTIPLIER}× fair value; the dashed line is
+            fair value.
+          </p>
+
+          <div className="analysis-inputs">
+            <div className="input-group">
+              <label htmlFor="customCycle-multipliers">Multipliers:</label>
+              <input
+                id="customCycle-multipliers"
+                type="text"
+                value={multipliersText}
+                onChange={(e) => handleChange({ ...draft, multipliers: parseMultipliers(e.target.value) }, e.target.value)}
+              />
+              <span className="input-unit">x fair value per year</span>
+            </div>
+          </div>
+
+          {errors.map(error => (
+            <p className="analysis-note" key={error}>⚠️ {error}</p>
+          ))}
+
+          <div>
+            <button onClick={saveScenario} disabled={errors.length > 0}>{saved ? 'Update Scenario' : 'Save Scenario'}</button>
+            <button onClick={deleteScenario} disabled={!saved || library.length === 1}>Delete Scenario</button>
+          </div>
+
+          <h5 className="analysis-subheading">Save or Load Scenarios as JSON</h5>
+          <textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            rows={6}
+            placeholder="Paste saved scenarios here"
+          />
+          <div>
+            <button onClick={() => setJson(JSON.stringify(library, null, 2))}>Show Saved</button>
+            <button onClick={applyJson}>Load</button>
+          </div>
+          {jsonErrors.map(error => (
+            <p className="analysis-note" key={error}>⚠️ {error}</p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CustomCyclePanel;
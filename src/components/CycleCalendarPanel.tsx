@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import {
+  CycleCalendarSettings,
+  HALVING_INTERVAL_BLOCKS,
+  estimateBlockHeight,
+  getHalvingBefore,
+  getUpcomingHalvings,
+  validateCycleCalendar
+} from '../utils/CycleCalendar';
+import { calculateCyclePrice } from '../utils/RetirementCalculations';
+
+interface CycleCalendarPanelProps {
+  calendar: CycleCalendarSettings;
+  onChange: (calendar: CycleCalendarSettings) => void;
+  today: Date;
+}
+
+const SETTINGS: Record<keyof CycleCalendarSettings, { label: string; unit: string; step: number }> = {
+  averageBlockMinutes: { label: 'Average Block Time', unit: 'minutes', step: 0.1 },
+  peakOffsetMonths: { label: 'Halving to Peak', unit: 'months', step: 1 },
+  troughOffsetMonths: { label: 'Halving to Trough', unit: 'months', step: 1 }
+};
+
+// Calendar years listed in the phase preview
+const PREVIEW_YEARS = 8;
+
+const formatDate = (date: Date): string => date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const CycleCalendarPanel: React.FC<CycleCalendarPanelProps> = ({ calendar, onChange, today }) => {
+  // Settings are edited locally and only handed to the plan once they are valid
+  const [draft, setDraft] = useState<CycleCalendarSettings>(calendar);
+  const errors = validateCycleCalendar(draft);
+
+  const handleChange = (key: keyof CycleCalendarSettings, value: number) => {
+    const next = { ...draft, [key]: value };
+    setDraft(next);
+    if (validateCycleCalendar(next).length === 0) {
+      onChange(next);
+    }
+  };
+
+  const lastHalving = getHalvingBefore(today, calendar);
+  const upcoming = getUpcomingHalvings(today, 2, calendar);
+  const previewYears = Array.from({ length: PREVIEW_YEARS }, (_, i) => today.getFullYear() + i);
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>📅 Cycle Calendar</h4>
+      </div>
+
+      <p className="analysis-note">
+        Bull, peak, bear and recovery years follow the halvings instead of fixed calendar years. Future halvings
+        are estimated every {HALVING_INTERVAL_BLOCKS.toLocaleString()} blocks from the last one at the average block
+        time; each year takes the phase it is in on January 1. The savings projection, the 50-year plan after its
+        worst-case start and the chart plan line all use this calendar.
+      </p>
+
+      <div className="analysis-inputs">
+        {(Object.keys(SETTINGS) as Array<keyof CycleCalendarSettings>).map(key => (
+          <div className="input-group" key={key}>
+            <label htmlFor={`cycleCalendar-${key}`}>{SETTINGS[key].label}:</label>
+            <input
+              id={`cycleCalendar-${key}`}
+              type="number"
+              value={draft[key]}
+              onChange={(e) => handleChange(key, Math.max(0, parseFloat(e.target.value) || 0))}
+              step={SETTINGS[key].step}
+              min="0"
+            />
+            <span className="input-unit">{SETTINGS[key].unit}</span>
+          </div>
+        ))}
+      </div>
+
+      {errors.map(error => (
+        <p className="analysis-note" key={error}>⚠️ {error}</p>
+      ))}
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Event</th>
+            <th>Block Height</th>
+            <th>Date</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>Last halving</td>
+            <td>{lastHalving.height.toLocaleString()}</td>
+            <td>{formatDate(lastHalving.date)}</td>
+          </tr>
+          <tr>
+            <td>Today (estimated)</td>
+            <td>{estimateBlockHeight(today, calendar).toLocaleString()}</td>
+            <td>{formatDate(today)}</td>
+          </tr>
+          {upcoming.map(halving => (
+            <tr key={halving.height}>
+              <td>Upcoming halving (estimated)</td>
+              <td>{halving.height.toLocaleString()}</td>
+              <td>{formatDate(halving.date)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            {previewYears.map(year => <th key={year}>{year}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            {previewYears.map(year => (
+              <td key={year}>{calculateCyclePrice(year, false, undefined, calendar).phase}</td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CycleCalendarPanel;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { PowerLawParameters } from '../models/PowerLaw';
+import { BitcoinPriceData, RetirementScenario } from '../types/Bitcoin';
+import {
+  DEFAULT_BACKTEST_OPTIONS,
+  HistoricalBacktestRequest,
+  HistoricalBacktestResponse,
+  HistoricalBacktestResult,
+  runHistoricalBacktest
+} from '../utils/HistoricalBacktest';
+import { SerializedScenario } from '../utils/SuccessHeatmap';
+import { formatPrice } from '../utils/Formatters';
+
+interface HistoricalBacktestPanelProps {
+  scenario: RetirementScenario;
+  /** The same scenario as plain data for the worker */
+  serializedScenario: SerializedScenario;
+  historicalPrices: BitcoinPriceData[];
+  /** Power Law the historical ratios are measured against */
+  powerLawParameters: PowerLawParameters;
+}
+
+const HistoricalBacktestPanel: React.FC<HistoricalBacktestPanelProps> = ({
+  scenario,
+  serializedScenario,
+  historicalPrices,
+  powerLawParameters
+}) => {
+  const [enabled, setEnabled] = useState<boolean>(false);
+  const [result, setResult] = useState<HistoricalBacktestResult | null>(null);
+  const [computing, setComputing] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequest = useRef<number>(0);
+
+  // Every start date is a full 50-year plan, so the replay runs in a worker; answers to older requests are ignored
+  useEffect(() => {
+    if (!enabled) return;
+    if (typeof Worker === 'undefined') {
+      setResult(runHistoricalBacktest(scenario, historicalPrices, DEFAULT_BACKTEST_OPTIONS, powerLawParameters));
+      return;
+    }
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/HistoricalBacktest.worker.ts', import.meta.url));
+      workerRef.current.onmessage = (event: MessageEvent<HistoricalBacktestResponse>) => {
+        if (event.data.id === latestRequest.current) {
+          setResult(event.data.result);
+          setComputing(false);
+        }
+      };
+    }
+    latestRequest.current += 1;
+    setComputing(true);
+    const request: HistoricalBacktestRequest = {
+      id: latestRequest.current,
+      scenario: serializedScenario,
+      prices: historicalPrices,
+      options: DEFAULT_BACKTEST_OPTIONS,
+      powerLawParameters
+    };
+    workerRef.current.postMessage(request);
+  }, [enabled, scenario, serializedScenario, historicalPrices, powerLawParameters]);
+
+  useEffect(() => {
+    return () => {
+      if (workerRef.current) workerRef.current.terminate();
+    };
+  }, []);
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>📜 Historical Backtest</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span>Replay historical start dates</span>
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <p className="analysis-note">
+            Every {DEFAULT_BACKTEST_OPTIONS.stepDays}th day since the start of the price history is one scenario: your retirement
+            follows the actual sequence of price-to-fair-value ratios from that day onward, using the selected withdrawal strategy.
+            History shorter than 50 years wraps around to the beginning of the data.
+          </p>
+
+          {computing && <p className="analysis-note">Computing…</p>}
+
+          {!result ? (
+            !computing && <p className="analysis-note">Enter Bitcoin and withdrawal amounts to run the backtest.</p>
+          ) : (
+            <>
+              <div className="analysis-stats">
+                <div className="stat-item">
+                  <span className="stat-label">Historical Start Dates:</span>
+                  <span className="stat-value">{result.outcomes.length.toLocaleString()}</span>
+                </div>
+                <div className="stat-item">
+                  <span className="stat-label">Survived 50 Years:</span>
+                  <span className={`stat-value ${result.successRate >= 0.9 ? '' : 'analysis-warning'}`}>
+                    {(result.successRate * 100).toFixed(1)}%
+                  </span>
+                </div>
+              </div>
+
+              <ResponsiveContainer width="100%" height={280}>
+                <BarChart data={result.yearsLastedDistribution} margin={{ top: 20, right: 30, left: 20, bottom: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} angle={-20} textAnchor="end" interval={0} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Bar dataKey="count" fill="#9c27b0" name="Start dates" />
+                </BarChart>
+              </ResponsiveContainer>
+
+              <h5 className="analysis-subheading">Worst Historical Start Dates</h5>
+              <table className="analysis-table">
+                <thead>
+                  <tr>
+                    <th>Start Date</th>
+                    <th>Ratio at Start</th>
+                    <th>Years Lasted</th>
+                    <th>Depletion Year</th>
+                    <th>Final Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.worstOutcomes.map(outcome => (
+                    <tr key={outcome.startDate}>
+                      <td>{outcome.startDate}</td>
+                      <td>{outcome.startRatio.toFixed(2)}x</td>
+                      <td>{outcome.yearsLasted}</td>
+                      <td>{outcome.depletionYear ?? (outcome.succeeded ? '—' : 'Out of Bitcoin')}</td>
+                      <td>{formatPrice(outcome.terminalValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoricalBacktestPanel;
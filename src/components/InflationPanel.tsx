@@ -0,0 +1,108 @@
+import React from 'react';
+import { InflationInputs, InflationMode, InflationRatePeriod, calculateInflationFactor } from '../utils/Inflation';
+
+interface InflationPanelProps {
+  inflation: InflationInputs;
+  onChange: (inflation: InflationInputs) => void;
+  /** First year of the plan, where the price level is 1 */
+  startYear: number;
+}
+
+const toPercent = (rate: number): number => Math.round(rate * 1000) / 10;
+
+const InflationPanel: React.FC<InflationPanelProps> = ({ inflation, onChange, startYear }) => {
+  const updatePeriod = (index: number, period: InflationRatePeriod) => {
+    onChange({ ...inflation, schedule: inflation.schedule.map((existing, i) => (i === index ? period : existing)) });
+  };
+
+  const addPeriod = () => {
+    const last = inflation.schedule[inflation.schedule.length - 1];
+    onChange({
+      ...inflation,
+      schedule: [...inflation.schedule, { fromYear: last ? last.fromYear + 5 : startYear, rate: last ? last.rate : inflation.annualRate }]
+    });
+  };
+
+  const factorIn20Years = calculateInflationFactor(inflation, startYear, startYear + 20);
+
+  return (
+    <div className="monthly-savings-section">
+      <div className="savings-header">
+        <h4>Inflation</h4>
+        <select
+          value={inflation.mode}
+          onChange={(e) => onChange({ ...inflation, mode: e.target.value as InflationMode })}
+        >
+          <option value="constant">Constant rate</option>
+          <option value="schedule">Per-year schedule</option>
+        </select>
+      </div>
+
+      <div className="savings-inputs">
+        <div className="input-group">
+          <label htmlFor="inflationRate">{inflation.mode === 'constant' ? 'Annual Inflation:' : 'Inflation Before Schedule:'}</label>
+          <input
+            id="inflationRate"
+            type="number"
+            value={toPercent(inflation.annualRate)}
+            onChange={(e) => onChange({ ...inflation, annualRate: (parseFloat(e.target.value) || 0) / 100 })}
+            step="0.5"
+            title="Withdrawals are entered in today's dollars and grow by this rate every year in nominal dollars"
+          />
+          <span className="input-unit">%/year</span>
+        </div>
+      </div>
+
+      {inflation.mode === 'schedule' && (
+        <>
+          <table className="analysis-table">
+            <thead>
+              <tr>
+                <th>From Year</th>
+                <th>Inflation (%/year)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {inflation.schedule.map((period, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="number"
+                      value={period.fromYear}
+                      onChange={(e) => updatePeriod(index, { ...period, fromYear: parseInt(e.target.value, 10) || startYear })}
+                      step="1"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      value={toPercent(period.rate)}
+                      onChange={(e) => updatePeriod(index, { ...period, rate: (parseFloat(e.target.value) || 0) / 100 })}
+                      step="0.5"
+                    />
+                  </td>
+                  <td>
+                    <button onClick={() => onChange({ ...inflation, schedule: inflation.schedule.filter((_, i) => i !== index) })}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={addPeriod}>Add Period</button>
+        </>
+      )}
+
+      <p className="analysis-note">
+        {inflation.mode === 'schedule' && 'Each rate applies from its year until the next one. '}
+        $1 of spending today costs
+        ${factorIn20Years.toFixed(2)} in {startYear + 20}; the 50-year table shows withdrawals and balances both in
+        nominal dollars and in today's dollars.
+      </p>
+    </div>
+  );
+};
+
+export default InflationPanel;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { PowerLawParameters } from '../models/PowerLaw';
+import { BitcoinPriceData, RetirementScenario } from '../types/Bitcoin';
+import {
+  DEFAULT_MONTE_CARLO_OPTIONS,
+  MonteCarloOptions,
+  MonteCarloRequest,
+  MonteCarloResponse,
+  MonteCarloResult,
+  fitFairValueRatioProcess,
+  runMonteCarloSimulation
+} from '../utils/MonteCarloSimulation';
+import { SerializedScenario } from '../utils/SuccessHeatmap';
+import { formatPrice } from '../utils/Formatters';
+
+interface MonteCarloPanelProps {
+  scenario: RetirementScenario;
+  /** The same scenario as plain data for the worker */
+  serializedScenario: SerializedScenario;
+  historicalPrices: BitcoinPriceData[];
+  /** Power Law the historical ratios are measured against */
+  powerLawParameters: PowerLawParameters;
+}
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ scenario, serializedScenario, historicalPrices, powerLawParameters }) => {
+  const [enabled, setEnabled] = useState<boolean>(false);
+  const [options, setOptions] = useState<MonteCarloOptions>(DEFAULT_MONTE_CARLO_OPTIONS);
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [computing, setComputing] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequest = useRef<number>(0);
+
+  // Fitting only depends on the price history and Power Law, so it is shared across runs
+  const ratioProcess = useMemo(() => {
+    return enabled ? fitFairValueRatioProcess(historicalPrices, powerLawParameters) : null;
+  }, [enabled, historicalPrices, powerLawParameters]);
+
+  // Up to 10,000 paths run in a worker; every input change posts a new request and answers to older ones are ignored
+  useEffect(() => {
+    if (!enabled) return;
+    if (typeof Worker === 'undefined') {
+      setResult(runMonteCarloSimulation(scenario, ratioProcess, options));
+      return;
+    }
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/MonteCarlo.worker.ts', import.meta.url));
+      workerRef.current.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+        if (event.data.id === latestRequest.current) {
+          setResult(event.data.result);
+          setComputing(false);
+        }
+      };
+    }
+    latestRequest.current += 1;
+    setComputing(true);
+    const request: MonteCarloRequest = { id: latestRequest.current, scenario: serializedScenario, process: ratioProcess, options };
+    workerRef.current.postMessage(request);
+  }, [enabled, scenario, serializedScenario, ratioProcess, options]);
+
+  useEffect(() => {
+    return () => {
+      if (workerRef.current) workerRef.current.terminate();
+    };
+  }, []);
+
+  const handleOptionChange = (field: keyof MonteCarloOptions, value: number) => {
+    setOptions(prev => ({
+      ...prev,
+      [field]: value
+    }));
+  };
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>🎲 Monte Carlo Simulation</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span>Run randomized price paths</span>
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <p className="analysis-note">
+            Each path draws yearly fair value ratios from a process fitted to historical one-year changes
+            of the price-to-fair-value ratio, kept inside the Power Law band (floor to upper bound).
+            The same seed always reproduces the same results.
+          </p>
+
+          <div className="analysis-inputs">
+            <div className="input-group">
+              <label htmlFor="monteCarloPaths">Number of Paths:</label>
+              <input
+                id="monteCarloPaths"
+                type="number"
+                value={options.paths}
+                onChange={(e) => handleOptionChange('paths', Math.min(10000, Math.max(1, parseInt(e.target.value, 10) || 0)))}
+                step="100"
+                min="1"
+                max="10000"
+              />
+              <span className="input-unit">paths</span>
+            </div>
+            <div className="input-group">
+              <label htmlFor="monteCarloSeed">Random Seed:</label>
+              <input
+                id="monteCarloSeed"
+                type="number"
+                value={options.seed}
+                onChange={(e) => handleOptionChange('seed', parseInt(e.target.value, 10) || 0)}
+                step="1"
+              />
+              <span className="input-unit">same seed = same results</span>
+            </div>
+          </div>
+
+          {computing && <p className="analysis-note">Computing…</p>}
+
+          {!result ? (
+            !computing && <p className="analysis-note">Enter Bitcoin and withdrawal amounts to run the simulation.</p>
+          ) : (
+            <>
+              <div className="analysis-stats">
+                <div className="stat-item">
+                  <span className="stat-label">Probability of Success:</span>
+                  <span className={`stat-value ${result.successProbability >= 0.9 ? '' : 'analysis-warning'}`}>
+                    {(result.successProbability * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <div className="stat-item">
+                  <span className="stat-label">Median Terminal Bitcoin:</span>
+                  <span className="stat-value">{result.medianTerminalBitcoin.toFixed(3)} BTC</span>
+                </div>
+                <div className="stat-item">
+                  <span className="stat-label">Median Terminal Cash:</span>
+                  <span className="stat-value">{formatPrice(result.medianTerminalCash)}</span>
+                </div>
+              </div>
+
+              <ResponsiveContainer width="100%" height={350}>
+                <LineChart data={result.percentileBands} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={formatPrice} tick={{ fontSize: 12 }} width={70} />
+                  <Tooltip formatter={(value: number) => formatPrice(value)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="p95" stroke="#2ed573" dot={false} strokeDasharray="4 4" name="95th percentile" />
+                  <Line type="monotone" dataKey="p75" stroke="#7bed9f" dot={false} name="75th percentile" />
+                  <Line type="monotone" dataKey="p50" stroke="#f7931a" strokeWidth={3} dot={false} name="Median" />
+                  <Line type="monotone" dataKey="p25" stroke="#ffa502" dot={false} name="25th percentile" />
+                  <Line type="monotone" dataKey="p5" stroke="#ff4757" dot={false} strokeDasharray="4 4" name="5th percentile" />
+                </LineChart>
+              </ResponsiveContainer>
+              <p className="analysis-note">
+                Portfolio value (Bitcoin + cash) by year across {result.paths.toLocaleString()} paths starting {result.retirementStartYear}, seed {result.seed}.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,155 @@
+import React from 'react';
+import { BitcoinPowerLaw, DEFAULT_BAND_MULTIPLIERS } from '../models/PowerLaw';
+import { BandSelection, ResidualBand } from '../models/PowerLawBands';
+import { DecayingUpperBoundFit, UpperBoundModel } from '../models/DecayingUpperBound';
+import { formatMultiplier } from '../utils/Formatters';
+
+interface PowerLawBandsPanelProps {
+  bands: ResidualBand[] | null;
+  selection: BandSelection;
+  onSelectionChange: (selection: BandSelection) => void;
+  showOnChart: boolean;
+  onShowOnChartChange: (show: boolean) => void;
+  upperBoundModel: UpperBoundModel;
+  upperBoundFit: DecayingUpperBoundFit | null;
+  onUpperBoundModelChange: (model: UpperBoundModel) => void;
+}
+
+const PowerLawBandsPanel: React.FC<PowerLawBandsPanelProps> = ({
+  bands,
+  selection,
+  onSelectionChange,
+  showOnChart,
+  onShowOnChartChange,
+  upperBoundModel,
+  upperBoundFit,
+  onUpperBoundModelChange
+}) => {
+  const lowerBands = bands?.filter(band => band.percentile < 50) ?? [];
+  const upperBands = bands?.filter(band => band.percentile > 50) ?? [];
+
+  const parsePercentile = (value: string): number | null => (value === '' ? null : Number(value));
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>📏 Support & Resistance Bands</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={showOnChart}
+            disabled={!bands}
+            onChange={(e) => onShowOnChartChange(e.target.checked)}
+          />
+          <span>Draw percentile bands on the chart</span>
+        </label>
+      </div>
+
+      <p className="analysis-note">
+        Percentiles of the historical price-to-fair-value distribution (measured in log space). Pick a percentile
+        to replace the hand-picked floor or upper bound: the Bear Market Test, the cycle prices of the 50-year
+        plan and the simulations then use that confidence level. The decaying upper bound instead follows a curve
+        through past cycle tops, which have fallen from 13x fair value in 2013 toward fair value; it also moves the
+        bubble zones of the Smart Withdrawal Strategy.
+      </p>
+
+      {!bands ? (
+        <p className="analysis-note">Price history is needed to derive percentile bands.</p>
+      ) : (
+        <>
+          <div className="analysis-inputs">
+            <div className="input-group">
+              <label htmlFor="floorBand">Floor:</label>
+              <select
+                id="floorBand"
+                value={selection.floorPercentile ?? ''}
+                onChange={(e) => onSelectionChange({ ...selection, floorPercentile: parsePercentile(e.target.value) })}
+              >
+                <option value="">Fixed {formatMultiplier(DEFAULT_BAND_MULTIPLIERS.floor)}</option>
+                {lowerBands.map(band => (
+                  <option key={band.percentile} value={band.percentile}>
+                    P{band.percentile} ({formatMultiplier(band.multiplier)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor="upperBand">Upper Bound:</label>
+              <select
+                id="upperBand"
+                value={selection.upperPercentile ?? ''}
+                disabled={upperBoundModel === 'decaying'}
+                onChange={(e) => onSelectionChange({ ...selection, upperPercentile: parsePercentile(e.target.value) })}
+              >
+                <option value="">Fixed {formatMultiplier(DEFAULT_BAND_MULTIPLIERS.upper)}</option>
+                {upperBands.map(band => (
+                  <option key={band.percentile} value={band.percentile}>
+                    P{band.percentile} ({formatMultiplier(band.multiplier)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor="upperBoundModel">Upper Bound Model:</label>
+              <select
+                id="upperBoundModel"
+                value={upperBoundModel}
+                onChange={(e) => onUpperBoundModelChange(e.target.value as UpperBoundModel)}
+              >
+                <option value="flat">Flat multiple of fair value</option>
+                <option value="decaying" disabled={!upperBoundFit}>Decaying through cycle peaks</option>
+              </select>
+            </div>
+          </div>
+
+          <table className="analysis-table">
+            <thead>
+              <tr>
+                <th>Percentile</th>
+                {bands.map(band => (
+                  <th key={band.percentile}>P{band.percentile}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Multiple of Fair Value</td>
+                {bands.map(band => (
+                  <td key={band.percentile}>{formatMultiplier(band.multiplier)}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+
+          {upperBoundFit && (
+            <>
+              <h5 className="analysis-subheading">
+                Decaying Upper Bound: 1 + {upperBoundFit.decay.coefficient.toExponential(3)} × days^{upperBoundFit.decay.exponent.toFixed(3)}
+              </h5>
+              <table className="analysis-table">
+                <thead>
+                  <tr>
+                    <th>Cycle Peak</th>
+                    <th>Actual Multiple</th>
+                    <th>Fitted Multiple</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {upperBoundFit.peaks.map(peak => (
+                    <tr key={peak.date}>
+                      <td>{peak.date}</td>
+                      <td>{formatMultiplier(peak.ratio)}</td>
+                      <td>{formatMultiplier(BitcoinPowerLaw.calculateDecayingMultiplier(upperBoundFit.decay, new Date(peak.timestamp)))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PowerLawBandsPanel;
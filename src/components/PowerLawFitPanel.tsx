@@ -0,0 +1,88 @@
+import React from 'react';
+import { PowerLawParameters, PUBLISHED_POWER_LAW_PARAMETERS } from '../models/PowerLaw';
+import { PowerLawFitMethod, PowerLawFitResult, PowerLawSource } from '../models/PowerLawRegression';
+
+interface PowerLawFitPanelProps {
+  source: PowerLawSource;
+  fits: Record<PowerLawFitMethod, PowerLawFitResult | null>;
+  onSourceChange: (source: PowerLawSource) => void;
+}
+
+const SOURCE_LABELS: Record<PowerLawSource, string> = {
+  published: 'Published constants',
+  'least-squares': 'Live fit (log-log least squares)',
+  quantile: 'Live fit (median quantile regression)'
+};
+
+const formatParameters = (parameters: PowerLawParameters): string => {
+  return `A = ${parameters.a.toExponential(3)}, B = ${parameters.b.toFixed(3)}`;
+};
+
+const PowerLawFitPanel: React.FC<PowerLawFitPanelProps> = ({ source, fits, onSourceChange }) => {
+  const sources: PowerLawSource[] = ['published', 'least-squares', 'quantile'];
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>📐 Power Law Parameters</h4>
+        <select
+          value={source}
+          onChange={(e) => onSourceChange(e.target.value as PowerLawSource)}
+        >
+          {sources.map(option => (
+            <option key={option} value={option} disabled={option !== 'published' && !fits[option]}>
+              {SOURCE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="analysis-note">
+        Price = A × (days since genesis)^B. The published constants are a 2024-era fit; a live fit re-estimates A and B
+        from the loaded price history so the fair value, floor and upper bound reflect the latest data.
+        The chart, the 50-year plan and every simulation use the selected parameters.
+      </p>
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Source</th>
+            <th>Parameters</th>
+            <th>R² (log-log)</th>
+            <th>Residual Std Dev</th>
+            <th>Fit Window</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>{SOURCE_LABELS.published}</td>
+            <td>{formatParameters(PUBLISHED_POWER_LAW_PARAMETERS)}</td>
+            <td>—</td>
+            <td>—</td>
+            <td>—</td>
+          </tr>
+          {(Object.keys(fits) as PowerLawFitMethod[]).map(method => {
+            const fit = fits[method];
+            return (
+              <tr key={method}>
+                <td>{SOURCE_LABELS[method]}</td>
+                {fit ? (
+                  <>
+                    <td>{formatParameters(fit.parameters)}</td>
+                    <td>{fit.rSquared.toFixed(4)}</td>
+                    <td>{fit.residualStdDev.toFixed(3)} (ln)</td>
+                    <td>{fit.fitWindow.startDate} – {fit.fitWindow.endDate} ({fit.fitWindow.points.toLocaleString()} prices)</td>
+                  </>
+                ) : (
+                  <td colSpan={4}>Not enough price history to fit</td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PowerLawFitPanel;
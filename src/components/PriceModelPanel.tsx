@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  PriceModelRegistry,
+  PriceModelSettings,
+  PricePathPoint,
+  validatePricePath
+} from '../models/PriceModel';
+import { formatPrice } from '../utils/Formatters';
+
+interface PriceModelPanelProps {
+  modelId: string;
+  settings: PriceModelSettings;
+  onModelChange: (modelId: string) => void;
+  onSettingsChange: (settings: PriceModelSettings) => void;
+}
+
+type NumericSetting = 'annualGrowth' | 'initialGrowth' | 'growthHalfLifeYears' | 'floorMultiplier' | 'ceilingMultiplier';
+
+const NUMERIC_SETTINGS: Record<NumericSetting, { label: string; unit: string; step: number; percent: boolean }> = {
+  annualGrowth: { label: 'Annual Growth', unit: '%', step: 1, percent: true },
+  initialGrowth: { label: 'Initial Growth', unit: '%', step: 1, percent: true },
+  growthHalfLifeYears: { label: 'Growth Half-Life', unit: 'years', step: 1, percent: false },
+  floorMultiplier: { label: 'Floor', unit: 'x fair value', step: 0.01, percent: false },
+  ceilingMultiplier: { label: 'Ceiling', unit: 'x fair value', step: 0.1, percent: false }
+};
+
+const PriceModelPanel: React.FC<PriceModelPanelProps> = ({ modelId, settings, onModelChange, onSettingsChange }) => {
+  // Path rows are edited locally and only handed to the model once they are valid
+  const [pathDraft, setPathDraft] = useState<PricePathPoint[]>(settings.path);
+  const definition = PriceModelRegistry.get(modelId);
+  const pathErrors = validatePricePath(pathDraft);
+
+  const handleNumberChange = (key: NumericSetting, value: number) => {
+    onSettingsChange({ ...settings, [key]: NUMERIC_SETTINGS[key].percent ? value / 100 : value });
+  };
+
+  const handlePathChange = (path: PricePathPoint[]) => {
+    setPathDraft(path);
+    if (validatePricePath(path).length === 0) {
+      onSettingsChange({ ...settings, path });
+    }
+  };
+
+  const updatePoint = (index: number, point: PricePathPoint) => {
+    handlePathChange(pathDraft.map((existing, i) => (i === index ? point : existing)));
+  };
+
+  const addPoint = () => {
+    const last = pathDraft[pathDraft.length - 1];
+    handlePathChange([
+      ...pathDraft,
+      last ? { year: last.year + 10, price: last.price * 2 } : { year: settings.anchorYear, price: settings.anchorPrice }
+    ]);
+  };
+
+  const numericSettings = (definition?.settings ?? []).filter(
+    (key): key is NumericSetting => key in NUMERIC_SETTINGS
+  );
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>🧭 Price Model</h4>
+        <select value={modelId} onChange={(e) => onModelChange(e.target.value)}>
+          {PriceModelRegistry.list().map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="analysis-note">
+        {definition?.description} The chart lines, the Bear Market Test, the 50-year plan, the simulations and the
+        Smart Withdrawal Strategy all read fair value, floor and ceiling from the selected model. Alternative models
+        start from the {settings.anchorYear} Power Law fair value of {formatPrice(settings.anchorPrice)}.
+      </p>
+
+      {numericSettings.length > 0 && (
+        <div className="analysis-inputs">
+          {numericSettings.map(key => {
+            const setting = NUMERIC_SETTINGS[key];
+            const value = settings[key];
+            return (
+              <div className="input-group" key={key}>
+                <label htmlFor={`priceModel-${key}`}>{setting.label}:</label>
+                <input
+                  id={`priceModel-${key}`}
+                  type="number"
+                  value={setting.percent ? Math.round(value * 1000) / 10 : value}
+                  onChange={(e) => handleNumberChange(key, parseFloat(e.target.value) || 0)}
+                  step={setting.step}
+                  min="0"
+                />
+                <span className="input-unit">{setting.unit}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {definition && definition.settings.indexOf('path') !== -1 && (
+        <>
+          <h5 className="analysis-subheading">Fair Value Path</h5>
+          <table className="analysis-table">
+            <thead>
+              <tr>
+                <th>Year</th>
+                <th>Fair Value ($)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {pathDraft.map((point, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="number"
+                      value={point.year}
+                      onChange={(e) => updatePoint(index, { ...point, year: parseInt(e.target.value) || 0 })}
+                      step="1"
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      value={Math.round(point.price)}
+                      onChange={(e) => updatePoint(index, { ...point, price: parseFloat(e.target.value) || 0 })}
+                      step="1000"
+                      min="0"
+                    />
+                  </td>
+                  <td>
+                    <button onClick={() => handlePathChange(pathDraft.filter((_, i) => i !== index))}>Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={addPoint}>Add Year</button>
+          {pathErrors.map(error => (
+            <p className="analysis-note" key={error}>⚠️ {error}</p>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PriceModelPanel;
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RetirementScenario } from '../types/Bitcoin';
+import { formatPrice } from '../utils/Formatters';
+import { getRetirementStartYear } from '../utils/RetirementEngine';
+import {
+  RetirementSolverRequest,
+  RetirementSolverResponse,
+  RetirementSolverResults,
+  solveRetirement
+} from '../utils/RetirementSolver';
+import { SerializedScenario } from '../utils/SuccessHeatmap';
+
+interface RetirementSolverPanelProps {
+  scenario: RetirementScenario;
+  /** The same scenario as plain data for the worker */
+  serializedScenario: SerializedScenario;
+  onApplyWithdrawal: (annualWithdrawal: number) => void;
+}
+
+const RetirementSolverPanel: React.FC<RetirementSolverPanelProps> = ({ scenario, serializedScenario, onApplyWithdrawal }) => {
+  const [results, setResults] = useState<RetirementSolverResults | null>(null);
+  const [computing, setComputing] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequest = useRef<number>(0);
+
+  // Each search evaluates dozens of 50-year plans, so they run in a worker; answers to older requests are ignored
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setResults(solveRetirement(scenario));
+      return;
+    }
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/RetirementSolver.worker.ts', import.meta.url));
+      workerRef.current.onmessage = (event: MessageEvent<RetirementSolverResponse>) => {
+        if (event.data.id === latestRequest.current) {
+          setResults(event.data.results);
+          setComputing(false);
+        }
+      };
+    }
+    latestRequest.current += 1;
+    setComputing(true);
+    const request: RetirementSolverRequest = { id: latestRequest.current, scenario: serializedScenario };
+    workerRef.current.postMessage(request);
+  }, [scenario, serializedScenario]);
+
+  useEffect(() => {
+    return () => {
+      if (workerRef.current) workerRef.current.terminate();
+    };
+  }, []);
+
+  if (!results) {
+    return computing ? (
+      <div className="analysis-section">
+        <div className="analysis-header">
+          <h4>🎯 Retirement Solver</h4>
+        </div>
+        <p className="analysis-note">Computing…</p>
+      </div>
+    ) : null;
+  }
+
+  const { maxWithdrawal, requiredBitcoin } = results;
+  if (!maxWithdrawal) {
+    return null;
+  }
+  const requiredSavings = [
+    { label: 'Same every month', result: results.requiredSavings },
+    { label: 'Doubled in bear-market years', result: results.requiredSavingsDoubled }
+  ];
+
+  const retirementStartYear = getRetirementStartYear(scenario);
+  const { annualWithdrawal: currentWithdrawal, bitcoinAmount: currentBitcoin } = scenario.retirementInputs;
+  const { monthlySavingsInputs } = scenario;
+  const savingsYears = monthlySavingsInputs.enabled ? monthlySavingsInputs.yearsToRetirement : scenario.retirementInputs.yearsUntilRetirement;
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>🎯 Retirement Solver</h4>
+      </div>
+
+      <p className="analysis-note">
+        Searches the Bear Market Test and the 50-year simulation for the boundary between passing and failing:
+        the most you can withdraw with what you have, and what you need for the withdrawal you entered.
+        Everything else in the plan stays as entered.
+      </p>
+      {computing && <p className="analysis-note">Computing…</p>}
+
+      <h5 className="analysis-subheading">Maximum Sustainable Withdrawal</h5>
+      {maxWithdrawal.annualWithdrawal > 0 ? (
+        <>
+          <table className="analysis-table">
+            <tbody>
+              <tr>
+                <td>Annual withdrawal (today's dollars)</td>
+                <td>${maxWithdrawal.annualWithdrawal.toLocaleString()}</td>
+              </tr>
+              <tr>
+                <td>First-year withdrawal in {retirementStartYear} (nominal)</td>
+                <td>{formatPrice(maxWithdrawal.nominalWithdrawalAtRetirement)}</td>
+              </tr>
+              <tr>
+                <td>Portfolio at retirement</td>
+                <td>{formatPrice(maxWithdrawal.portfolioValueAtRetirement)}</td>
+              </tr>
+              <tr>
+                <td>Implied safe withdrawal rate</td>
+                <td>{(maxWithdrawal.safeWithdrawalRate * 100).toFixed(2)}%</td>
+              </tr>
+            </tbody>
+          </table>
+          {currentWithdrawal !== maxWithdrawal.annualWithdrawal && (
+            <button onClick={() => onApplyWithdrawal(maxWithdrawal.annualWithdrawal)}>
+              Use ${maxWithdrawal.annualWithdrawal.toLocaleString()} as Annual Withdrawal Needed
+            </button>
+          )}
+        </>
+      ) : (
+        <p className="analysis-note">⚠️ No withdrawal passes both checks with the current holdings and savings plan.</p>
+      )}
+
+      <h5 className="analysis-subheading">Required Bitcoin Today</h5>
+      {requiredBitcoin ? (
+        <table className="analysis-table">
+          <tbody>
+            <tr>
+              <td>Bitcoin needed today for ${currentWithdrawal.toLocaleString()}/year from {retirementStartYear}</td>
+              <td>{requiredBitcoin.bitcoinAmount.toFixed(3)} BTC</td>
+            </tr>
+            <tr>
+              <td>Still to acquire (you hold {currentBitcoin.toFixed(3)} BTC)</td>
+              <td>{requiredBitcoin.shortfall > 0 ? `${requiredBitcoin.shortfall.toFixed(3)} BTC` : 'Nothing ✓'}</td>
+            </tr>
+          </tbody>
+        </table>
+      ) : (
+        <p className="analysis-note">⚠️ No amount of Bitcoin passes both checks with the current settings.</p>
+      )}
+
+      <h5 className="analysis-subheading">Required Monthly Savings</h5>
+      {savingsYears > 0 ? (
+        <table className="analysis-table">
+          <thead>
+            <tr>
+              <th>Savings for {savingsYears} years</th>
+              <th>Monthly Savings</th>
+              <th>Total Invested</th>
+            </tr>
+          </thead>
+          <tbody>
+            {requiredSavings.map(({ label, result }) => (
+              <tr key={label}>
+                <td>{label}</td>
+                <td>{result ? `$${result.monthlySavingsAmount.toLocaleString()}` : 'Not reachable'}</td>
+                <td>{result ? formatPrice(result.totalCashInvested) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="analysis-note">Set Years Until Retirement or a savings window to see the monthly savings needed.</p>
+      )}
+    </div>
+  );
+};
+
+export default RetirementSolverPanel;
@@ -0,0 +1,72 @@
+/**
+ * Tests for the sensitivity tornado chart:
+ * - The down and up bars both start at zero change, on either side of it
+ */
+
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { POWER_LAW_MODEL, createDefaultPriceModelSettings } from '../models/PriceModel';
+import { serializeScenario } from '../utils/SuccessHeatmap';
+import { makeTestScenario } from '../utils/testScenario';
+import { DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS, SMART_WITHDRAWAL_STRATEGY } from '../utils/WithdrawalStrategy';
+import SensitivityPanel from './SensitivityPanel';
+
+// jsdom has no Worker, so the panel runs the analysis itself; the module is mocked because Jest cannot parse import.meta
+jest.mock('../workers/createSensitivityWorker', () => ({ createSensitivityWorker: jest.fn() }));
+
+// jsdom has no layout, so the chart gets a fixed size instead of measuring its container
+jest.mock('recharts', () => {
+  const actual = jest.requireActual('recharts');
+  const { cloneElement } = jest.requireActual('react');
+  return {
+    ...actual,
+    ResponsiveContainer: ({ children }: { children: React.ReactElement }) => cloneElement(children, { width: 800, height: 400 })
+  };
+});
+
+// Lets act() flush the render before the assertions
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/** Starting x and signed width of a bar's rectangle path ("M x,y h width v …") */
+const parseBar = (path: Element): { startX: number; width: number } => {
+  const [, startX, width] = path.getAttribute('d')!.match(/^M\s*([-\d.]+),[-\d.]+\s*h\s*([-\d.]+)/)!;
+  return { startX: parseFloat(startX), width: parseFloat(width) };
+};
+
+describe('SensitivityPanel', () => {
+  it('starts a negative down bar and a positive up bar at zero', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const root = createRoot(container);
+    const scenario = makeTestScenario();
+    const serializedScenario = serializeScenario(
+      scenario,
+      POWER_LAW_MODEL.id,
+      createDefaultPriceModelSettings(2026),
+      SMART_WITHDRAWAL_STRATEGY.id,
+      DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS
+    );
+    jest.useFakeTimers();
+    // eslint-disable-next-line testing-library/no-unnecessary-act -- root.render is React's own, which needs act
+    act(() => {
+      root.render(<SensitivityPanel scenario={scenario} serializedScenario={serializedScenario} />);
+    });
+    // Let the bars finish growing in
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+
+    const zeroX = parseFloat(container.querySelector('.recharts-reference-line line')!.getAttribute('x1')!);
+    const [downBars, upBars] = Array.from(container.querySelectorAll('.recharts-bar-rectangles'))
+      .map(bars => Array.from(bars.querySelectorAll('path.recharts-rectangle')).map(parseBar));
+
+    // Less Bitcoin ends with less and more Bitcoin with more, so there are bars on both sides of zero
+    expect(downBars.some(bar => bar.width < 0)).toBe(true);
+    expect(upBars.some(bar => bar.width > 0)).toBe(true);
+    downBars.concat(upBars).forEach(bar => expect(bar.startX).toBeCloseTo(zeroX, 6));
+
+    act(() => root.unmount());
+    container.remove();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { RetirementScenario } from '../types/Bitcoin';
+import { formatPrice } from '../utils/Formatters';
+import {
+  SensitivityAnalysis,
+  SensitivityRequest,
+  SensitivityResponse,
+  runSensitivityAnalysis
+} from '../utils/SensitivityAnalysis';
+import { SerializedScenario } from '../utils/SuccessHeatmap';
+import { createSensitivityWorker } from '../workers/createSensitivityWorker';
+
+interface SensitivityPanelProps {
+  scenario: RetirementScenario;
+  /** The same scenario as plain data for the worker */
+  serializedScenario: SerializedScenario;
+}
+
+/** Signed compact dollars for the tornado axis (-$1.20M, +$45K) */
+const formatChange = (value: number): string => {
+  return `${value < 0 ? '-' : '+'}${formatPrice(Math.abs(value))}`;
+};
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ scenario, serializedScenario }) => {
+  const [analysis, setAnalysis] = useState<SensitivityAnalysis | null>(null);
+  const [computing, setComputing] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequest = useRef<number>(0);
+
+  // Every driver runs two 50-year plans, so the analysis runs in a worker; answers to older requests are ignored
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setAnalysis(runSensitivityAnalysis(scenario));
+      return;
+    }
+    if (!workerRef.current) {
+      workerRef.current = createSensitivityWorker();
+      workerRef.current.onmessage = (event: MessageEvent<SensitivityResponse>) => {
+        if (event.data.id === latestRequest.current) {
+          setAnalysis(event.data.analysis);
+          setComputing(false);
+        }
+      };
+    }
+    latestRequest.current += 1;
+    setComputing(true);
+    const request: SensitivityRequest = { id: latestRequest.current, scenario: serializedScenario };
+    workerRef.current.postMessage(request);
+  }, [scenario, serializedScenario]);
+
+  useEffect(() => {
+    return () => {
+      if (workerRef.current) workerRef.current.terminate();
+    };
+  }, []);
+
+  if (!analysis || analysis.results.length === 0) {
+    return computing ? (
+      <div className="analysis-section">
+        <div className="analysis-header">
+          <h4>🌪️ Sensitivity Analysis</h4>
+        </div>
+        <p className="analysis-note">Computing…</p>
+      </div>
+    ) : null;
+  }
+
+  const { base, results } = analysis;
+  // Bars are the change from the base plan's terminal value; the sign stack offset starts both bars at zero,
+  // negatives extending left and positives right
+  const tornadoData = results.map(result => ({
+    name: `${result.name} (${result.step})`,
+    low: result.low.terminalValue - base.terminalValue,
+    high: result.high.terminalValue - base.terminalValue
+  }));
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>🌪️ Sensitivity Analysis</h4>
+      </div>
+
+      <p className="analysis-note">
+        Each input is moved down and up by the step shown while everything else stays as entered. Bars show the
+        change in the plan's terminal value ({formatPrice(base.terminalValue)} in the base plan); the longest bars are
+        the assumptions the plan is most fragile to.
+      </p>
+      {computing && <p className="analysis-note">Computing…</p>}
+
+      <ResponsiveContainer width="100%" height={Math.max(240, tornadoData.length * 40 + 80)}>
+        <BarChart data={tornadoData} layout="vertical" stackOffset="sign" margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" tickFormatter={formatChange} tick={{ fontSize: 12 }} />
+          <YAxis type="category" dataKey="name" width={200} tick={{ fontSize: 12 }} />
+          <Tooltip formatter={(value: number) => formatChange(value)} />
+          <Legend />
+          <ReferenceLine x={0} stroke="#f0f0f0" />
+          <Bar dataKey="low" stackId="change" fill="#ff6b6b" name="Input moved down" />
+          <Bar dataKey="high" stackId="change" fill="#2ed573" name="Input moved up" />
+        </BarChart>
+      </ResponsiveContainer>
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Input</th>
+            <th>Step</th>
+            <th>Terminal Value (Down / Up)</th>
+            <th>Depleted (Down / Up)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map(result => (
+            <tr key={result.driverId}>
+              <td>{result.name}</td>
+              <td>{result.step}</td>
+              <td>{formatPrice(result.low.terminalValue)} / {formatPrice(result.high.terminalValue)}</td>
+              <td>{result.low.depletionYear ?? 'Never'} / {result.high.depletionYear ?? 'Never'}</td>
+            </tr>
+          ))}
+          <tr>
+            <td>Base plan</td>
+            <td>—</td>
+            <td>{formatPrice(base.terminalValue)}</td>
+            <td>{base.depletionYear ?? 'Never'}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_SMART_WITHDRAWAL_CONFIG,
+  SmartWithdrawalConfig,
+  WithdrawalAction,
+  WithdrawalZone,
+  ZONE_RULES,
+  ZONE_RULE_LABELS,
+  ZoneRule,
+  parseSmartWithdrawalConfig,
+  validateSmartWithdrawalConfig
+} from '../utils/SmartWithdrawalStrategy';
+
+interface SmartWithdrawalPanelProps {
+  config: SmartWithdrawalConfig;
+  onChange: (config: SmartWithdrawalConfig) => void;
+}
+
+const ZONE_ACTIONS: { value: WithdrawalAction; label: string }[] = [
+  { value: 'HODL_BITCOIN', label: 'HODL' },
+  { value: 'BALANCED', label: 'Balanced' },
+  { value: 'SPEND_BITCOIN', label: 'Spend Bitcoin' }
+];
+
+const toPercent = (share: number): number => Math.round(share * 1000) / 10;
+
+const SmartWithdrawalPanel: React.FC<SmartWithdrawalPanelProps> = ({ config, onChange }) => {
+  // Zones are edited locally and only handed to the plan once they are valid
+  const [draft, setDraft] = useState<SmartWithdrawalConfig>(config);
+  const [json, setJson] = useState<string>('');
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+  const errors = validateSmartWithdrawalConfig(draft);
+
+  const handleChange = (next: SmartWithdrawalConfig) => {
+    setDraft(next);
+    if (validateSmartWithdrawalConfig(next).length === 0) {
+      onChange(next);
+    }
+  };
+
+  const updateZone = (index: number, zone: WithdrawalZone) => {
+    handleChange({ ...draft, zones: draft.zones.map((existing, i) => (i === index ? zone : existing)) });
+  };
+
+  // Moving a zone's upper limit moves the next zone's start with it so the zones stay contiguous
+  const updateUpperLimit = (index: number, maxRatio: number) => {
+    handleChange({
+      ...draft,
+      zones: draft.zones.map((zone, i) => {
+        if (i === index) return { ...zone, maxRatio };
+        if (i === index + 1) return { ...zone, minRatio: maxRatio };
+        return zone;
+      })
+    });
+  };
+
+  const splitLastZone = () => {
+    const last = draft.zones[draft.zones.length - 1];
+    const boundary = last.minRatio > 0 ? last.minRatio * 2 : 1;
+    handleChange({
+      ...draft,
+      zones: [
+        ...draft.zones.slice(0, -1),
+        { ...last, maxRatio: boundary },
+        { ...last, name: `${last.name} (above ${boundary}x)`, minRatio: boundary, maxRatio: null }
+      ]
+    });
+  };
+
+  // A removed zone's range goes to the zone above it, or to the zone below when it was the last one
+  const removeZone = (index: number) => {
+    const removed = draft.zones[index];
+    const zones = draft.zones.filter((_, i) => i !== index);
+    if (index < zones.length) {
+      zones[index] = { ...zones[index], minRatio: removed.minRatio };
+    } else if (zones.length > 0) {
+      zones[zones.length - 1] = { ...zones[zones.length - 1], maxRatio: null };
+    }
+    handleChange({ ...draft, zones });
+  };
+
+  const applyJson = () => {
+    const result = parseSmartWithdrawalConfig(json);
+    setJsonErrors(result.errors);
+    if (result.config) {
+      handleChange(result.config);
+    }
+  };
+
+  return (
+    <div className="monthly-savings-section">
+      <div className="savings-header">
+        <h4>Smart Withdrawal Zones</h4>
+        <button onClick={() => handleChange(DEFAULT_SMART_WITHDRAWAL_CONFIG)}>Reset to Defaults</button>
+      </div>
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Zone</th>
+            <th>From (x fair value)</th>
+            <th>To (x fair value)</th>
+            <th>Rule</th>
+            <th>Cash Share (%)</th>
+            <th>Action</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {draft.zones.map((zone, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  value={zone.name}
+                  onChange={(e) => updateZone(index, { ...zone, name: e.target.value })}
+                />
+              </td>
+              <td>{zone.minRatio}</td>
+              <td>
+                {zone.maxRatio === null ? 'No limit' : (
+                  <input
+                    type="number"
+                    value={zone.maxRatio}
+                    onChange={(e) => updateUpperLimit(index, parseFloat(e.target.value) || 0)}
+                    step="0.1"
+                    min="0"
+                  />
+                )}
+              </td>
+              <td>
+                <select
+                  value={zone.rule}
+                  onChange={(e) => updateZone(index, { ...zone, rule: e.target.value as ZoneRule })}
+                >
+                  {ZONE_RULES.map(rule => (
+                    <option key={rule} value={rule}>{ZONE_RULE_LABELS[rule]}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  type="number"
+                  value={toPercent(zone.cashShare)}
+                  onChange={(e) => updateZone(index, { ...zone, cashShare: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                  step="5"
+                  min="0"
+                  max="100"
+                  disabled={zone.rule === 'bitcoin-only'}
+                />
+              </td>
+              <td>
+                <select
+                  value={zone.recommendedAction}
+                  onChange={(e) => updateZone(index, { ...zone, recommendedAction: e.target.value as WithdrawalAction })}
+                >
+                  {ZONE_ACTIONS.map(action => (
+                    <option key={action.value} value={action.value}>{action.label}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <button onClick={() => removeZone(index)} disabled={draft.zones.length === 1}>Remove</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={splitLastZone}>Split Last Zone</button>
+
+      <div className="savings-inputs">
+        <div className="input-group">
+          <label htmlFor="bubbleScaledFrom">Scale Zones From:</label>
+          <input
+            id="bubbleScaledFrom"
+            type="number"
+            value={draft.bubbleScaledFrom}
+            onChange={(e) => handleChange({ ...draft, bubbleScaledFrom: parseFloat(e.target.value) || 0 })}
+            step="0.1"
+            min="0"
+            title="Zone boundaries at or above this ratio move with the expected cycle top when the upper bound decays"
+          />
+          <span className="input-unit">x fair value</span>
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="cashIncrement">Round Cash To:</label>
+          <input
+            id="cashIncrement"
+            type="number"
+            value={draft.rounding.cashIncrement}
+            onChange={(e) => handleChange({ ...draft, rounding: { ...draft.rounding, cashIncrement: Math.max(0, parseFloat(e.target.value) || 0) } })}
+            step="100"
+            min="0"
+            placeholder="0 = no rounding"
+          />
+          <span className="input-unit">USD</span>
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="bitcoinDecimals">Round Bitcoin Sold To:</label>
+          <input
+            id="bitcoinDecimals"
+            type="number"
+            value={draft.rounding.bitcoinDecimals ?? ''}
+            onChange={(e) => handleChange({
+              ...draft,
+              rounding: { ...draft.rounding, bitcoinDecimals: e.target.value === '' ? null : parseInt(e.target.value, 10) || 0 }
+            })}
+            step="1"
+            min="0"
+            max="8"
+            placeholder="blank = no rounding"
+          />
+          <span className="input-unit">decimals</span>
+        </div>
+      </div>
+
+      {errors.map(error => (
+        <p className="analysis-note" key={error}>⚠️ {error}</p>
+      ))}
+
+      <h5 className="analysis-subheading">Save or Load as JSON</h5>
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        rows={6}
+        placeholder="Paste a saved configuration here"
+      />
+      <div>
+        <button onClick={() => setJson(JSON.stringify(draft, null, 2))}>Show Current</button>
+        <button onClick={applyJson}>Load</button>
+      </div>
+      {jsonErrors.map(error => (
+        <p className="analysis-note" key={error}>⚠️ {error}</p>
+      ))}
+
+      <p className="analysis-note">
+        Each year the price-to-fair-value ratio picks a zone, and the zone's rule splits the withdrawal between
+        cash and Bitcoin. Cash first spends the cash share from cash while it lasts; balanced spends cash in
+        proportion to holdings up to the cash share; Bitcoin first sells Bitcoin and falls back to cash for the
+        cash share when Bitcoin runs short. Rounded Bitcoin sales are rounded up so the withdrawal is still covered.
+      </p>
+    </div>
+  );
+};
+
+export default SmartWithdrawalPanel;
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { RetirementScenario } from '../types/Bitcoin';
+import { COMPARISON_STRATEGIES, compareWithdrawalStrategies } from '../utils/StrategyComparison';
+import { formatPrice } from '../utils/Formatters';
+
+interface StrategyComparisonPanelProps {
+  scenario: RetirementScenario;
+}
+
+const STRATEGY_COLORS = ['#f7931a', '#1e90ff', '#2ed573', '#9c27b0'];
+
+const StrategyComparisonPanel: React.FC<StrategyComparisonPanelProps> = ({ scenario }) => {
+  // The selected strategy joins the comparison when it is not one of the baselines
+  const comparison = useMemo(() => {
+    const selected = scenario.withdrawalStrategy;
+    const strategies = COMPARISON_STRATEGIES.some(strategy => strategy.id === selected.id)
+      ? COMPARISON_STRATEGIES
+      : [...COMPARISON_STRATEGIES, selected];
+    return compareWithdrawalStrategies(scenario, strategies);
+  }, [scenario]);
+
+  if (!comparison) {
+    return null;
+  }
+
+  const highestValue = Math.max(...comparison.outcomes.map(outcome => outcome.terminalValue));
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>⚖️ Withdrawal Strategy Comparison</h4>
+      </div>
+
+      <p className="analysis-note">
+        The same 50-year plan with Smart Withdrawal and simple baselines: spending cash first whatever the price,
+        or drawing cash and Bitcoin in proportion to holdings. Selling Bitcoin below fair value is what the Smart
+        Withdrawal zones try to avoid.
+      </p>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={comparison.portfolioValues} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+          <YAxis tickFormatter={formatPrice} tick={{ fontSize: 12 }} width={70} />
+          <Tooltip formatter={(value: number) => formatPrice(value)} />
+          <Legend />
+          {comparison.outcomes.map((outcome, index) => (
+            <Line
+              key={outcome.strategyId}
+              type="monotone"
+              dataKey={outcome.strategyId}
+              stroke={STRATEGY_COLORS[index % STRATEGY_COLORS.length]}
+              strokeWidth={2}
+              dot={false}
+              name={outcome.name}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Strategy</th>
+            <th>Terminal BTC</th>
+            <th>Terminal Value</th>
+            <th>Depleted</th>
+            <th>Max Drawdown</th>
+            <th>Total BTC Sold</th>
+            <th>First BTC Sale Below Fair Value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.outcomes.map(outcome => (
+            <tr key={outcome.strategyId}>
+              <td>
+                {outcome.name}
+                {outcome.terminalValue === highestValue ? ' ✓' : ''}
+              </td>
+              <td>{outcome.terminalBitcoin.toFixed(3)} BTC</td>
+              <td>{formatPrice(outcome.terminalValue)}</td>
+              <td>{outcome.depletionYear ?? 'Never'}</td>
+              <td>{(outcome.maxDrawdown * 100).toFixed(0)}%</td>
+              <td>{outcome.totalBitcoinSold.toFixed(3)} BTC</td>
+              <td>{outcome.firstSaleBelowFairValue ?? 'Never'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StrategyComparisonPanel;
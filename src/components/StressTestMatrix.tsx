@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RetirementScenario } from '../types/Bitcoin';
+import { RetirementPlanResult } from '../utils/RetirementEngine';
+import { StressTestOutcome, StressTestRequest, StressTestResponse, runStressTests } from '../utils/StressTest';
+import { SerializedScenario } from '../utils/SuccessHeatmap';
+
+interface StressTestMatrixProps {
+  scenario: RetirementScenario;
+  /** The same scenario as plain data for the worker */
+  serializedScenario: SerializedScenario;
+  plan: RetirementPlanResult;
+}
+
+interface MatrixRow {
+  name: string;
+  description: string;
+  passes: boolean;
+  yearsLasted: string;
+  remainingBitcoin: number;
+}
+
+const StressTestMatrix: React.FC<StressTestMatrixProps> = ({ scenario, serializedScenario, plan }) => {
+  const [outcomes, setOutcomes] = useState<StressTestOutcome[]>([]);
+  const [computing, setComputing] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequest = useRef<number>(0);
+
+  // Each stress path reruns the 50 years of withdrawals, so they run in a worker; answers to older requests are ignored
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setOutcomes(runStressTests(scenario) ?? []);
+      return;
+    }
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/StressTest.worker.ts', import.meta.url));
+      workerRef.current.onmessage = (event: MessageEvent<StressTestResponse>) => {
+        if (event.data.id === latestRequest.current) {
+          setOutcomes(event.data.outcomes ?? []);
+          setComputing(false);
+        }
+      };
+    }
+    latestRequest.current += 1;
+    setComputing(true);
+    const request: StressTestRequest = { id: latestRequest.current, scenario: serializedScenario };
+    workerRef.current.postMessage(request);
+  }, [scenario, serializedScenario]);
+
+  useEffect(() => {
+    return () => {
+      if (workerRef.current) workerRef.current.terminate();
+    };
+  }, []);
+
+  // The plan's own checks lead, so the stress paths read against them
+  const rows: MatrixRow[] = [
+    {
+      name: 'Bear Market Test',
+      description: `${scenario.bearMarketTest.floorYears} years at the floor, a recovery year, then ${scenario.bearMarketTest.runwayYears} years of runway at fair value`,
+      passes: plan.bearMarketTest.passes,
+      yearsLasted: '—',
+      remainingBitcoin: plan.bearMarketTest.remainingBitcoin
+    },
+    {
+      name: '50-Year Simulation',
+      description: 'The plan path shown in the table and on the chart',
+      passes: plan.simulationSucceeds,
+      yearsLasted: String(plan.yearsLasted),
+      remainingBitcoin: Math.max(0, plan.withdrawalYears[plan.withdrawalYears.length - 1].remainingBitcoin)
+    },
+    ...outcomes.map(outcome => ({
+      name: outcome.name,
+      description: outcome.description,
+      passes: outcome.passes,
+      yearsLasted: String(outcome.yearsLasted),
+      remainingBitcoin: outcome.remainingBitcoin
+    }))
+  ];
+  const survived = outcomes.filter(outcome => outcome.passes).length;
+
+  return (
+    <div className="historical-retirement-info">
+      <h5>🧨 Stress Tests</h5>
+      <p className="historical-note">
+        Survives {survived} of {outcomes.length} stress paths that deliberately break the price model. Each runs the
+        same 50 years of withdrawals from the retirement start and passes on the same terms as the 50-year simulation.
+      </p>
+      {computing && <p className="historical-note">Computing…</p>}
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Scenario</th>
+            <th>Result</th>
+            <th>Years Lasted</th>
+            <th>BTC Left</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.name} title={row.description}>
+              <td>{row.name}</td>
+              <td style={{ color: row.passes ? '#2ed573' : '#ff4757' }}>{row.passes ? '✅ Pass' : '❌ Fail'}</td>
+              <td>{row.yearsLasted}</td>
+              <td>{row.remainingBitcoin.toFixed(3)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StressTestMatrix;
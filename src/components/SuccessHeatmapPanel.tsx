@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RetirementScenario } from '../types/Bitcoin';
+import { formatPrice } from '../utils/Formatters';
+import { RETIREMENT_YEARS } from '../utils/RetirementEngine';
+import {
+  HeatmapCell,
+  HeatmapMetric,
+  HeatmapOptions,
+  HeatmapRowAxis,
+  MAX_HEATMAP_STEPS,
+  SerializedScenario,
+  SuccessHeatmap,
+  SuccessHeatmapRequest,
+  SuccessHeatmapResponse,
+  computeSuccessHeatmap,
+  createDefaultHeatmapOptions
+} from '../utils/SuccessHeatmap';
+
+interface SuccessHeatmapPanelProps {
+  scenario: RetirementScenario;
+  /** The same scenario as plain data for the worker */
+  serializedScenario: SerializedScenario;
+}
+
+const cellColor = (cell: HeatmapCell, metric: HeatmapMetric): string => {
+  if (metric === 'pass-fail') {
+    return cell.passes ? 'rgba(46, 213, 115, 0.6)' : 'rgba(255, 71, 87, 0.6)';
+  }
+  // Red when depleted early through to green for all 50 years
+  const hue = Math.round(120 * Math.min(1, cell.yearsLasted / RETIREMENT_YEARS));
+  return `hsla(${hue}, 70%, 45%, 0.8)`;
+};
+
+const nearestIndex = (values: number[], target: number): number => {
+  let best = 0;
+  values.forEach((value, index) => {
+    if (Math.abs(value - target) < Math.abs(values[best] - target)) best = index;
+  });
+  return best;
+};
+
+const SuccessHeatmapPanel: React.FC<SuccessHeatmapPanelProps> = ({ scenario, serializedScenario }) => {
+  const [enabled, setEnabled] = useState<boolean>(false);
+  const [metric, setMetric] = useState<HeatmapMetric>('pass-fail');
+  const [options, setOptions] = useState<HeatmapOptions>(() => createDefaultHeatmapOptions(scenario));
+  const [heatmap, setHeatmap] = useState<SuccessHeatmap | null>(null);
+  const [computing, setComputing] = useState<boolean>(false);
+  const workerRef = useRef<Worker | null>(null);
+  const latestRequest = useRef<number>(0);
+
+  // Every input change posts a new request; answers to older requests are ignored
+  useEffect(() => {
+    if (!enabled) return;
+    if (typeof Worker === 'undefined') {
+      setHeatmap(computeSuccessHeatmap(scenario, options));
+      return;
+    }
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/SuccessHeatmap.worker.ts', import.meta.url));
+      workerRef.current.onmessage = (event: MessageEvent<SuccessHeatmapResponse>) => {
+        if (event.data.id === latestRequest.current) {
+          setHeatmap(event.data.heatmap);
+          setComputing(false);
+        }
+      };
+    }
+    latestRequest.current += 1;
+    setComputing(true);
+    const request: SuccessHeatmapRequest = { id: latestRequest.current, scenario: serializedScenario, options };
+    workerRef.current.postMessage(request);
+  }, [enabled, scenario, serializedScenario, options]);
+
+  useEffect(() => {
+    return () => {
+      if (workerRef.current) workerRef.current.terminate();
+    };
+  }, []);
+
+  const handleOptionChange = (field: keyof HeatmapOptions, value: number) => {
+    setOptions(prev => ({
+      ...prev,
+      [field]: Math.max(0, value)
+    }));
+  };
+
+  const numberInput = (field: keyof HeatmapOptions, label: string, unit: string, step: string) => (
+    <div className="input-group">
+      <label htmlFor={`heatmap-${field}`}>{label}:</label>
+      <input
+        id={`heatmap-${field}`}
+        type="number"
+        value={options[field] as number}
+        onChange={(e) => handleOptionChange(field, parseFloat(e.target.value) || 0)}
+        step={step}
+        min="0"
+      />
+      <span className="input-unit">{unit}</span>
+    </div>
+  );
+
+  const { retirementInputs, startDate } = scenario;
+  const currentRow = heatmap && (heatmap.rowAxis === 'bitcoin'
+    ? nearestIndex(heatmap.rows, retirementInputs.bitcoinAmount)
+    : nearestIndex(heatmap.rows, retirementInputs.yearsUntilRetirement));
+  const currentColumn = heatmap && nearestIndex(heatmap.withdrawals, retirementInputs.annualWithdrawal);
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>🗺️ Success Heatmap</h4>
+        <label className="savings-toggle">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span>Map pass/fail across withdrawals and holdings</span>
+        </label>
+      </div>
+
+      {enabled && (
+        <>
+          <p className="analysis-note">
+            Every cell runs the full plan with that annual withdrawal and BTC holdings (or retirement year), everything
+            else as entered. A cell passes when both the Bear Market Test and the 50-year simulation pass. The cell
+            nearest your current inputs is outlined. The grid is computed in the background.
+          </p>
+
+          <div className="analysis-inputs">
+            <div className="input-group">
+              <label htmlFor="heatmapRowAxis">Rows:</label>
+              <select
+                id="heatmapRowAxis"
+                value={options.rowAxis}
+                onChange={(e) => setOptions(prev => ({ ...prev, rowAxis: e.target.value as HeatmapRowAxis }))}
+              >
+                <option value="bitcoin">BTC Holdings</option>
+                <option value="retirement-year">Retirement Year</option>
+              </select>
+            </div>
+            <div className="input-group">
+              <label htmlFor="heatmapMetric">Show:</label>
+              <select id="heatmapMetric" value={metric} onChange={(e) => setMetric(e.target.value as HeatmapMetric)}>
+                <option value="pass-fail">Pass / Fail</option>
+                <option value="years-lasted">Years Lasted</option>
+              </select>
+            </div>
+            {numberInput('steps', 'Grid Size', `points per axis (max ${MAX_HEATMAP_STEPS})`, '1')}
+            {numberInput('withdrawalMin', 'Withdrawal From', 'USD', '1000')}
+            {numberInput('withdrawalMax', 'Withdrawal To', 'USD', '1000')}
+            {options.rowAxis === 'bitcoin' ? (
+              <>
+                {numberInput('bitcoinMin', 'BTC From', 'BTC', '0.1')}
+                {numberInput('bitcoinMax', 'BTC To', 'BTC', '0.1')}
+              </>
+            ) : (
+              <>
+                {numberInput('yearsMin', 'Retire In From', 'years', '1')}
+                {numberInput('yearsMax', 'Retire In To', 'years', '1')}
+              </>
+            )}
+            <button onClick={() => setOptions(createDefaultHeatmapOptions(scenario))}>Center on Current Inputs</button>
+          </div>
+
+          {computing && <p className="analysis-note">Computing…</p>}
+
+          {heatmap && (
+            <table className="analysis-table">
+              <thead>
+                <tr>
+                  <th>{heatmap.rowAxis === 'bitcoin' ? 'BTC \\ Withdrawal' : 'Retire \\ Withdrawal'}</th>
+                  {heatmap.withdrawals.map(withdrawal => (
+                    <th key={withdrawal}>{formatPrice(withdrawal)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.rows.map((row, rowIndex) => (
+                  <tr key={row}>
+                    <td>{heatmap.rowAxis === 'bitcoin' ? `${row.toFixed(3)} BTC` : startDate.getFullYear() + row}</td>
+                    {heatmap.cells[rowIndex].map((cell, columnIndex) => (
+                      <td
+                        key={heatmap.withdrawals[columnIndex]}
+                        title={`${cell.passes ? 'Passes' : 'Fails'}, lasts ${cell.yearsLasted} years`}
+                        style={{
+                          background: cellColor(cell, metric),
+                          textAlign: 'center',
+                          outline: rowIndex === currentRow && columnIndex === currentColumn ? '2px solid #f7931a' : 'none'
+                        }}
+                      >
+                        {metric === 'pass-fail' ? (cell.passes ? '✓' : '✗') : cell.yearsLasted}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SuccessHeatmapPanel;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { RetirementScenario } from '../types/Bitcoin';
+import { LOT_SELECTION_LABELS, LotSelectionMethod } from '../utils/CapitalGainsTax';
+import { compareLotSelectionMethods } from '../utils/TaxLotComparison';
+import { formatPrice } from '../utils/Formatters';
+
+interface TaxLotComparisonPanelProps {
+  scenario: RetirementScenario;
+}
+
+const METHOD_COLORS: Record<LotSelectionMethod, string> = {
+  fifo: '#f7931a',
+  lifo: '#2ed573',
+  hifo: '#1e90ff',
+  'min-tax': '#9c27b0'
+};
+
+const TaxLotComparisonPanel: React.FC<TaxLotComparisonPanelProps> = ({ scenario }) => {
+  const comparison = useMemo(() => compareLotSelectionMethods(scenario), [scenario]);
+
+  if (!comparison) {
+    return null;
+  }
+
+  const lowestTax = Math.min(...comparison.outcomes.map(outcome => outcome.totalTaxPaid));
+
+  return (
+    <div className="analysis-section">
+      <div className="analysis-header">
+        <h4>🧾 Tax-Lot Selection Comparison</h4>
+      </div>
+
+      <p className="analysis-note">
+        The same 50-year plan with each way of choosing which lots to sell. Selling high-cost lots first defers
+        tax but leaves more untaxed gain in the Bitcoin you still hold; the selected method
+        ({LOT_SELECTION_LABELS[scenario.capitalGainsTax.lotSelection]}) drives the projection table.
+      </p>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={comparison.cumulativeTax} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+          <YAxis tickFormatter={formatPrice} tick={{ fontSize: 12 }} width={70} />
+          <Tooltip formatter={(value: number) => formatPrice(value)} />
+          <Legend />
+          {comparison.outcomes.map(outcome => (
+            <Line
+              key={outcome.method}
+              type="monotone"
+              dataKey={outcome.method}
+              stroke={METHOD_COLORS[outcome.method]}
+              strokeWidth={2}
+              dot={false}
+              name={`${LOT_SELECTION_LABELS[outcome.method]} cumulative tax`}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <table className="analysis-table">
+        <thead>
+          <tr>
+            <th>Method</th>
+            <th>Cumulative Tax</th>
+            <th>Unrealized Gain at End</th>
+            <th>Remaining BTC</th>
+            <th>Years Lasted</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.outcomes.map(outcome => (
+            <tr key={outcome.method}>
+              <td>
+                {LOT_SELECTION_LABELS[outcome.method]}
+                {outcome.totalTaxPaid === lowestTax ? ' ✓' : ''}
+              </td>
+              <td>{formatPrice(outcome.totalTaxPaid)}</td>
+              <td>{formatPrice(outcome.unrealizedGain)}</td>
+              <td>{outcome.remainingBitcoin.toFixed(3)} BTC</td>
+              <td>{outcome.depletionYear === null ? `${outcome.yearsLasted}+` : `${outcome.yearsLasted} (depleted ${outcome.depletionYear})`}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TaxLotComparisonPanel;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { WithdrawalFrequency } from '../types/Bitcoin';
+import { WithdrawalStrategyRegistry, WithdrawalStrategySettings } from '../utils/WithdrawalStrategy';
+
+interface WithdrawalStrategyPanelProps {
+  strategyId: string;
+  settings: WithdrawalStrategySettings;
+  onStrategyChange: (strategyId: string) => void;
+  onSettingsChange: (settings: WithdrawalStrategySettings) => void;
+  frequency: WithdrawalFrequency;
+  onFrequencyChange: (frequency: WithdrawalFrequency) => void;
+}
+
+const SETTINGS: Record<keyof WithdrawalStrategySettings, { label: string; unit: string; step: number; percent: boolean }> = {
+  constantDollarRate: { label: 'First-Year Rate', unit: '% of portfolio', step: 0.5, percent: true },
+  fixedPercentage: { label: 'Yearly Rate', unit: '% of portfolio', step: 0.5, percent: true },
+  vpwExpectedReturn: { label: 'Expected Return', unit: '%/year', step: 0.5, percent: true },
+  vpwHorizonYears: { label: 'Horizon', unit: 'years', step: 1, percent: false },
+  guytonKlingerInitialRate: { label: 'Initial Rate', unit: '% of portfolio', step: 0.5, percent: true },
+  guytonKlingerGuardrail: { label: 'Guardrail Width', unit: '% of initial rate', step: 5, percent: true },
+  guytonKlingerAdjustment: { label: 'Cut / Raise', unit: '%', step: 5, percent: true },
+  bucketYears: { label: 'Cash Bucket', unit: 'years of spending', step: 1, percent: false }
+};
+
+const WithdrawalStrategyPanel: React.FC<WithdrawalStrategyPanelProps> = ({
+  strategyId,
+  settings,
+  onStrategyChange,
+  onSettingsChange,
+  frequency,
+  onFrequencyChange
+}) => {
+  const definition = WithdrawalStrategyRegistry.get(strategyId);
+
+  const handleNumberChange = (key: keyof WithdrawalStrategySettings, value: number) => {
+    onSettingsChange({ ...settings, [key]: SETTINGS[key].percent ? value / 100 : value });
+  };
+
+  return (
+    <div className="monthly-savings-section">
+      <div className="savings-header">
+        <h4>Withdrawal Strategy</h4>
+        <select value={strategyId} onChange={(e) => onStrategyChange(e.target.value)}>
+          {WithdrawalStrategyRegistry.list().map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="savings-inputs">
+        <div className="input-group">
+          <label htmlFor="withdrawalFrequency">Withdraw:</label>
+          <select
+            id="withdrawalFrequency"
+            value={frequency}
+            onChange={(e) => onFrequencyChange(e.target.value as WithdrawalFrequency)}
+          >
+            <option value="yearly">Yearly (January 1)</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        {definition && definition.settings.map(key => {
+          const setting = SETTINGS[key];
+          const value = settings[key];
+          return (
+            <div className="input-group" key={key}>
+              <label htmlFor={`withdrawalStrategy-${key}`}>{setting.label}:</label>
+              <input
+                id={`withdrawalStrategy-${key}`}
+                type="number"
+                value={setting.percent ? Math.round(value * 1000) / 10 : value}
+                onChange={(e) => handleNumberChange(key, Math.max(0, parseFloat(e.target.value) || 0))}
+                step={setting.step}
+                min="0"
+              />
+              <span className="input-unit">{setting.unit}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="analysis-note">
+        {definition?.description} The 50-year table, the chart plan line and the simulations all follow the
+        selected strategy; the Bear Market Test still checks the Annual Withdrawal Needed.
+        {frequency === 'monthly' && ' Monthly withdrawals spend a twelfth of the year\'s amount each month at prices moving from one January\'s plan price to the next, and the table totals each year.'}
+      </p>
+    </div>
+  );
+};
+
+export default WithdrawalStrategyPanel;
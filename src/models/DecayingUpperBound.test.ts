@@ -0,0 +1,58 @@
+/**
+ * Tests for the decaying upper bound:
+ * - Cycle peaks are the highest ratio within two years, away from the ends of the history
+ * - The fitted curve passes through peaks generated from a known decay
+ */
+
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { BitcoinPowerLaw, UpperBoundDecay } from './PowerLaw';
+import { DecayingUpperBound } from './DecayingUpperBound';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+const DECAY: UpperBoundDecay = { coefficient: 2e6, exponent: -1.7 };
+
+// Weekly prices at fair value, with a cycle top on the decay curve every four years (2013, 2017, 2021)
+function makeHistory(): BitcoinPriceData[] {
+  const start = Date.UTC(2012, 0, 1);
+  const peakWeeks = [100, 308, 516];
+  const prices: BitcoinPriceData[] = [];
+  for (let week = 0; week < 52 * 12; week++) {
+    const date = new Date(start + week * 7 * MILLISECONDS_PER_DAY);
+    const ratio = peakWeeks.indexOf(week) >= 0 ? BitcoinPowerLaw.calculateDecayingMultiplier(DECAY, date) : 1;
+    prices.push({
+      date: date.toISOString().split('T')[0],
+      price: BitcoinPowerLaw.calculateFairValue(date) * ratio,
+      timestamp: date.getTime()
+    });
+  }
+  return prices;
+}
+
+describe('DecayingUpperBound', () => {
+  describe('findCyclePeaks', () => {
+    it('finds one peak per cycle', () => {
+      const peaks = DecayingUpperBound.findCyclePeaks(makeHistory());
+      expect(peaks).toHaveLength(3);
+      expect(peaks[0].ratio).toBeGreaterThan(peaks[1].ratio);
+      expect(peaks[1].ratio).toBeGreaterThan(peaks[2].ratio);
+    });
+
+    it('skips peaks within a year of the end of the history', () => {
+      const history = makeHistory().slice(0, 516 + 20);
+      expect(DecayingUpperBound.findCyclePeaks(history)).toHaveLength(2);
+    });
+  });
+
+  describe('fit', () => {
+    it('recovers the decay the peaks were generated from', () => {
+      const fit = DecayingUpperBound.fit(makeHistory())!;
+      expect(fit.peaks).toHaveLength(3);
+      expect(fit.decay.exponent).toBeCloseTo(DECAY.exponent, 6);
+      expect(fit.decay.coefficient / DECAY.coefficient).toBeCloseTo(1, 4);
+    });
+
+    it('returns null with fewer than two peaks', () => {
+      expect(DecayingUpperBound.fit(makeHistory().slice(0, 300))).toBeNull();
+    });
+  });
+});
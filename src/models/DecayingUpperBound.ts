@@ -0,0 +1,97 @@
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { BitcoinPowerLaw, PUBLISHED_POWER_LAW_PARAMETERS, PowerLawParameters, UpperBoundDecay } from './PowerLaw';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Flat multiple of fair value (2x or a selected percentile) or decaying through past cycle tops
+ */
+export type UpperBoundModel = 'flat' | 'decaying';
+
+export interface CyclePeak {
+  date: string;
+  timestamp: number;
+  /** Price-to-fair-value ratio at the peak */
+  ratio: number;
+}
+
+export interface DecayingUpperBoundFit {
+  decay: UpperBoundDecay;
+  peaks: CyclePeak[];
+}
+
+export class DecayingUpperBound {
+  /**
+   * Cycle tops: days whose fair value ratio (under the given Power Law parameters) is the highest within ±radiusDays.
+   * Days closer than a year to either end of the history are skipped, since their window is cut off.
+   */
+  static findCyclePeaks(
+    prices: BitcoinPriceData[],
+    parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS,
+    radiusDays: number = 730
+  ): CyclePeak[] {
+    const points = prices
+      .filter(point => point.price > 0)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(point => ({
+        date: point.date,
+        timestamp: point.timestamp,
+        ratio: point.price / BitcoinPowerLaw.calculateFairValue(new Date(point.timestamp), parameters)
+      }));
+    if (points.length === 0) return [];
+
+    const radius = radiusDays * MILLISECONDS_PER_DAY;
+    const edge = 365 * MILLISECONDS_PER_DAY;
+    const first = points[0].timestamp;
+    const last = points[points.length - 1].timestamp;
+
+    // Sliding-window maximum over ±radius (indices of a decreasing run of ratios)
+    const window: number[] = [];
+    let next = 0;
+    return points.filter(peak => {
+      while (next < points.length && points[next].timestamp - peak.timestamp <= radius) {
+        while (window.length > 0 && points[window[window.length - 1]].ratio <= points[next].ratio) {
+          window.pop();
+        }
+        window.push(next++);
+      }
+      while (peak.timestamp - points[window[0]].timestamp > radius) {
+        window.shift();
+      }
+      return peak.ratio >= points[window[0]].ratio &&
+        peak.timestamp - first >= edge &&
+        last - peak.timestamp >= edge;
+    });
+  }
+
+  /**
+   * Fit multiplier = 1 + c × days^k through the cycle peaks (least squares on ln(ratio - 1) vs ln(days)),
+   * so the bound decays toward fair value as cycles mature (13x in 2013, 6.5x in 2017, 3.5x in 2021).
+   * Returns null with fewer than two peaks above fair value or if the peaks are not declining.
+   */
+  static fit(
+    prices: BitcoinPriceData[],
+    parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS
+  ): DecayingUpperBoundFit | null {
+    const peaks = this.findCyclePeaks(prices, parameters).filter(peak => peak.ratio > 1);
+    if (peaks.length < 2) return null;
+
+    const points = peaks.map(peak => ({
+      x: Math.log(BitcoinPowerLaw.getDaysSinceGenesis(new Date(peak.timestamp))),
+      y: Math.log(peak.ratio - 1)
+    }));
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+    const variance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.x - meanX), 0);
+    if (variance <= 0) return null;
+
+    const exponent = covariance / variance;
+    if (exponent >= 0) return null;
+
+    return {
+      decay: { coefficient: Math.exp(meanY - exponent * meanX), exponent },
+      peaks
+    };
+  }
+}
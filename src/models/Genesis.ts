@@ -0,0 +1,11 @@
+// Bitcoin Genesis Block timestamp: January 3, 2009, 18:15:05 UTC
+export const BITCOIN_GENESIS_TIMESTAMP = 1231006505000; // milliseconds
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Days since the Bitcoin genesis block, the time axis of every price model (at least 1 day)
+ */
+export const getDaysSinceGenesis = (date: Date): number => {
+  return Math.max(1, (date.getTime() - BITCOIN_GENESIS_TIMESTAMP) / MILLISECONDS_PER_DAY);
+};
@@ -1,4 +1,4 @@
-import { BitcoinPowerLaw } from './PowerLaw';
+import { BitcoinPowerLaw, DEFAULT_BAND_MULTIPLIERS, PUBLISHED_POWER_LAW_PARAMETERS } from './PowerLaw';
 
 describe('BitcoinPowerLaw', () => {
   // Test dates
@@ -144,6 +144,57 @@ describe('BitcoinPowerLaw', () => {
     });
   });
   
+  describe('custom parameters', () => {
+    it('should use the published constants by default', () => {
+      expect(BitcoinPowerLaw.calculateFairValue(testDate2024))
+        .toBe(BitcoinPowerLaw.calculateFairValue(testDate2024, PUBLISHED_POWER_LAW_PARAMETERS));
+    });
+
+    it('should price fair value, floor and upper bound from the given parameters', () => {
+      const published = BitcoinPowerLaw.calculateFairValue(testDate2024);
+      const doubled = { a: PUBLISHED_POWER_LAW_PARAMETERS.a * 2, b: PUBLISHED_POWER_LAW_PARAMETERS.b };
+
+      expect(BitcoinPowerLaw.calculateFairValue(testDate2024, doubled)).toBeCloseTo(published * 2, 6);
+      expect(BitcoinPowerLaw.calculateFloorPrice(testDate2024, doubled)).toBeCloseTo(published * 2 * 0.42, 6);
+      expect(BitcoinPowerLaw.calculateUpperBound(testDate2024, doubled)).toBeCloseTo(published * 4, 6);
+    });
+  });
+
+  describe('custom band multipliers', () => {
+    it('should default to a 0.42x floor and 2x upper bound', () => {
+      expect(BitcoinPowerLaw.calculateFloorPrice(testDate2024))
+        .toBe(BitcoinPowerLaw.calculateFloorPrice(testDate2024, PUBLISHED_POWER_LAW_PARAMETERS, DEFAULT_BAND_MULTIPLIERS));
+      expect(BitcoinPowerLaw.getUpperBoundMultiplier(testDate2024)).toBe(DEFAULT_BAND_MULTIPLIERS.upper);
+    });
+
+    it('should scale floor and upper bound from the given multipliers', () => {
+      const fairValue = BitcoinPowerLaw.calculateFairValue(testDate2024);
+      const bands = { floor: 0.5, upper: 3.0 };
+
+      expect(BitcoinPowerLaw.calculateFloorPrice(testDate2024, PUBLISHED_POWER_LAW_PARAMETERS, bands)).toBeCloseTo(fairValue * 0.5, 6);
+      expect(BitcoinPowerLaw.calculateUpperBound(testDate2024, PUBLISHED_POWER_LAW_PARAMETERS, bands)).toBeCloseTo(fairValue * 3.0, 6);
+    });
+  });
+
+  describe('decaying upper bound', () => {
+    const decay = { coefficient: 1e6, exponent: -1.5 };
+    const multiplier = (date: Date) => BitcoinPowerLaw.getUpperBoundMultiplier(date, DEFAULT_BAND_MULTIPLIERS, decay);
+
+    it('should use the flat multiplier without a decay', () => {
+      expect(BitcoinPowerLaw.getUpperBoundMultiplier(testDate2024, DEFAULT_BAND_MULTIPLIERS, null)).toBe(2.0);
+    });
+
+    it('should decay the upper bound toward fair value over time', () => {
+      const early = multiplier(new Date('2013-12-01'));
+      const late = multiplier(new Date('2040-01-01'));
+
+      expect(early).toBeGreaterThan(late);
+      expect(late).toBeGreaterThan(1);
+      expect(BitcoinPowerLaw.calculateUpperBound(testDate2024, PUBLISHED_POWER_LAW_PARAMETERS, DEFAULT_BAND_MULTIPLIERS, decay))
+        .toBeCloseTo(BitcoinPowerLaw.calculateFairValue(testDate2024) * multiplier(testDate2024), 6);
+    });
+  });
+
   describe('Edge cases and validation', () => {
     it('should handle very early dates gracefully', () => {
       const earlyDate = new Date('2009-01-01'); // Before genesis
@@ -1,49 +1,111 @@
-// Bitcoin Genesis Block timestamp: January 3, 2009, 18:15:05 UTC
-const BITCOIN_GENESIS_TIMESTAMP = 1231006505000; // milliseconds
+import { getDaysSinceGenesis } from './Genesis';
 
 // Power Law parameters - User's formula
 // Formula: Price = A × (days_since_genesis)^B
 const POWER_LAW_A = 1.01e-17; // Coefficient: 1.01E-17
 const POWER_LAW_B = 5.82; // Exponent: 5.82
 
+export interface PowerLawParameters {
+  a: number;
+  b: number;
+}
+
+/**
+ * Published constants (2024-era fit)
+ */
+export const PUBLISHED_POWER_LAW_PARAMETERS: PowerLawParameters = {
+  a: POWER_LAW_A,
+  b: POWER_LAW_B
+};
+
+/**
+ * Floor and upper bound as multiples of fair value
+ */
+export interface PowerLawBandMultipliers {
+  floor: number;
+  upper: number;
+}
+
+export const DEFAULT_BAND_MULTIPLIERS: PowerLawBandMultipliers = {
+  floor: 0.42,
+  upper: 2.0
+};
+
+/**
+ * Upper bound that decays toward fair value: multiplier = 1 + coefficient × (days_since_genesis)^exponent
+ */
+export interface UpperBoundDecay {
+  coefficient: number;
+  exponent: number;
+}
+
 export class BitcoinPowerLaw {
+  /**
+   * Upper bound as a multiple of fair value on a given date: the decaying upper bound when given
+   * (e.g. fitted through past cycle peaks by DecayingUpperBound), otherwise the flat upper multiplier
+   */
+  static getUpperBoundMultiplier(
+    date: Date,
+    bandMultipliers: PowerLawBandMultipliers = DEFAULT_BAND_MULTIPLIERS,
+    upperBoundDecay: UpperBoundDecay | null = null
+  ): number {
+    return upperBoundDecay
+      ? this.calculateDecayingMultiplier(upperBoundDecay, date)
+      : bandMultipliers.upper;
+  }
+
+  /**
+   * Multiple of fair value under a decaying upper bound: 1 + coefficient × (days_since_genesis)^exponent
+   */
+  static calculateDecayingMultiplier(decay: UpperBoundDecay, date: Date): number {
+    return 1 + decay.coefficient * Math.pow(this.getDaysSinceGenesis(date), decay.exponent);
+  }
+
   /**
    * Calculate the power law fair value for a given date
-   * Formula: Price = A × (days_since_genesis)^B
+   * Formula: Price = A × (days_since_genesis)^B, with the published A and B unless a live fit is given
    */
-  static calculateFairValue(date: Date): number {
+  static calculateFairValue(date: Date, parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS): number {
     const daysSinceGenesis = this.getDaysSinceGenesis(date);
-    const fairValue = POWER_LAW_A * Math.pow(daysSinceGenesis, POWER_LAW_B);
+    const fairValue = parameters.a * Math.pow(daysSinceGenesis, parameters.b);
     return fairValue;
   }
 
   /**
    * Calculate the power law floor price (support level)
-   * Formula: Floor = Fair Value × 0.42
+   * Formula: Floor = Fair Value × 0.42 (or the given floor multiplier)
    */
-  static calculateFloorPrice(date: Date): number {
-    const fairValue = this.calculateFairValue(date);
-    return fairValue * 0.42;
+  static calculateFloorPrice(
+    date: Date,
+    parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS,
+    bandMultipliers: PowerLawBandMultipliers = DEFAULT_BAND_MULTIPLIERS
+  ): number {
+    const fairValue = this.calculateFairValue(date, parameters);
+    return fairValue * bandMultipliers.floor;
   }
 
   /**
    * Calculate the power law upper bound (resistance level)
    * Based on Giovanni Santostasi's research showing cycle tops around 2x fair value
-   * This is a simpler, more established approach than exponential decay models
+   * This is a simpler, more established approach than exponential decay models;
+   * the decaying model is optional (pass an upperBoundDecay)
    */
-  static calculateUpperBound(date: Date): number {
-    const fairValue = this.calculateFairValue(date);
-    // Giovanni's research shows cycle tops typically occur around 2x fair value
-    return fairValue * 2.0;
+  static calculateUpperBound(
+    date: Date,
+    parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS,
+    bandMultipliers: PowerLawBandMultipliers = DEFAULT_BAND_MULTIPLIERS,
+    upperBoundDecay: UpperBoundDecay | null = null
+  ): number {
+    const fairValue = this.calculateFairValue(date, parameters);
+    // Giovanni's research shows cycle tops typically occur around 2x fair value (default multiplier)
+    return fairValue * this.getUpperBoundMultiplier(date, bandMultipliers, upperBoundDecay);
   }
 
   /**
    * Get days since Bitcoin genesis block
    */
   static getDaysSinceGenesis(date: Date): number {
-    const millisecondsSinceGenesis = date.getTime() - BITCOIN_GENESIS_TIMESTAMP;
-    const daysSinceGenesis = millisecondsSinceGenesis / (1000 * 60 * 60 * 24);
-    return Math.max(1, daysSinceGenesis); // Ensure at least 1 day to avoid issues
+    return getDaysSinceGenesis(date);
   }
 
   /**
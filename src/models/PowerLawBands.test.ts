@@ -0,0 +1,70 @@
+/**
+ * Tests for empirical support and resistance bands:
+ * - Percentiles of the price-to-fair-value residuals
+ * - Selecting percentiles as floor and upper multipliers
+ */
+
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { BitcoinPowerLaw, DEFAULT_BAND_MULTIPLIERS, PUBLISHED_POWER_LAW_PARAMETERS } from './PowerLaw';
+import { PowerLawBands, RESIDUAL_BAND_PERCENTILES } from './PowerLawBands';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// 101 daily prices at fair value × e^r for r evenly spread over [-1, 1]
+function makeHistory(): BitcoinPriceData[] {
+  const start = Date.UTC(2020, 0, 1);
+  const prices: BitcoinPriceData[] = [];
+  for (let day = 0; day <= 100; day++) {
+    const timestamp = start + day * MILLISECONDS_PER_DAY;
+    const residual = -1 + day * 0.02;
+    prices.push({
+      date: new Date(timestamp).toISOString().split('T')[0],
+      price: BitcoinPowerLaw.calculateFairValue(new Date(timestamp)) * Math.exp(residual),
+      timestamp
+    });
+  }
+  return prices;
+}
+
+describe('PowerLawBands', () => {
+  describe('fromHistory', () => {
+    it('returns one band per percentile at the matching residual', () => {
+      const bands = PowerLawBands.fromHistory(makeHistory())!;
+      expect(bands.map(band => band.percentile)).toEqual(RESIDUAL_BAND_PERCENTILES);
+      expect(bands[0].multiplier).toBeCloseTo(Math.exp(-0.98), 8);
+      expect(bands[1].multiplier).toBeCloseTo(Math.exp(-0.9), 8);
+      expect(bands[2].multiplier).toBeCloseTo(1, 8);
+      expect(bands[3].multiplier).toBeCloseTo(Math.exp(0.9), 8);
+      expect(bands[4].multiplier).toBeCloseTo(Math.exp(0.98), 8);
+    });
+
+    it('interpolates between observations', () => {
+      const [band] = PowerLawBands.fromHistory(makeHistory(), PUBLISHED_POWER_LAW_PARAMETERS, [2.5])!;
+      expect(band.multiplier).toBeCloseTo(Math.exp(-0.95), 8);
+    });
+
+    it('returns null without prices', () => {
+      expect(PowerLawBands.fromHistory([])).toBeNull();
+    });
+  });
+
+  describe('selectMultipliers', () => {
+    const bands = PowerLawBands.fromHistory(makeHistory());
+
+    it('keeps the fixed multipliers when nothing is selected', () => {
+      const selected = PowerLawBands.selectMultipliers(bands, { floorPercentile: null, upperPercentile: null }, DEFAULT_BAND_MULTIPLIERS);
+      expect(selected).toEqual(DEFAULT_BAND_MULTIPLIERS);
+    });
+
+    it('uses the selected percentiles as floor and upper bound', () => {
+      const selected = PowerLawBands.selectMultipliers(bands, { floorPercentile: 5, upperPercentile: 99 }, DEFAULT_BAND_MULTIPLIERS);
+      expect(selected.floor).toBeCloseTo(Math.exp(-0.9), 8);
+      expect(selected.upper).toBeCloseTo(Math.exp(0.98), 8);
+    });
+
+    it('falls back to the fixed multipliers without bands', () => {
+      const selected = PowerLawBands.selectMultipliers(null, { floorPercentile: 5, upperPercentile: 95 }, DEFAULT_BAND_MULTIPLIERS);
+      expect(selected).toEqual(DEFAULT_BAND_MULTIPLIERS);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { BitcoinPowerLaw, PUBLISHED_POWER_LAW_PARAMETERS, PowerLawBandMultipliers, PowerLawParameters } from './PowerLaw';
+
+/**
+ * Percentiles of the historical residual distribution drawn as bands
+ */
+export const RESIDUAL_BAND_PERCENTILES = [1, 5, 50, 95, 99];
+
+export interface ResidualBand {
+  percentile: number;
+  /** Price as a multiple of fair value at this percentile */
+  multiplier: number;
+}
+
+/**
+ * Which residual percentile replaces the fixed floor and upper multipliers (null = keep 0.42x / 2x)
+ */
+export interface BandSelection {
+  floorPercentile: number | null;
+  upperPercentile: number | null;
+}
+
+export const DEFAULT_BAND_SELECTION: BandSelection = {
+  floorPercentile: null,
+  upperPercentile: null
+};
+
+export class PowerLawBands {
+  /**
+   * Empirical bands: percentiles of ln(price / fair value) over the price history,
+   * turned back into multiples of fair value. Fair value uses the given Power Law parameters.
+   */
+  static fromHistory(
+    prices: BitcoinPriceData[],
+    parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS,
+    percentiles: number[] = RESIDUAL_BAND_PERCENTILES
+  ): ResidualBand[] | null {
+    const residuals = prices
+      .filter(point => point.price > 0)
+      .map(point => Math.log(point.price / BitcoinPowerLaw.calculateFairValue(new Date(point.timestamp), parameters)))
+      .sort((a, b) => a - b);
+    if (residuals.length === 0) return null;
+
+    return percentiles.map(percentile => ({
+      percentile,
+      multiplier: Math.exp(this.percentile(residuals, percentile))
+    }));
+  }
+
+  /**
+   * Floor and upper multipliers for a selection; unselected or missing percentiles fall back to the defaults
+   */
+  static selectMultipliers(
+    bands: ResidualBand[] | null,
+    selection: BandSelection,
+    defaults: PowerLawBandMultipliers
+  ): PowerLawBandMultipliers {
+    const find = (percentile: number | null) => bands?.find(band => band.percentile === percentile)?.multiplier;
+    return {
+      floor: find(selection.floorPercentile) ?? defaults.floor,
+      upper: find(selection.upperPercentile) ?? defaults.upper
+    };
+  }
+
+  /**
+   * Linear interpolation between closest ranks of an ascending array
+   */
+  private static percentile(sorted: number[], percentile: number): number {
+    const position = (Math.min(100, Math.max(0, percentile)) / 100) * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+}
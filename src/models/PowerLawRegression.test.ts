@@ -0,0 +1,92 @@
+/**
+ * Tests for fitting the Power Law to price history:
+ * - Least squares recovers known parameters from exact data
+ * - Quantile regression places the requested share of prices below the line
+ * - Fit window, goodness-of-fit statistics and degenerate input
+ */
+
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { BitcoinPowerLaw } from './PowerLaw';
+import { PowerLawRegression } from './PowerLawRegression';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+const A = 1.5e-17;
+const B = 5.7;
+
+// Weekly prices on the curve A × days^B, multiplied by a repeating noise pattern in log space
+function makeHistory(noise: number[] = [0]): BitcoinPriceData[] {
+  const start = Date.UTC(2012, 0, 1);
+  const prices: BitcoinPriceData[] = [];
+  for (let week = 0; week < 52 * 12; week++) {
+    const timestamp = start + week * 7 * MILLISECONDS_PER_DAY;
+    const days = BitcoinPowerLaw.getDaysSinceGenesis(new Date(timestamp));
+    prices.push({
+      date: new Date(timestamp).toISOString().split('T')[0],
+      price: A * Math.pow(days, B) * Math.exp(noise[week % noise.length]),
+      timestamp
+    });
+  }
+  return prices;
+}
+
+describe('PowerLawRegression', () => {
+  describe('least squares', () => {
+    it('recovers the parameters of exact power law data', () => {
+      const fit = PowerLawRegression.fit(makeHistory())!;
+      expect(fit.method).toBe('least-squares');
+      expect(fit.quantile).toBeNull();
+      expect(fit.parameters.b).toBeCloseTo(B, 8);
+      expect(fit.parameters.a / A).toBeCloseTo(1, 6);
+      expect(fit.rSquared).toBeCloseTo(1, 10);
+      expect(fit.residualStdDev).toBeCloseTo(0, 8);
+    });
+
+    it('reports the residual standard deviation of noisy data', () => {
+      const fit = PowerLawRegression.fit(makeHistory([-0.5, 0.5]))!;
+      expect(fit.parameters.b).toBeCloseTo(B, 1);
+      expect(fit.residualStdDev).toBeCloseTo(0.5, 2);
+      expect(fit.rSquared).toBeLessThan(1);
+      expect(fit.rSquared).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe('quantile regression', () => {
+    const noise = [-0.4, -0.2, 0, 0.2, 0.4, -0.3, 0.1, 0.3, -0.1, -0.5];
+
+    it('puts roughly the requested share of prices below the fitted line', () => {
+      const history = makeHistory(noise);
+      [0.1, 0.5, 0.9].forEach(quantile => {
+        const fit = PowerLawRegression.fit(history, { method: 'quantile', quantile })!;
+        const below = history.filter(point =>
+          point.price < fit.parameters.a * Math.pow(BitcoinPowerLaw.getDaysSinceGenesis(new Date(point.timestamp)), fit.parameters.b)
+        ).length;
+        expect(fit.quantile).toBe(quantile);
+        expect(below / history.length).toBeCloseTo(quantile, 1);
+      });
+    });
+
+    it('defaults to the median', () => {
+      const fit = PowerLawRegression.fit(makeHistory(noise), { method: 'quantile' })!;
+      expect(fit.quantile).toBe(0.5);
+    });
+  });
+
+  describe('fit window', () => {
+    it('only uses prices inside the window', () => {
+      const fit = PowerLawRegression.fit(makeHistory(), {
+        method: 'least-squares',
+        startDate: new Date(Date.UTC(2015, 0, 1)),
+        endDate: new Date(Date.UTC(2018, 0, 1))
+      })!;
+      expect(fit.fitWindow.startDate >= '2015-01-01').toBe(true);
+      expect(fit.fitWindow.endDate <= '2018-01-01').toBe(true);
+      expect(fit.fitWindow.points).toBeGreaterThan(150);
+      expect(fit.fitWindow.points).toBeLessThan(160);
+    });
+
+    it('returns null with fewer than two prices', () => {
+      expect(PowerLawRegression.fit([])).toBeNull();
+      expect(PowerLawRegression.fit(makeHistory().slice(0, 1))).toBeNull();
+    });
+  });
+});
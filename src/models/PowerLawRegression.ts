@@ -0,0 +1,130 @@
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { BitcoinPowerLaw, PowerLawParameters } from './PowerLaw';
+
+export type PowerLawFitMethod = 'least-squares' | 'quantile';
+
+/**
+ * Where the app takes A and B from: the published constants or a live fit
+ */
+export type PowerLawSource = 'published' | PowerLawFitMethod;
+
+export interface PowerLawFitOptions {
+  method: PowerLawFitMethod;
+  /** Quantile for quantile regression (0.5 = median line) */
+  quantile?: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface PowerLawFitResult {
+  parameters: PowerLawParameters;
+  method: PowerLawFitMethod;
+  quantile: number | null;
+  /** Share of ln(price) variance explained by the fit */
+  rSquared: number;
+  /** Standard deviation of ln(price / fitted price) */
+  residualStdDev: number;
+  fitWindow: {
+    startDate: string;
+    endDate: string;
+    points: number;
+  };
+}
+
+interface LogPoint {
+  x: number;
+  y: number;
+}
+
+const QUANTILE_ITERATIONS = 100;
+const MIN_ABSOLUTE_RESIDUAL = 1e-6;
+
+export class PowerLawRegression {
+  /**
+   * Fit A and B of Price = A × (days_since_genesis)^B against price history,
+   * as a straight line in log-log space: ln(Price) = ln(A) + B × ln(days)
+   */
+  static fit(prices: BitcoinPriceData[], options: PowerLawFitOptions = { method: 'least-squares' }): PowerLawFitResult | null {
+    const window = prices
+      .filter(point => point.price > 0)
+      .filter(point => !options.startDate || point.timestamp >= options.startDate.getTime())
+      .filter(point => !options.endDate || point.timestamp <= options.endDate.getTime())
+      .sort((a, b) => a.timestamp - b.timestamp);
+    if (window.length < 2) return null;
+
+    const points: LogPoint[] = window.map(point => ({
+      x: Math.log(BitcoinPowerLaw.getDaysSinceGenesis(new Date(point.timestamp))),
+      y: Math.log(point.price)
+    }));
+
+    const quantile = options.method === 'quantile' ? options.quantile ?? 0.5 : null;
+    const line = quantile === null
+      ? this.weightedLeastSquares(points, points.map(() => 1))
+      : this.quantileRegression(points, quantile);
+    if (!line) return null;
+
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const residuals = points.map(p => p.y - (line.intercept + line.slope * p.x));
+    const meanResidual = residuals.reduce((sum, r) => sum + r, 0) / residuals.length;
+    const residualSumOfSquares = residuals.reduce((sum, r) => sum + r * r, 0);
+    const totalSumOfSquares = points.reduce((sum, p) => sum + (p.y - meanY) * (p.y - meanY), 0);
+
+    return {
+      parameters: { a: Math.exp(line.intercept), b: line.slope },
+      method: options.method,
+      quantile,
+      rSquared: totalSumOfSquares > 0 ? 1 - residualSumOfSquares / totalSumOfSquares : 0,
+      residualStdDev: Math.sqrt(residuals.reduce((sum, r) => sum + (r - meanResidual) * (r - meanResidual), 0) / residuals.length),
+      fitWindow: {
+        startDate: window[0].date,
+        endDate: window[window.length - 1].date,
+        points: window.length
+      }
+    };
+  }
+
+  /**
+   * Weighted least squares line through log-log points
+   */
+  private static weightedLeastSquares(points: LogPoint[], weights: number[]): { intercept: number; slope: number } | null {
+    let sumW = 0;
+    let sumX = 0;
+    let sumY = 0;
+    points.forEach((p, i) => {
+      sumW += weights[i];
+      sumX += weights[i] * p.x;
+      sumY += weights[i] * p.y;
+    });
+    const meanX = sumX / sumW;
+    const meanY = sumY / sumW;
+
+    let covariance = 0;
+    let variance = 0;
+    points.forEach((p, i) => {
+      covariance += weights[i] * (p.x - meanX) * (p.y - meanY);
+      variance += weights[i] * (p.x - meanX) * (p.x - meanX);
+    });
+    if (variance <= 0) return null;
+
+    const slope = covariance / variance;
+    return { intercept: meanY - slope * meanX, slope };
+  }
+
+  /**
+   * Quantile regression by iteratively reweighted least squares: residuals above the line
+   * weigh q/|r| and residuals below weigh (1-q)/|r|, which converges to the pinball-loss minimum
+   */
+  private static quantileRegression(points: LogPoint[], quantile: number): { intercept: number; slope: number } | null {
+    let line = this.weightedLeastSquares(points, points.map(() => 1));
+    for (let iteration = 0; line && iteration < QUANTILE_ITERATIONS; iteration++) {
+      const current = line;
+      const weights = points.map(p => {
+        const residual = p.y - (current.intercept + current.slope * p.x);
+        const scale = residual >= 0 ? quantile : 1 - quantile;
+        return scale / Math.max(MIN_ABSOLUTE_RESIDUAL, Math.abs(residual));
+      });
+      line = this.weightedLeastSquares(points, weights);
+    }
+    return line;
+  }
+}
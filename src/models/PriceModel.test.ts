@@ -0,0 +1,151 @@
+import { BitcoinPowerLaw, DEFAULT_BAND_MULTIPLIERS, PUBLISHED_POWER_LAW_PARAMETERS } from './PowerLaw';
+import {
+  CagrPriceModel,
+  PiecewisePriceModel,
+  POWER_LAW_MODEL,
+  PowerLawPriceModel,
+  PriceModelRegistry,
+  PriceModelSettings,
+  SaturatingGrowthPriceModel,
+  createDefaultPriceModelSettings,
+  validatePricePath
+} from './PriceModel';
+
+describe('PriceModel', () => {
+  const settings: PriceModelSettings = {
+    ...createDefaultPriceModelSettings(2025),
+    anchorPrice: 100000,
+    annualGrowth: 0.1,
+    initialGrowth: 0.4,
+    growthHalfLifeYears: 8,
+    floorMultiplier: 0.5,
+    ceilingMultiplier: 3,
+    path: [
+      { year: 2025, price: 100000 },
+      { year: 2035, price: 400000 }
+    ]
+  };
+
+  describe('PowerLawPriceModel', () => {
+    it('should match BitcoinPowerLaw', () => {
+      const date = new Date('2030-01-01');
+      expect(POWER_LAW_MODEL.fairValue(date)).toBe(BitcoinPowerLaw.calculateFairValue(date));
+      expect(POWER_LAW_MODEL.floor(date)).toBe(BitcoinPowerLaw.calculateFloorPrice(date));
+      expect(POWER_LAW_MODEL.ceiling(date)).toBe(BitcoinPowerLaw.calculateUpperBound(date));
+      expect(POWER_LAW_MODEL.bubbleZoneScale?.(date)).toBe(1);
+    });
+
+    it('should price from its own parameters', () => {
+      const date = new Date('2030-01-01');
+      const fitted = new PowerLawPriceModel({ ...PUBLISHED_POWER_LAW_PARAMETERS, a: PUBLISHED_POWER_LAW_PARAMETERS.a * 2 });
+      expect(fitted.fairValue(date)).toBeCloseTo(POWER_LAW_MODEL.fairValue(date) * 2, 6);
+      expect(fitted.floor(date)).toBeCloseTo(POWER_LAW_MODEL.floor(date) * 2, 6);
+      expect(fitted.ceiling(date)).toBeCloseTo(POWER_LAW_MODEL.ceiling(date) * 2, 6);
+      // Other instances keep the published constants
+      expect(POWER_LAW_MODEL.fairValue(date)).toBe(BitcoinPowerLaw.calculateFairValue(date));
+    });
+
+    it('should move the bubble zones only with its own decaying upper bound', () => {
+      const date = new Date('2030-01-01');
+      const decaying = new PowerLawPriceModel(PUBLISHED_POWER_LAW_PARAMETERS, DEFAULT_BAND_MULTIPLIERS, {
+        coefficient: 3 * BitcoinPowerLaw.getDaysSinceGenesis(date),
+        exponent: -1
+      });
+      expect(decaying.ceiling(date)).toBeCloseTo(decaying.fairValue(date) * 4, 6);
+      expect(decaying.bubbleZoneScale(date)).toBeCloseTo(2, 6);
+      expect(POWER_LAW_MODEL.bubbleZoneScale?.(date)).toBe(1);
+    });
+  });
+
+  describe('CagrPriceModel', () => {
+    it('should compound the anchor price yearly', () => {
+      const model = new CagrPriceModel(settings);
+      expect(model.fairValue(new Date(2025, 0, 1))).toBeCloseTo(100000, 0);
+      expect(model.fairValue(new Date(2027, 0, 1)) / 100000).toBeCloseTo(1.21, 2);
+    });
+
+    it('should put floor and ceiling at the configured multiples', () => {
+      const model = new CagrPriceModel(settings);
+      const date = new Date(2030, 0, 1);
+      expect(model.floor(date)).toBeCloseTo(model.fairValue(date) * 0.5, 6);
+      expect(model.ceiling(date)).toBeCloseTo(model.fairValue(date) * 3, 6);
+    });
+  });
+
+  describe('SaturatingGrowthPriceModel', () => {
+    it('should grow at the initial rate at first and level off later', () => {
+      const model = new SaturatingGrowthPriceModel(settings);
+      const decayRate = Math.LN2 / 8;
+      const limit = 100000 * Math.exp(Math.log(1.4) / decayRate);
+
+      const firstYearGrowth = model.fairValue(new Date(2026, 0, 1)) / model.fairValue(new Date(2025, 0, 1));
+      const lateYearGrowth = model.fairValue(new Date(2076, 0, 1)) / model.fairValue(new Date(2075, 0, 1));
+      expect(firstYearGrowth).toBeGreaterThan(1.3);
+      expect(lateYearGrowth).toBeLessThan(1.01);
+      expect(model.fairValue(new Date(2200, 0, 1))).toBeCloseTo(limit, -3);
+    });
+  });
+
+  describe('PiecewisePriceModel', () => {
+    it('should interpolate between path years in log space', () => {
+      const model = new PiecewisePriceModel(settings);
+      expect(model.fairValue(new Date(2030, 0, 1))).toBeCloseTo(200000, -2);
+    });
+
+    it('should extend the first and last segments outside the path', () => {
+      const model = new PiecewisePriceModel(settings);
+      expect(model.fairValue(new Date(2045, 0, 1))).toBeCloseTo(1600000, -3);
+      expect(model.fairValue(new Date(2020, 0, 1))).toBeCloseTo(50000, -2);
+    });
+
+    it('should stay flat with a single point', () => {
+      const model = new PiecewisePriceModel({ ...settings, path: [{ year: 2030, price: 250000 }] });
+      expect(model.fairValue(new Date(2050, 0, 1))).toBe(250000);
+    });
+  });
+
+  describe('validatePricePath', () => {
+    it('should accept a valid path', () => {
+      expect(validatePricePath(settings.path)).toEqual([]);
+    });
+
+    it('should reject empty paths, non-positive prices and duplicate years', () => {
+      expect(validatePricePath([])).toHaveLength(1);
+      expect(validatePricePath([{ year: 2030, price: 0 }])).toHaveLength(1);
+      expect(validatePricePath([
+        { year: 2030, price: 1 },
+        { year: 2030, price: 2 }
+      ])).toHaveLength(1);
+    });
+  });
+
+  describe('PriceModelRegistry', () => {
+    it('should list the built-in models', () => {
+      expect(PriceModelRegistry.list().map(definition => definition.id)).toEqual(
+        ['power-law', 'cagr', 'saturating', 'piecewise']
+      );
+    });
+
+    it('should create models by id', () => {
+      expect(PriceModelRegistry.create('cagr', settings)).toBeInstanceOf(CagrPriceModel);
+      expect(PriceModelRegistry.create('power-law', settings)).toBeInstanceOf(PowerLawPriceModel);
+    });
+
+    it('should build the Power Law from the settings\' parameters and bands', () => {
+      const parameters = { ...PUBLISHED_POWER_LAW_PARAMETERS, b: 5.7 };
+      const bands = { floor: 0.3, upper: 2.5 };
+      const model = PriceModelRegistry.create('power-law', {
+        ...settings,
+        powerLawParameters: parameters,
+        powerLawBandMultipliers: bands
+      }) as PowerLawPriceModel;
+      expect(model.parameters).toBe(parameters);
+      expect(model.bandMultipliers).toBe(bands);
+      expect(model.upperBoundDecay).toBeNull();
+    });
+
+    it('should fall back to the Power Law for unknown ids', () => {
+      expect(PriceModelRegistry.create('unknown', settings)).toBe(POWER_LAW_MODEL);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  BitcoinPowerLaw,
+  DEFAULT_BAND_MULTIPLIERS,
+  PUBLISHED_POWER_LAW_PARAMETERS,
+  PowerLawBandMultipliers,
+  PowerLawParameters,
+  UpperBoundDecay
+} from './PowerLaw';
+
+const MILLISECONDS_PER_YEAR = 1000 * 60 * 60 * 24 * 365.25;
+
+/**
+ * Long-term price model: a fair value trend with a floor (support) and ceiling (resistance).
+ * Simulations, the chart and the withdrawal strategy take a model instance instead of calling the Power Law directly.
+ */
+export interface PriceModel {
+  id: string;
+  name: string;
+  fairValue(date: Date): number;
+  floor(date: Date): number;
+  ceiling(date: Date): number;
+  /** Scale applied to the Smart Withdrawal bubble zones on a date (1 = 2.5x / 5x as-is) */
+  bubbleZoneScale?(date: Date): number;
+}
+
+export interface PricePathPoint {
+  year: number;
+  price: number;
+}
+
+/**
+ * Settings for the models. Each alternative model reads only the fields it lists in its definition;
+ * the Power Law fields come from the fit and band controls instead.
+ */
+export interface PriceModelSettings {
+  /** Power Law coefficient and exponent: the published constants or a live fit */
+  powerLawParameters: PowerLawParameters;
+  /** Power Law floor and upper bound: 0.42x / 2x or the selected residual percentiles */
+  powerLawBandMultipliers: PowerLawBandMultipliers;
+  /** Power Law upper bound decaying through past cycle tops, or null for the flat upper multiplier */
+  powerLawUpperBoundDecay: UpperBoundDecay | null;
+  /** Year the model starts from (January 1st) */
+  anchorYear: number;
+  /** Fair value at the anchor, by default the Power Law fair value */
+  anchorPrice: number;
+  /** Constant yearly growth of the flat-growth model (0.15 = 15%) */
+  annualGrowth: number;
+  /** Yearly growth at the anchor for the saturating model */
+  initialGrowth: number;
+  /** Years for the saturating model's growth rate to halve */
+  growthHalfLifeYears: number;
+  floorMultiplier: number;
+  ceilingMultiplier: number;
+  /** Fair value by year for the piecewise model, interpolated in log space */
+  path: PricePathPoint[];
+}
+
+export interface PriceModelDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Settings the user can edit for this model */
+  settings: Array<keyof PriceModelSettings>;
+  create(settings: PriceModelSettings): PriceModel;
+}
+
+const yearsSince = (anchorYear: number, date: Date): number => {
+  return (date.getTime() - new Date(anchorYear, 0, 1).getTime()) / MILLISECONDS_PER_YEAR;
+};
+
+/**
+ * The Power Law with its own parameters (published or a live fit), band multipliers and optional decaying upper bound
+ */
+export class PowerLawPriceModel implements PriceModel {
+  readonly id = 'power-law';
+  readonly name = 'Power Law';
+
+  constructor(
+    readonly parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS,
+    readonly bandMultipliers: PowerLawBandMultipliers = DEFAULT_BAND_MULTIPLIERS,
+    readonly upperBoundDecay: UpperBoundDecay | null = null
+  ) {}
+
+  fairValue(date: Date): number {
+    return BitcoinPowerLaw.calculateFairValue(date, this.parameters);
+  }
+
+  floor(date: Date): number {
+    return BitcoinPowerLaw.calculateFloorPrice(date, this.parameters, this.bandMultipliers);
+  }
+
+  ceiling(date: Date): number {
+    return BitcoinPowerLaw.calculateUpperBound(date, this.parameters, this.bandMultipliers, this.upperBoundDecay);
+  }
+
+  bubbleZoneScale(date: Date): number {
+    // Only the decaying upper bound moves the bubble zones; flat multipliers leave them at 2.5x / 5x
+    return this.upperBoundDecay
+      ? BitcoinPowerLaw.calculateDecayingMultiplier(this.upperBoundDecay, date) / DEFAULT_BAND_MULTIPLIERS.upper
+      : 1;
+  }
+}
+
+/**
+ * Shared floor and ceiling for models defined by a fair value curve
+ */
+abstract class MultiplierBandPriceModel implements PriceModel {
+  abstract readonly id: string;
+  abstract readonly name: string;
+
+  constructor(protected readonly settings: PriceModelSettings) {}
+
+  abstract fairValue(date: Date): number;
+
+  floor(date: Date): number {
+    return this.fairValue(date) * this.settings.floorMultiplier;
+  }
+
+  ceiling(date: Date): number {
+    return this.fairValue(date) * this.settings.ceilingMultiplier;
+  }
+}
+
+/**
+ * Fair value compounding at a constant yearly rate from the anchor
+ */
+export class CagrPriceModel extends MultiplierBandPriceModel {
+  readonly id = 'cagr';
+  readonly name = 'Flat Growth (CAGR)';
+
+  fairValue(date: Date): number {
+    const { anchorYear, anchorPrice, annualGrowth } = this.settings;
+    return anchorPrice * Math.pow(1 + annualGrowth, yearsSince(anchorYear, date));
+  }
+}
+
+/**
+ * Log-growth that slows down over time: the growth rate halves every growthHalfLifeYears,
+ * so the fair value saturates at anchorPrice × e^(initialGrowth / decay rate)
+ */
+export class SaturatingGrowthPriceModel extends MultiplierBandPriceModel {
+  readonly id = 'saturating';
+  readonly name = 'Log Growth with Saturation';
+
+  fairValue(date: Date): number {
+    const { anchorYear, anchorPrice, initialGrowth, growthHalfLifeYears } = this.settings;
+    const decayRate = Math.LN2 / Math.max(0.1, growthHalfLifeYears);
+    const logGrowth = Math.log(1 + initialGrowth);
+    const years = yearsSince(anchorYear, date);
+    return anchorPrice * Math.exp((logGrowth / decayRate) * (1 - Math.exp(-decayRate * years)));
+  }
+}
+
+/**
+ * User-defined fair value path: log-linear between the given years, extending the first and last
+ * segments' growth outside them (flat with a single point)
+ */
+export class PiecewisePriceModel extends MultiplierBandPriceModel {
+  readonly id = 'piecewise';
+  readonly name = 'Custom Price Path';
+  private readonly points: PricePathPoint[];
+
+  constructor(settings: PriceModelSettings) {
+    super(settings);
+    this.points = [...settings.path]
+      .filter(point => point.price > 0)
+      .sort((a, b) => a.year - b.year);
+  }
+
+  fairValue(date: Date): number {
+    const { points } = this;
+    if (points.length === 0) return this.settings.anchorPrice;
+    if (points.length === 1) return points[0].price;
+
+    const year = date.getFullYear() + yearsSince(date.getFullYear(), date);
+    let segment = 0;
+    while (segment < points.length - 2 && year > points[segment + 1].year) {
+      segment++;
+    }
+    const start = points[segment];
+    const end = points[segment + 1];
+    const fraction = (year - start.year) / (end.year - start.year);
+    return Math.exp(Math.log(start.price) + (Math.log(end.price) - Math.log(start.price)) * fraction);
+  }
+}
+
+/**
+ * Problems with a custom price path (empty when valid)
+ */
+export const validatePricePath = (path: PricePathPoint[]): string[] => {
+  const errors: string[] = [];
+  if (path.length === 0) {
+    errors.push('Add at least one year to the price path');
+  }
+  if (path.some(point => !(point.price > 0))) {
+    errors.push('Every price in the path must be greater than zero');
+  }
+  const years = path.map(point => point.year);
+  if (new Set(years).size !== years.length) {
+    errors.push('Each year can only appear once in the price path');
+  }
+  return errors;
+};
+
+/**
+ * Power Law with the published constants, used whenever no other model is given
+ */
+export const POWER_LAW_MODEL: PriceModel = new PowerLawPriceModel();
+
+/**
+ * Defaults for the alternative models, anchored at the Power Law fair value so they start where it is
+ */
+export const createDefaultPriceModelSettings = (anchorYear: number = new Date().getFullYear()): PriceModelSettings => {
+  const anchorPrice = POWER_LAW_MODEL.fairValue(new Date(anchorYear, 0, 1));
+  return {
+    powerLawParameters: PUBLISHED_POWER_LAW_PARAMETERS,
+    powerLawBandMultipliers: DEFAULT_BAND_MULTIPLIERS,
+    powerLawUpperBoundDecay: null,
+    anchorYear,
+    anchorPrice,
+    annualGrowth: 0.15,
+    initialGrowth: 0.4,
+    growthHalfLifeYears: 8,
+    floorMultiplier: DEFAULT_BAND_MULTIPLIERS.floor,
+    ceilingMultiplier: DEFAULT_BAND_MULTIPLIERS.upper,
+    path: [
+      { year: anchorYear, price: anchorPrice },
+      { year: anchorYear + 10, price: anchorPrice * 2 },
+      { year: anchorYear + 30, price: anchorPrice * 4 }
+    ]
+  };
+};
+
+/**
+ * Available price models by id
+ */
+export class PriceModelRegistry {
+  private static definitions = new Map<string, PriceModelDefinition>();
+
+  static register(definition: PriceModelDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  static get(id: string): PriceModelDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  static list(): PriceModelDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Model instance for an id, falling back to the Power Law for unknown ids
+   */
+  static create(id: string, settings: PriceModelSettings): PriceModel {
+    const definition = this.definitions.get(id);
+    return definition ? definition.create(settings) : POWER_LAW_MODEL;
+  }
+}
+
+PriceModelRegistry.register({
+  id: 'power-law',
+  name: 'Power Law',
+  description: 'Price = A × (days since genesis)^B with its floor and upper bound, as configured above.',
+  settings: [],
+  create: settings => new PowerLawPriceModel(
+    settings.powerLawParameters,
+    settings.powerLawBandMultipliers,
+    settings.powerLawUpperBoundDecay
+  )
+});
+
+PriceModelRegistry.register({
+  id: 'cagr',
+  name: 'Flat Growth (CAGR)',
+  description: 'Fair value compounds at a constant yearly rate from today\'s Power Law fair value.',
+  settings: ['annualGrowth', 'floorMultiplier', 'ceilingMultiplier'],
+  create: settings => new CagrPriceModel(settings)
+});
+
+PriceModelRegistry.register({
+  id: 'saturating',
+  name: 'Log Growth with Saturation',
+  description: 'Growth starts high and halves every few years, so the fair value levels off instead of rising forever.',
+  settings: ['initialGrowth', 'growthHalfLifeYears', 'floorMultiplier', 'ceilingMultiplier'],
+  create: settings => new SaturatingGrowthPriceModel(settings)
+});
+
+PriceModelRegistry.register({
+  id: 'piecewise',
+  name: 'Custom Price Path',
+  description: 'Your own fair value for chosen years, interpolated in between.',
+  settings: ['path', 'floorMultiplier', 'ceilingMultiplier'],
+  create: settings => new PiecewisePriceModel(settings)
+});
@@ -1,3 +1,13 @@
+import { PriceModel } from '../models/PriceModel';
+import { CapitalGainsTaxInputs } from '../utils/CapitalGainsTax';
+import { BuyBackInputs, CashRefillInputs } from '../utils/CashReserve';
+import { CycleCalendarSettings } from '../utils/CycleCalendar';
+import { CustomCycle } from '../utils/CustomCycle';
+import { InflationInputs } from '../utils/Inflation';
+import { BearMarketTestParameters } from '../utils/RetirementCalculations';
+import { SmartWithdrawalConfig } from '../utils/SmartWithdrawalStrategy';
+import { WithdrawalStrategy } from '../utils/WithdrawalStrategy';
+
 export interface BitcoinPriceData {
   date: string;
   price: number;
@@ -19,6 +29,8 @@ export interface ChartDataPoint {
   timestamp: number;
   /** Projected price from 50-year withdrawal plan (when retirement inputs are set) */
   withdrawalPlanPrice?: number | null;
+  /** Fair value × residual percentile multipliers, in RESIDUAL_BAND_PERCENTILES order */
+  residualBands?: number[];
 }
 
 export interface RetirementInputs {
@@ -35,6 +47,71 @@ export interface MonthlySavingsInputs {
   doubleDownInBearMarkets: boolean;
 }
 
+/** How often the withdrawal phase takes money out: once on January 1, or at the start of every month */
+export type WithdrawalFrequency = 'yearly' | 'monthly';
+
+export interface RetirementScenario {
+  retirementInputs: RetirementInputs;
+  monthlySavingsInputs: MonthlySavingsInputs;
+  /** "Today" for the plan: savings start here and the current calendar year is derived from it */
+  startDate: Date;
+  /** Fair value, floor and ceiling used by every price in the plan */
+  priceModel: PriceModel;
+  /** Inflation that grows withdrawals in nominal dollars from startDate onward */
+  inflation: InflationInputs;
+  /** Tax on Bitcoin sales; withdrawals are grossed up so the net amount is still spendable */
+  capitalGainsTax: CapitalGainsTaxInputs;
+  /** Zones and rounding that decide how each withdrawal splits between cash and Bitcoin */
+  smartWithdrawal: SmartWithdrawalConfig;
+  /** Decides each year's spending and whether it comes from cash or Bitcoin */
+  withdrawalStrategy: WithdrawalStrategy;
+  /** Optional rule that sells extra Bitcoin in overvalued years to rebuild the cash buffer */
+  cashRefill: CashRefillInputs;
+  /** Optional rule that buys Bitcoin with surplus cash in deeply undervalued years */
+  buyBack: BuyBackInputs;
+  /** Monthly withdrawals follow prices interpolated through the year and roll up into each year's row */
+  withdrawalFrequency: WithdrawalFrequency;
+  /** Halving dates and peak/trough offsets that place every cycle-priced year on the calendar */
+  cycleCalendar: CycleCalendarSettings;
+  /** User-defined fair value multiples that replace the built-in cycle for the withdrawal phase (null = built-in) */
+  customCycle: CustomCycle | null;
+  /** Floor years, recovery fraction and runway the Bear Market Test checks */
+  bearMarketTest: BearMarketTestParameters;
+}
+
+export type SimulationPhase = 'ACCUMULATION' | 'RETIREMENT START' | 'WITHDRAWAL';
+
+export interface SimulationYear {
+  year: number;
+  yearNumber: number;
+  phase: SimulationPhase;
+  bitcoinPrice: number;
+  fairValue: number;
+  priceToFairRatio: number;
+  cyclePhase: string;
+  annualWithdrawal: number;
+  withdrawalSource: string;
+  cashUsed: number;
+  bitcoinSold: number;
+  /** Savings purchases while accumulating; buy-back purchases in retirement */
+  bitcoinPurchased: number;
+  /** Bitcoin proceeds moved into cash instead of spent (included in bitcoinSold) */
+  cashRefill: number;
+  remainingCash: number;
+  remainingBitcoin: number;
+  remainingBitcoinValue: number;
+  totalRemainingValue: number;
+  totalCashInvested: number;
+  /** Price level relative to the plan's start year: nominal amounts ÷ this = today's dollars */
+  inflationFactor: number;
+  /** Capital gains tax paid on this year's Bitcoin sales (included in bitcoinSold) */
+  taxPaid: number;
+  /** Tax as a share of everything taken out this year (withdrawal + tax) */
+  effectiveTaxRate: number;
+  /** Untaxed gain left in the tax lots at the end of the year (0 without capital gains tax) */
+  unrealizedGain: number;
+}
+
 export interface SavingsProjection {
   year: number;
   month: number;
@@ -0,0 +1,150 @@
+/**
+ * Tests for capital gains tax on Bitcoin sales:
+ * - Flat rates and progressive brackets, loss netting
+ * - Selling from cost basis lots with short/long-term classification
+ * - Gross-up so the net proceeds cover the withdrawal, taxed on top of the year's earlier gains
+ */
+
+import {
+  CapitalGainsTaxInputs,
+  DEFAULT_CAPITAL_GAINS_TAX_INPUTS,
+  TaxLot,
+  calculateBracketTax,
+  calculateCapitalGainsTax,
+  calculateUnrealizedGain,
+  grossUpBitcoinSale,
+  orderLotsForSale,
+  sellFromLots
+} from './CapitalGainsTax';
+
+describe('CapitalGainsTax', () => {
+  const flat: CapitalGainsTaxInputs = {
+    ...DEFAULT_CAPITAL_GAINS_TAX_INPUTS,
+    enabled: true,
+    mode: 'flat',
+    shortTermRate: 0.3,
+    longTermRate: 0.1
+  };
+  const saleDate = new Date(2030, 0, 1);
+  const lots: TaxLot[] = [
+    { acquired: new Date(2020, 0, 1), bitcoin: 1, costBasis: 10000 },
+    { acquired: new Date(2029, 6, 1), bitcoin: 1, costBasis: 80000 }
+  ];
+
+  describe('calculateBracketTax', () => {
+    const brackets = [
+      { from: 0, rate: 0 },
+      { from: 50000, rate: 0.15 },
+      { from: 500000, rate: 0.2 }
+    ];
+
+    it('taxes each slice of the gain at its marginal rate', () => {
+      expect(calculateBracketTax(40000, brackets)).toBe(0);
+      expect(calculateBracketTax(150000, brackets)).toBeCloseTo(15000, 6);
+      expect(calculateBracketTax(600000, brackets)).toBeCloseTo(450000 * 0.15 + 100000 * 0.2, 6);
+    });
+
+    it('scales thresholds and ignores losses', () => {
+      expect(calculateBracketTax(150000, brackets, 2)).toBeCloseTo(50000 * 0.15, 6);
+      expect(calculateBracketTax(-1000, brackets)).toBe(0);
+    });
+  });
+
+  describe('calculateCapitalGainsTax', () => {
+    it('returns 0 when disabled', () => {
+      expect(calculateCapitalGainsTax({ ...flat, enabled: false }, 10000, 10000)).toBe(0);
+    });
+
+    it('applies the short- and long-term flat rates', () => {
+      expect(calculateCapitalGainsTax(flat, 10000, 20000)).toBeCloseTo(3000 + 2000, 6);
+    });
+
+    it('nets a loss of one kind against gains of the other', () => {
+      expect(calculateCapitalGainsTax(flat, -5000, 20000)).toBeCloseTo(1500, 6);
+      expect(calculateCapitalGainsTax(flat, 20000, -5000)).toBeCloseTo(4500, 6);
+      expect(calculateCapitalGainsTax(flat, -30000, 20000)).toBe(0);
+    });
+  });
+
+  describe('sellFromLots', () => {
+    it('sells lots in order and classifies gains by holding period', () => {
+      const sale = sellFromLots(lots, 1.5, 100000, saleDate);
+      expect(sale.longTermGain).toBeCloseTo(90000, 6);
+      expect(sale.shortTermGain).toBeCloseTo(0.5 * 20000, 6);
+      expect(sale.costBasis).toBeCloseTo(10000 + 40000, 6);
+      expect(sale.remainingLots).toEqual([{ ...lots[1], bitcoin: 0.5 }]);
+    });
+
+    it('realizes no gain beyond the lots', () => {
+      const sale = sellFromLots(lots, 3, 100000, saleDate);
+      expect(sale.longTermGain + sale.shortTermGain).toBeCloseTo(90000 + 20000, 6);
+      expect(sale.remainingLots).toEqual([]);
+    });
+  });
+
+  describe('orderLotsForSale', () => {
+    const mixedLots: TaxLot[] = [
+      { acquired: new Date(2020, 0, 1), bitcoin: 1, costBasis: 10000 },
+      { acquired: new Date(2024, 0, 1), bitcoin: 1, costBasis: 120000 },
+      { acquired: new Date(2029, 6, 1), bitcoin: 1, costBasis: 90000 }
+    ];
+    const order = (lotSelection: CapitalGainsTaxInputs['lotSelection']) =>
+      orderLotsForSale(mixedLots, { ...flat, lotSelection }, 100000, saleDate).map(lot => lot.costBasis);
+
+    it('orders by acquisition date for FIFO and LIFO', () => {
+      expect(order('fifo')).toEqual([10000, 120000, 90000]);
+      expect(order('lifo')).toEqual([90000, 120000, 10000]);
+    });
+
+    it('orders by cost basis for HIFO', () => {
+      expect(order('hifo')).toEqual([120000, 90000, 10000]);
+    });
+
+    it('sells losses first, then the least tax per BTC for minimize-tax', () => {
+      // Short-term 10k gain × 30% = 3k per BTC beats long-term 90k gain × 10% = 9k per BTC
+      expect(order('min-tax')).toEqual([120000, 90000, 10000]);
+      expect(orderLotsForSale(mixedLots, { ...flat, lotSelection: 'min-tax', shortTermRate: 0.95 }, 100000, saleDate)
+        .map(lot => lot.costBasis)).toEqual([120000, 10000, 90000]);
+    });
+
+    it('does not change the given lots', () => {
+      order('lifo');
+      expect(mixedLots[0].costBasis).toBe(10000);
+    });
+  });
+
+  describe('calculateUnrealizedGain', () => {
+    it('adds up the gain of every lot at the price', () => {
+      expect(calculateUnrealizedGain(lots, 100000)).toBeCloseTo(90000 + 20000, 6);
+      expect(calculateUnrealizedGain([], 100000)).toBe(0);
+    });
+  });
+
+  describe('grossUpBitcoinSale', () => {
+    it('nets the requested proceeds after tax', () => {
+      const sale = grossUpBitcoinSale(flat, lots, 50000, 100000, saleDate);
+      expect(sale.grossProceeds - sale.taxPaid).toBeCloseTo(50000, 1);
+      // Every dollar comes from the long-term lot: gross × 0.9 gain × 10%
+      expect(sale.taxPaid).toBeCloseTo(sale.grossProceeds * 0.9 * 0.1, 1);
+      expect(sale.bitcoinSold).toBeCloseTo(sale.grossProceeds / 100000, 8);
+    });
+
+    it('taxes a second sale in the same year on top of the gains already realized', () => {
+      const brackets: CapitalGainsTaxInputs = { ...DEFAULT_CAPITAL_GAINS_TAX_INPUTS, enabled: true, mode: 'brackets' };
+      const longTermLot: TaxLot[] = [{ acquired: new Date(2020, 0, 1), bitcoin: 10, costBasis: 10000 }];
+      const whole = grossUpBitcoinSale(brackets, longTermLot, 120000, 100000, saleDate);
+      const first = grossUpBitcoinSale(brackets, longTermLot, 60000, 100000, saleDate);
+      const second = grossUpBitcoinSale(brackets, first.remainingLots, 60000, 100000, saleDate, 1, first);
+
+      // The first half mostly falls in the 0% bracket; the second one starts where it left off
+      expect(second.taxPaid).toBeGreaterThan(first.taxPaid);
+      expect(first.taxPaid + second.taxPaid).toBeCloseTo(whole.taxPaid, 0);
+    });
+
+    it('sells exactly the net amount when nothing is taxed', () => {
+      const sale = grossUpBitcoinSale({ ...flat, enabled: false }, lots, 50000, 100000, saleDate);
+      expect(sale.taxPaid).toBe(0);
+      expect(sale.bitcoinSold).toBeCloseTo(0.5, 10);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** Days a lot must be held before its gain counts as long-term */
+export const LONG_TERM_HOLDING_DAYS = 365;
+
+const GROSS_UP_ITERATIONS = 50;
+const GROSS_UP_TOLERANCE = 0.01; // dollars
+
+export type TaxRateMode = 'flat' | 'brackets';
+
+/**
+ * Which lots a sale draws from: oldest, newest, highest cost basis, or the lots with the least tax per BTC
+ */
+export type LotSelectionMethod = 'fifo' | 'lifo' | 'hifo' | 'min-tax';
+
+export const LOT_SELECTION_METHODS: LotSelectionMethod[] = ['fifo', 'lifo', 'hifo', 'min-tax'];
+
+export const LOT_SELECTION_LABELS: Record<LotSelectionMethod, string> = {
+  fifo: 'FIFO (oldest first)',
+  lifo: 'LIFO (newest first)',
+  hifo: 'HIFO (highest cost first)',
+  'min-tax': 'Minimize tax (specific ID)'
+};
+
+/**
+ * Marginal rate on the part of a year's gain above `from` (in today's dollars)
+ */
+export interface TaxBracket {
+  from: number;
+  rate: number;
+}
+
+export interface CapitalGainsTaxInputs {
+  enabled: boolean;
+  mode: TaxRateMode;
+  shortTermRate: number;
+  longTermRate: number;
+  shortTermBrackets: TaxBracket[];
+  longTermBrackets: TaxBracket[];
+  /** Average price paid per BTC for the starting holdings, which count as held long-term */
+  startingCostBasis: number;
+  lotSelection: LotSelectionMethod;
+}
+
+/**
+ * Bitcoin bought at one price on one date
+ */
+export interface TaxLot {
+  acquired: Date;
+  bitcoin: number;
+  /** Price paid per BTC */
+  costBasis: number;
+}
+
+export interface LotSale {
+  remainingLots: TaxLot[];
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+}
+
+/**
+ * Gains already realized earlier in the same tax year
+ */
+export interface RealizedGains {
+  shortTermGain: number;
+  longTermGain: number;
+}
+
+export const NO_REALIZED_GAINS: RealizedGains = { shortTermGain: 0, longTermGain: 0 };
+
+export interface BitcoinSale {
+  /** Bitcoin sold, including the Bitcoin sold to pay the tax */
+  bitcoinSold: number;
+  grossProceeds: number;
+  taxPaid: number;
+  shortTermGain: number;
+  longTermGain: number;
+  remainingLots: TaxLot[];
+}
+
+export const DEFAULT_CAPITAL_GAINS_TAX_INPUTS: CapitalGainsTaxInputs = {
+  enabled: false,
+  mode: 'flat',
+  shortTermRate: 0.24,
+  longTermRate: 0.15,
+  // US single-filer brackets (2024), with only capital gains as income
+  shortTermBrackets: [
+    { from: 0, rate: 0.1 },
+    { from: 11600, rate: 0.12 },
+    { from: 47150, rate: 0.22 },
+    { from: 100525, rate: 0.24 },
+    { from: 191950, rate: 0.32 },
+    { from: 243725, rate: 0.35 },
+    { from: 609350, rate: 0.37 }
+  ],
+  longTermBrackets: [
+    { from: 0, rate: 0 },
+    { from: 47025, rate: 0.15 },
+    { from: 518900, rate: 0.2 }
+  ],
+  startingCostBasis: 30000,
+  lotSelection: 'fifo'
+};
+
+const isLongTerm = (lot: TaxLot, saleDate: Date): boolean => {
+  return (saleDate.getTime() - lot.acquired.getTime()) / MILLISECONDS_PER_DAY >= LONG_TERM_HOLDING_DAYS;
+};
+
+/**
+ * Highest marginal rate for short- or long-term gains, used to rank lots for the minimize-tax method
+ */
+const topRate = (inputs: CapitalGainsTaxInputs, longTerm: boolean): number => {
+  if (inputs.mode === 'flat') {
+    return longTerm ? inputs.longTermRate : inputs.shortTermRate;
+  }
+  const brackets = longTerm ? inputs.longTermBrackets : inputs.shortTermBrackets;
+  return brackets.reduce((rate, bracket) => Math.max(rate, bracket.rate), 0);
+};
+
+/**
+ * Lots in the order a sale should draw from them under the selected method.
+ * Minimize-tax sells losses first, then the lots with the smallest tax per BTC at the top marginal rate.
+ */
+export const orderLotsForSale = (
+  lots: TaxLot[],
+  inputs: CapitalGainsTaxInputs,
+  price: number,
+  saleDate: Date
+): TaxLot[] => {
+  const ordered = [...lots];
+  switch (inputs.lotSelection) {
+    case 'lifo':
+      return ordered.sort((a, b) => b.acquired.getTime() - a.acquired.getTime());
+    case 'hifo':
+      return ordered.sort((a, b) => b.costBasis - a.costBasis);
+    case 'min-tax': {
+      const taxPerBitcoin = (lot: TaxLot) => {
+        const gain = price - lot.costBasis;
+        return gain <= 0 ? gain : gain * topRate(inputs, isLongTerm(lot, saleDate));
+      };
+      return ordered.sort((a, b) => taxPerBitcoin(a) - taxPerBitcoin(b));
+    }
+    default:
+      return ordered.sort((a, b) => a.acquired.getTime() - b.acquired.getTime());
+  }
+};
+
+/**
+ * Gain not yet taxed in the lots at a price
+ */
+export const calculateUnrealizedGain = (lots: TaxLot[], price: number): number => {
+  return lots.reduce((sum, lot) => sum + lot.bitcoin * (price - lot.costBasis), 0);
+};
+
+/**
+ * Progressive tax on a gain; bracket thresholds are multiplied by thresholdScale (e.g. inflation)
+ */
+export const calculateBracketTax = (gain: number, brackets: TaxBracket[], thresholdScale: number = 1): number => {
+  if (gain <= 0) return 0;
+  const sorted = [...brackets].sort((a, b) => a.from - b.from);
+  let tax = 0;
+  sorted.forEach((bracket, index) => {
+    const lower = bracket.from * thresholdScale;
+    const upper = index < sorted.length - 1 ? sorted[index + 1].from * thresholdScale : Infinity;
+    if (gain > lower) {
+      tax += (Math.min(gain, upper) - lower) * bracket.rate;
+    }
+  });
+  return tax;
+};
+
+/**
+ * Tax on a year's realized gains. A net loss of one kind offsets gains of the other;
+ * bracket thresholds are given in today's dollars and indexed by the inflation factor.
+ */
+export const calculateCapitalGainsTax = (
+  inputs: CapitalGainsTaxInputs,
+  shortTermGain: number,
+  longTermGain: number,
+  inflationFactor: number = 1
+): number => {
+  if (!inputs.enabled) return 0;
+
+  let shortTerm = shortTermGain;
+  let longTerm = longTermGain;
+  if (shortTerm < 0) {
+    longTerm += shortTerm;
+    shortTerm = 0;
+  } else if (longTerm < 0) {
+    shortTerm += longTerm;
+    longTerm = 0;
+  }
+
+  if (inputs.mode === 'flat') {
+    return Math.max(0, shortTerm) * inputs.shortTermRate + Math.max(0, longTerm) * inputs.longTermRate;
+  }
+  return calculateBracketTax(shortTerm, inputs.shortTermBrackets, inflationFactor) +
+    calculateBracketTax(longTerm, inputs.longTermBrackets, inflationFactor);
+};
+
+/**
+ * Sell Bitcoin from lots in the order given (FIFO when lots are oldest first).
+ * Bitcoin beyond the lots has no known cost basis and realizes no gain.
+ */
+export const sellFromLots = (lots: TaxLot[], bitcoin: number, price: number, saleDate: Date): LotSale => {
+  const remainingLots: TaxLot[] = [];
+  let toSell = bitcoin;
+  let costBasis = 0;
+  let shortTermGain = 0;
+  let longTermGain = 0;
+
+  lots.forEach(lot => {
+    const sold = Math.min(lot.bitcoin, Math.max(0, toSell));
+    if (sold > 0) {
+      toSell -= sold;
+      costBasis += sold * lot.costBasis;
+      const gain = sold * (price - lot.costBasis);
+      if (isLongTerm(lot, saleDate)) {
+        longTermGain += gain;
+      } else {
+        shortTermGain += gain;
+      }
+    }
+    if (lot.bitcoin - sold > 0) {
+      remainingLots.push({ ...lot, bitcoin: lot.bitcoin - sold });
+    }
+  });
+
+  return { remainingLots, costBasis, shortTermGain, longTermGain };
+};
+
+/**
+ * Sell enough Bitcoin that the proceeds after capital gains tax cover netProceeds,
+ * drawing on the lots in the order of the selected lot selection method.
+ * The sale pays only the tax it adds to the year's total on top of the gains realized earlier that year,
+ * so several sales in one year are taxed like one sale of the same lots.
+ * Solves gross = net + tax(gross) by fixed-point iteration, which converges because the tax
+ * on an extra dollar of proceeds is always below a dollar.
+ */
+export const grossUpBitcoinSale = (
+  inputs: CapitalGainsTaxInputs,
+  lots: TaxLot[],
+  netProceeds: number,
+  price: number,
+  saleDate: Date,
+  inflationFactor: number = 1,
+  yearToDate: RealizedGains = NO_REALIZED_GAINS
+): BitcoinSale => {
+  const orderedLots = orderLotsForSale(lots, inputs, price, saleDate);
+  const taxBefore = calculateCapitalGainsTax(inputs, yearToDate.shortTermGain, yearToDate.longTermGain, inflationFactor);
+  const taxOn = (sale: LotSale) => calculateCapitalGainsTax(
+    inputs,
+    yearToDate.shortTermGain + sale.shortTermGain,
+    yearToDate.longTermGain + sale.longTermGain,
+    inflationFactor
+  ) - taxBefore;
+  let grossProceeds = netProceeds;
+  let sale = sellFromLots(orderedLots, grossProceeds / price, price, saleDate);
+  let taxPaid = taxOn(sale);
+
+  for (let iteration = 0; iteration < GROSS_UP_ITERATIONS; iteration++) {
+    const nextGross = netProceeds + taxPaid;
+    if (Math.abs(nextGross - grossProceeds) < GROSS_UP_TOLERANCE) break;
+    grossProceeds = nextGross;
+    sale = sellFromLots(orderedLots, grossProceeds / price, price, saleDate);
+    taxPaid = taxOn(sale);
+  }
+
+  return {
+    bitcoinSold: grossProceeds / price,
+    grossProceeds,
+    taxPaid,
+    shortTermGain: sale.shortTermGain,
+    longTermGain: sale.longTermGain,
+    remainingLots: sale.remainingLots
+  };
+};
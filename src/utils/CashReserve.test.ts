@@ -0,0 +1,55 @@
+/**
+ * Tests for the cash reserve rules:
+ * - Refill only when enabled and above the ratio threshold
+ * - Refill tops cash up to the target years of expenses
+ * - Refill never sells more Bitcoin than is left
+ * - Buy-back only when enabled and below the ratio threshold, spending cash above the reserve
+ */
+
+import {
+  CashReserveYear,
+  DEFAULT_BUY_BACK_INPUTS,
+  DEFAULT_CASH_REFILL_INPUTS,
+  calculateBuyBack,
+  calculateCashRefill
+} from './CashReserve';
+
+const refill = { ...DEFAULT_CASH_REFILL_INPUTS, enabled: true, aboveRatio: 1.5, yearsOfExpenses: 3 };
+const buyBack = { ...DEFAULT_BUY_BACK_INPUTS, enabled: true, belowRatio: 0.6, reserveYears: 2 };
+
+function makeYear(overrides: Partial<CashReserveYear> = {}): CashReserveYear {
+  return {
+    fairValueRatio: 2,
+    bitcoinPrice: 100000,
+    annualWithdrawal: 40000,
+    cash: 30000,
+    bitcoin: 5,
+    ...overrides
+  };
+}
+
+describe('CashReserve', () => {
+  it('refills nothing when disabled or at or below the threshold', () => {
+    expect(calculateCashRefill(DEFAULT_CASH_REFILL_INPUTS, makeYear())).toBe(0);
+    expect(calculateCashRefill(refill, makeYear({ fairValueRatio: 1.5 }))).toBe(0);
+  });
+
+  it('tops cash up to the target years of this year\'s withdrawal', () => {
+    expect(calculateCashRefill(refill, makeYear())).toBe(120000 - 30000);
+    expect(calculateCashRefill(refill, makeYear({ cash: 150000 }))).toBe(0);
+  });
+
+  it('never sells more Bitcoin than is left', () => {
+    expect(calculateCashRefill(refill, makeYear({ bitcoin: 0.5 }))).toBe(50000);
+  });
+
+  it('buys nothing when disabled or at or above the threshold', () => {
+    expect(calculateBuyBack(DEFAULT_BUY_BACK_INPUTS, makeYear({ fairValueRatio: 0.5, cash: 200000 }))).toBe(0);
+    expect(calculateBuyBack(buyBack, makeYear({ fairValueRatio: 0.6, cash: 200000 }))).toBe(0);
+  });
+
+  it('spends the cash above the reserve years of this year\'s withdrawal', () => {
+    expect(calculateBuyBack(buyBack, makeYear({ fairValueRatio: 0.5, cash: 200000 }))).toBe(200000 - 80000);
+    expect(calculateBuyBack(buyBack, makeYear({ fairValueRatio: 0.5, cash: 50000 }))).toBe(0);
+  });
+});
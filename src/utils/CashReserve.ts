@@ -0,0 +1,62 @@
+/**
+ * Optional rule that rebuilds the cash buffer bear years drain: in overvalued years, sell extra Bitcoin
+ * until cash covers a number of years of expenses
+ */
+export interface CashRefillInputs {
+  enabled: boolean;
+  /** Refill only when the price is above this multiple of fair value */
+  aboveRatio: number;
+  /** Cash target, in years of the current year's withdrawal */
+  yearsOfExpenses: number;
+}
+
+export const DEFAULT_CASH_REFILL_INPUTS: CashRefillInputs = {
+  enabled: false,
+  aboveRatio: 1.2,
+  yearsOfExpenses: 3
+};
+
+/**
+ * Optional rule that acts on the "buying opportunity" advice: when Bitcoin is deeply undervalued,
+ * cash above a minimum reserve is converted into Bitcoin
+ */
+export interface BuyBackInputs {
+  enabled: boolean;
+  /** Buy only when the price is below this multiple of fair value */
+  belowRatio: number;
+  /** Cash kept back, in years of the current year's withdrawal */
+  reserveYears: number;
+}
+
+export const DEFAULT_BUY_BACK_INPUTS: BuyBackInputs = {
+  enabled: false,
+  belowRatio: 0.6,
+  reserveYears: 2
+};
+
+export interface CashReserveYear {
+  fairValueRatio: number;
+  bitcoinPrice: number;
+  /** This year's withdrawal in nominal dollars */
+  annualWithdrawal: number;
+  /** Cash and Bitcoin left after this year's withdrawal */
+  cash: number;
+  bitcoin: number;
+}
+
+/**
+ * Dollars of Bitcoin to sell into cash this year; never more than the Bitcoin left
+ */
+export const calculateCashRefill = (inputs: CashRefillInputs, year: CashReserveYear): number => {
+  if (!inputs.enabled || year.fairValueRatio <= inputs.aboveRatio) return 0;
+  const target = inputs.yearsOfExpenses * year.annualWithdrawal;
+  return Math.max(0, Math.min(target - year.cash, year.bitcoin * year.bitcoinPrice));
+};
+
+/**
+ * Dollars of cash above the reserve to convert into Bitcoin this year
+ */
+export const calculateBuyBack = (inputs: BuyBackInputs, year: CashReserveYear): number => {
+  if (!inputs.enabled || year.fairValueRatio >= inputs.belowRatio) return 0;
+  return Math.max(0, year.cash - inputs.reserveYears * year.annualWithdrawal);
+};
@@ -0,0 +1,58 @@
+/**
+ * Tests for user-defined custom cycle paths:
+ * - Multipliers per retirement year, repeating or holding the last one
+ * - Prices as the year's fair value times its multiplier
+ * - Validation and parsing of a saved library
+ */
+
+import { POWER_LAW_MODEL } from '../models/PriceModel';
+import {
+  CUSTOM_CYCLE_PRESETS,
+  CustomCycle,
+  calculateCustomCyclePrice,
+  getCustomCycleMultiplier,
+  parseCustomCycles,
+  validateCustomCycle
+} from './CustomCycle';
+
+const crash: CustomCycle = { name: 'Crash', multipliers: [0.3, 0.6, 1], repeat: false };
+
+describe('CustomCycle', () => {
+  it('holds the last multiplier after the sequence, or repeats it', () => {
+    expect([0, 1, 2, 3, 10].map(i => getCustomCycleMultiplier(crash, i))).toEqual([0.3, 0.6, 1, 1, 1]);
+    const repeating = { ...crash, repeat: true };
+    expect([0, 1, 2, 3, 4].map(i => getCustomCycleMultiplier(repeating, i))).toEqual([0.3, 0.6, 1, 0.3, 0.6]);
+  });
+
+  it('prices each year at its fair value times the multiplier', () => {
+    const result = calculateCustomCyclePrice(crash, 2030, 0, POWER_LAW_MODEL);
+    expect(result.price).toBeCloseTo(POWER_LAW_MODEL.fairValue(new Date(2030, 0, 1)) * 0.3, 6);
+    expect(result.phase).toBe('Crash (0.30×)');
+    expect(result.cycleYear).toBe(-1);
+  });
+
+  it('accepts the presets and flags unnamed, empty or non-positive paths', () => {
+    CUSTOM_CYCLE_PRESETS.forEach(preset => expect(validateCustomCycle(preset)).toEqual([]));
+    expect(validateCustomCycle({ ...crash, name: ' ' })).toHaveLength(1);
+    expect(validateCustomCycle({ ...crash, multipliers: [] })).toHaveLength(1);
+    expect(validateCustomCycle({ ...crash, multipliers: [0.5, 0] })).toHaveLength(1);
+  });
+
+  it('parses a saved library and rejects malformed or invalid ones', () => {
+    expect(parseCustomCycles(JSON.stringify(CUSTOM_CYCLE_PRESETS))).toEqual({ cycles: CUSTOM_CYCLE_PRESETS, errors: [] });
+    expect(parseCustomCycles('not json').cycles).toBeNull();
+    expect(parseCustomCycles('{"name": "Crash"}').cycles).toBeNull();
+
+    const invalid = parseCustomCycles(JSON.stringify([crash, { ...crash, name: 'Zero', multipliers: [0] }]));
+    expect(invalid.cycles).toBeNull();
+    expect(invalid.errors).toEqual(['Zero: Every multiplier must be greater than zero']);
+
+    // 1e999 parses to Infinity
+    const notNumbers = parseCustomCycles('[{"name": "Text", "multipliers": ["2"]}, {"name": "Huge", "multipliers": [1e999]}]');
+    expect(notNumbers.cycles).toBeNull();
+    expect(notNumbers.errors).toEqual([
+      'Text: Every multiplier must be greater than zero',
+      'Huge: Every multiplier must be greater than zero'
+    ]);
+  });
+});
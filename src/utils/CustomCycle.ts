@@ -0,0 +1,91 @@
+import { PriceModel } from '../models/PriceModel';
+import { CyclePhaseResult } from './RetirementCalculations';
+
+/**
+ * A user-defined price path for the retirement horizon, replacing the built-in worst-case cycle.
+ * Plain data, so it can be saved by name and exchanged as JSON.
+ */
+export interface CustomCycle {
+  name: string;
+  /** Price as a multiple of fair value for each retirement year, starting with the first */
+  multipliers: number[];
+  /** Start the sequence over once it ends; otherwise the last multiplier holds for the rest of the plan */
+  repeat: boolean;
+}
+
+/**
+ * Starting points for the editor; users save their own alongside them
+ */
+export const CUSTOM_CYCLE_PRESETS: CustomCycle[] = [
+  { name: 'Immediate 0.3× crash', multipliers: [0.3, 0.45, 0.7, 1], repeat: false },
+  // Price moving sideways while fair value keeps rising, then back to fair value
+  { name: '5-year crab market', multipliers: [1, 0.8, 0.65, 0.55, 0.5, 1], repeat: false },
+  { name: 'Gentle 4-year cycle', multipliers: [0.7, 0.9, 1.4, 1.2], repeat: true },
+  { name: 'Fair value every year', multipliers: [1], repeat: false }
+];
+
+/**
+ * Problems that would make the path unusable; empty when it is usable
+ */
+export const validateCustomCycle = (cycle: CustomCycle): string[] => {
+  const errors: string[] = [];
+  if (cycle.name.trim() === '') {
+    errors.push('Give the scenario a name');
+  }
+  if (cycle.multipliers.length === 0) {
+    errors.push('Add at least one year');
+  }
+  // A saved library is untrusted JSON, so numeric strings and overflowed values are rejected too
+  if (cycle.multipliers.some(multiplier => !(typeof multiplier === 'number' && Number.isFinite(multiplier) && multiplier > 0))) {
+    errors.push('Every multiplier must be greater than zero');
+  }
+  return errors;
+};
+
+/**
+ * Fair value multiple for a retirement year (0 = first year)
+ */
+export const getCustomCycleMultiplier = (cycle: CustomCycle, yearIndex: number): number => {
+  const { multipliers, repeat } = cycle;
+  return repeat
+    ? multipliers[yearIndex % multipliers.length]
+    : multipliers[Math.min(yearIndex, multipliers.length - 1)];
+};
+
+/**
+ * Price of a calendar year on the custom path: the year's fair value times its multiplier
+ */
+export const calculateCustomCyclePrice = (
+  cycle: CustomCycle,
+  year: number,
+  yearIndex: number,
+  priceModel: PriceModel
+): CyclePhaseResult => {
+  const multiplier = getCustomCycleMultiplier(cycle, yearIndex);
+  return {
+    price: priceModel.fairValue(new Date(year, 0, 1)) * multiplier,
+    phase: `${cycle.name} (${multiplier.toFixed(2)}×)`,
+    cycleYear: -1
+  };
+};
+
+/**
+ * Parse a saved library of custom paths; returns the paths only when every one is valid
+ */
+export const parseCustomCycles = (json: string): { cycles: CustomCycle[] | null; errors: string[] } => {
+  let parsed: CustomCycle[];
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { cycles: null, errors: ['The library is not valid JSON'] };
+  }
+  if (!Array.isArray(parsed) || parsed.some(cycle => !cycle || typeof cycle.name !== 'string' || !Array.isArray(cycle.multipliers))) {
+    return { cycles: null, errors: ['The library needs a list of scenarios with a name and multipliers'] };
+  }
+  const errors = parsed.reduce<string[]>(
+    (all, cycle) => all.concat(validateCustomCycle(cycle).map(error => `${cycle.name || 'Unnamed'}: ${error}`)),
+    []
+  );
+  const cycles = parsed.map(cycle => ({ name: cycle.name, multipliers: cycle.multipliers, repeat: Boolean(cycle.repeat) }));
+  return { cycles: errors.length === 0 ? cycles : null, errors };
+};
@@ -0,0 +1,83 @@
+/**
+ * Tests for the halving-anchored cycle calendar:
+ * - Block height and future halving estimates at the average block time
+ * - Latest halving before a date
+ * - Cycle years on past and projected calendars, moved by the peak and trough offsets
+ * - Validation of the settings
+ */
+
+import {
+  DEFAULT_CYCLE_CALENDAR,
+  HALVING_INTERVAL_BLOCKS,
+  PAST_HALVINGS,
+  estimateBlockHeight,
+  getCycleYear,
+  getHalving,
+  getHalvingBefore,
+  getUpcomingHalvings,
+  validateCycleCalendar
+} from './CycleCalendar';
+
+describe('CycleCalendar', () => {
+  it('estimates block height from the last halving at the average block time', () => {
+    const lastHalving = PAST_HALVINGS[PAST_HALVINGS.length - 1];
+    expect(estimateBlockHeight(lastHalving.date)).toBe(840000);
+    expect(estimateBlockHeight(new Date(2024, 3, 21))).toBe(840000 + 144);
+    expect(estimateBlockHeight(new Date(2024, 3, 21), { ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 12 })).toBe(840000 + 120);
+  });
+
+  it('keeps recorded halving dates and projects later ones from the block time', () => {
+    expect(getHalving(630000)).toEqual(PAST_HALVINGS[2]);
+
+    const next = getHalving(840000 + HALVING_INTERVAL_BLOCKS);
+    expect(next.confirmed).toBe(false);
+    expect(next.date.getFullYear()).toBe(2028);
+    const slower = getHalving(840000 + HALVING_INTERVAL_BLOCKS, { ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 10.5 });
+    expect(slower.date.getTime()).toBeGreaterThan(next.date.getTime());
+  });
+
+  it('finds the latest halving before a date and the ones after it', () => {
+    expect(getHalvingBefore(new Date(2022, 0, 1)).height).toBe(630000);
+    expect(getHalvingBefore(new Date(2030, 0, 1)).height).toBe(1050000);
+    expect(getHalvingBefore(new Date(2010, 0, 1)).height).toBe(210000);
+    expect(getHalvingBefore(new Date(2024, 3, 20)).height).toBe(840000);
+    expect(getHalvingBefore(getHalving(1050000).date).height).toBe(1050000);
+    expect(getUpcomingHalvings(new Date(2026, 0, 1), 2).map(halving => halving.height)).toEqual([1050000, 1260000]);
+  });
+
+  it('finds the halving before a far-future date without stepping through every cycle', () => {
+    const date = new Date(2500, 0, 1);
+    const halving = getHalvingBefore(date, { ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 5 });
+    expect(halving.date.getTime()).toBeLessThanOrEqual(date.getTime());
+    expect(getHalving(halving.height + HALVING_INTERVAL_BLOCKS, { ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 5 }).date.getTime())
+      .toBeGreaterThan(date.getTime());
+  });
+
+  it('places past bull, peak, bear and recovery years on their halvings', () => {
+    const cycleYearOn = (year: number) => getCycleYear(new Date(year, 0, 1));
+    // 2020 halving: bull into the Nov 2021 peak, bottom in Nov 2022, recovery into the 2024 halving
+    expect([2021, 2022, 2023, 2024].map(cycleYearOn)).toEqual([2, 3, 0, 1]);
+    // 2016 halving: Dec 2017 peak, Dec 2018 bottom
+    expect([2017, 2018, 2019, 2020].map(cycleYearOn)).toEqual([2, 3, 0, 1]);
+  });
+
+  it('moves the phases with the peak and trough offsets', () => {
+    const january2026 = new Date(2026, 0, 1);
+    expect(getCycleYear(january2026)).toBe(3);
+    expect(getCycleYear(january2026, { ...DEFAULT_CYCLE_CALENDAR, peakOffsetMonths: 30, troughOffsetMonths: 42 })).toBe(2);
+    expect(getCycleYear(january2026, { ...DEFAULT_CYCLE_CALENDAR, peakOffsetMonths: 12, troughOffsetMonths: 24 })).toBe(0);
+  });
+
+  it('flags block times and offsets that would make the calendar ambiguous', () => {
+    expect(validateCycleCalendar(DEFAULT_CYCLE_CALENDAR)).toEqual([]);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 0 })).toHaveLength(1);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 0.001 })).toHaveLength(1);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 600 })).toHaveLength(1);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, peakOffsetMonths: 2 })).toHaveLength(1);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, troughOffsetMonths: 20 })).toHaveLength(1);
+    // A 5-minute block time halves the cycle to about 24 months, leaving no room for the default peak and trough
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, averageBlockMinutes: 5 })).toHaveLength(2);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, troughOffsetMonths: 44 })).toHaveLength(1);
+    expect(validateCycleCalendar({ ...DEFAULT_CYCLE_CALENDAR, troughOffsetMonths: 40 })).toEqual([]);
+  });
+});
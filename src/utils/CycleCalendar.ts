@@ -0,0 +1,143 @@
+/**
+ * Settings that place the 4-year cycle on the calendar. Future halvings are estimated from the last known
+ * halving's block height at the average block time; peaks and troughs sit a number of months after each halving.
+ */
+export interface CycleCalendarSettings {
+  /** Average time between blocks, used to project future halvings (10 minutes is the protocol target) */
+  averageBlockMinutes: number;
+  /** Months from a halving to the cycle peak */
+  peakOffsetMonths: number;
+  /** Months from a halving to the cycle trough */
+  troughOffsetMonths: number;
+}
+
+export interface Halving {
+  height: number;
+  date: Date;
+  /** False for halvings projected from the average block time */
+  confirmed: boolean;
+}
+
+/** Blocks between halvings */
+export const HALVING_INTERVAL_BLOCKS = 210000;
+
+/** Halvings that have already happened */
+export const PAST_HALVINGS: Halving[] = [
+  { height: 210000, date: new Date(2012, 10, 28), confirmed: true },
+  { height: 420000, date: new Date(2016, 6, 9), confirmed: true },
+  { height: 630000, date: new Date(2020, 4, 11), confirmed: true },
+  { height: 840000, date: new Date(2024, 3, 20), confirmed: true }
+];
+
+/**
+ * Past cycles peaked 12-18 months after the halving (Dec 2013, Dec 2017, Nov 2021)
+ * and bottomed about a year later (Jan 2015, Dec 2018, Nov 2022)
+ */
+export const DEFAULT_CYCLE_CALENDAR: CycleCalendarSettings = {
+  averageBlockMinutes: 10,
+  peakOffsetMonths: 18,
+  troughOffsetMonths: 30
+};
+
+/** Average block times the calendar accepts; difficulty adjustments keep the real average close to 10 minutes */
+export const MIN_AVERAGE_BLOCK_MINUTES = 5;
+export const MAX_AVERAGE_BLOCK_MINUTES = 20;
+
+// The peak and the trough each sit in the middle of a year-long phase
+const PHASE_HALF_WIDTH_MONTHS = 6;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_MONTH = 365.25 / 12 * 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * Problems that would make the calendar ambiguous; empty when it is usable
+ */
+export const validateCycleCalendar = (settings: CycleCalendarSettings): string[] => {
+  const errors: string[] = [];
+  if (!(settings.averageBlockMinutes >= MIN_AVERAGE_BLOCK_MINUTES && settings.averageBlockMinutes <= MAX_AVERAGE_BLOCK_MINUTES)) {
+    errors.push(`Average block time must be between ${MIN_AVERAGE_BLOCK_MINUTES} and ${MAX_AVERAGE_BLOCK_MINUTES} minutes`);
+  } else {
+    // Each phase must end before the next halving, or the later phases never come round
+    const intervalMonths = HALVING_INTERVAL_BLOCKS * settings.averageBlockMinutes * MS_PER_MINUTE / MS_PER_MONTH;
+    if (settings.peakOffsetMonths + PHASE_HALF_WIDTH_MONTHS > intervalMonths) {
+      errors.push(`The peak must come at least ${PHASE_HALF_WIDTH_MONTHS} months before the next halving, about ${Math.floor(intervalMonths)} months after the last`);
+    }
+    if (settings.troughOffsetMonths + PHASE_HALF_WIDTH_MONTHS > intervalMonths) {
+      errors.push(`The trough must come at least ${PHASE_HALF_WIDTH_MONTHS} months before the next halving, about ${Math.floor(intervalMonths)} months after the last`);
+    }
+  }
+  if (settings.peakOffsetMonths < PHASE_HALF_WIDTH_MONTHS) {
+    errors.push(`The peak must come at least ${PHASE_HALF_WIDTH_MONTHS} months after the halving`);
+  }
+  if (settings.troughOffsetMonths - settings.peakOffsetMonths < 2 * PHASE_HALF_WIDTH_MONTHS) {
+    errors.push(`The trough must come at least ${2 * PHASE_HALF_WIDTH_MONTHS} months after the peak`);
+  }
+  return errors;
+};
+
+const lastPastHalving = (): Halving => PAST_HALVINGS[PAST_HALVINGS.length - 1];
+
+/**
+ * Estimated block height on a date, counted from the last known halving at the average block time
+ */
+export const estimateBlockHeight = (date: Date, settings: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR): number => {
+  const anchor = lastPastHalving();
+  const minutes = (date.getTime() - anchor.date.getTime()) / MS_PER_MINUTE;
+  return Math.max(0, Math.floor(anchor.height + minutes / settings.averageBlockMinutes));
+};
+
+/**
+ * Date of the halving at a block height: the recorded date for past halvings, otherwise estimated
+ */
+export const getHalving = (height: number, settings: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR): Halving => {
+  const past = PAST_HALVINGS.find(halving => halving.height === height);
+  if (past) return past;
+  const anchor = lastPastHalving();
+  const minutes = (height - anchor.height) * settings.averageBlockMinutes;
+  return { height, date: new Date(anchor.date.getTime() + minutes * MS_PER_MINUTE), confirmed: false };
+};
+
+/**
+ * The latest halving on or before a date (the first recorded halving for earlier dates).
+ * After the last known halving the number of halving intervals since it is computed directly.
+ */
+export const getHalvingBefore = (date: Date, settings: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR): Halving => {
+  const anchor = lastPastHalving();
+  if (date.getTime() < anchor.date.getTime()) {
+    const past = PAST_HALVINGS.filter(halving => halving.date.getTime() <= date.getTime());
+    return past.length > 0 ? past[past.length - 1] : PAST_HALVINGS[0];
+  }
+  const intervalMinutes = HALVING_INTERVAL_BLOCKS * settings.averageBlockMinutes;
+  const intervals = Math.floor((date.getTime() - anchor.date.getTime()) / MS_PER_MINUTE / intervalMinutes);
+  return getHalving(anchor.height + intervals * HALVING_INTERVAL_BLOCKS, settings);
+};
+
+/**
+ * Halvings after a date, oldest first
+ */
+export const getUpcomingHalvings = (
+  date: Date,
+  count: number,
+  settings: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR
+): Halving[] => {
+  const halvings: Halving[] = [];
+  let height = getHalvingBefore(date, settings).height + HALVING_INTERVAL_BLOCKS;
+  while (halvings.length < count) {
+    halvings.push(getHalving(height, settings));
+    height += HALVING_INTERVAL_BLOCKS;
+  }
+  return halvings;
+};
+
+/**
+ * Cycle year on a date, counted in months since the latest halving:
+ * 2 = bull run up to the peak, 3 = peak and correction, 0 = deep bear around the trough, 1 = recovery until the next halving
+ */
+export const getCycleYear = (date: Date, settings: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR): number => {
+  const halving = getHalvingBefore(date, settings);
+  const months = (date.getTime() - halving.date.getTime()) / MS_PER_MONTH;
+  if (months < settings.peakOffsetMonths - PHASE_HALF_WIDTH_MONTHS) return 2;
+  if (months < settings.troughOffsetMonths - PHASE_HALF_WIDTH_MONTHS) return 3;
+  if (months < settings.troughOffsetMonths + PHASE_HALF_WIDTH_MONTHS) return 0;
+  return 1;
+};
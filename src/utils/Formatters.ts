@@ -0,0 +1,19 @@
+/**
+ * Compact dollar formatting for chart axes and summary values ($1.23M, $45K, $6.78)
+ */
+export const formatPrice = (value: number): string => {
+  if (value >= 1000000) {
+    return `$${(value / 1000000).toFixed(2)}M`;
+  } else if (value >= 1000) {
+    return `$${(value / 1000).toFixed(0)}K`;
+  } else {
+    return `$${value.toFixed(2)}`;
+  }
+};
+
+/**
+ * Multiple of fair value without trailing zeros (0.42x, 2x, 1.35x)
+ */
+export const formatMultiplier = (value: number): string => {
+  return `${parseFloat(value.toFixed(2))}x`;
+};
@@ -0,0 +1,99 @@
+/**
+ * Tests for the historical-sequence backtest:
+ * - Daily ratio series built from actual prices (gaps filled)
+ * - One outcome per start date, history wraps past the last data point
+ * - Worst start dates and outcome distribution
+ */
+
+import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { BitcoinPriceData } from '../types/Bitcoin';
+import { buildDailyRatioSeries, runHistoricalBacktest } from './HistoricalBacktest';
+import { makeTestScenario } from './testScenario';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+function makePoint(timestamp: number, ratio: number): BitcoinPriceData {
+  const date = new Date(timestamp);
+  return {
+    date: date.toISOString().split('T')[0],
+    price: BitcoinPowerLaw.calculateFairValue(date) * ratio,
+    timestamp
+  };
+}
+
+// Two years of history: a year at 0.5x followed by a year at 2x
+function makeHistory(): BitcoinPriceData[] {
+  const start = Date.UTC(2020, 0, 1);
+  const points: BitcoinPriceData[] = [];
+  for (let day = 0; day < 730; day++) {
+    points.push(makePoint(start + day * MILLISECONDS_PER_DAY, day < 365 ? 0.5 : 2.0));
+  }
+  return points;
+}
+
+describe('HistoricalBacktest', () => {
+  describe('buildDailyRatioSeries', () => {
+    it('fills missing days with the previous ratio', () => {
+      const start = Date.UTC(2020, 0, 1);
+      const series = buildDailyRatioSeries([
+        makePoint(start + 3 * MILLISECONDS_PER_DAY, 2.0),
+        makePoint(start, 1.0)
+      ]);
+      expect(series.map(s => s.date)).toEqual(['2020-01-01', '2020-01-02', '2020-01-03', '2020-01-04']);
+      expect(series.map(s => s.ratio)).toEqual([1.0, 1.0, 1.0, 2.0].map(r => expect.closeTo(r, 10)));
+    });
+
+    it('returns an empty series without prices', () => {
+      expect(buildDailyRatioSeries([])).toEqual([]);
+    });
+  });
+
+  describe('runHistoricalBacktest', () => {
+    const history = makeHistory();
+
+    it('returns null without assets or with less than a year of history', () => {
+      expect(runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 0 } }), history)).toBeNull();
+      expect(runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 30000 } }), history.slice(0, 100))).toBeNull();
+    });
+
+    it('produces one outcome per start date', () => {
+      const result = runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 30000 } }), history, { stepDays: 1, worstCount: 10 })!;
+      expect(result.outcomes).toHaveLength(730);
+      expect(runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 30000 } }), history)!.outcomes).toHaveLength(Math.ceil(730 / 30));
+      expect(result.outcomes[0].startDate).toBe('2020-01-01');
+      expect(result.outcomes[0].startRatio).toBeCloseTo(0.5, 10);
+
+      const stepped = runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 30000 } }), history, { stepDays: 7, worstCount: 5 })!;
+      expect(stepped.outcomes).toHaveLength(Math.ceil(730 / 7));
+      expect(stepped.worstOutcomes).toHaveLength(5);
+    });
+
+    it('a well-funded plan survives every start date', () => {
+      const result = runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 20, cashAmount: 100000, annualWithdrawal: 30000 } }), history, { stepDays: 30, worstCount: 10 })!;
+      expect(result.successRate).toBe(1);
+      expect(result.worstOutcomes.every(o => o.depletionYear === null)).toBe(true);
+    });
+
+    it('starting in the cheap year is worse than starting in the expensive year', () => {
+      const result = runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 1.2, cashAmount: 0, annualWithdrawal: 60000 } }), history, { stepDays: 1, worstCount: 10 })!;
+      const cheapStart = result.outcomes[0];
+      const expensiveStart = result.outcomes[365];
+      expect(cheapStart.yearsLasted).toBeLessThanOrEqual(expensiveStart.yearsLasted);
+      expect(result.worstOutcomes[0].yearsLasted).toBeLessThanOrEqual(result.worstOutcomes[9].yearsLasted);
+    });
+
+    it('distribution buckets account for every start date', () => {
+      const result = runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 1.2, cashAmount: 0, annualWithdrawal: 60000 } }), history, { stepDays: 5, worstCount: 10 })!;
+      const total = result.yearsLastedDistribution.reduce((sum, bucket) => sum + bucket.count, 0);
+      expect(total).toBe(result.outcomes.length);
+    });
+
+    it('reports depletion years as calendar years of the plan', () => {
+      const result = runHistoricalBacktest(makeTestScenario({ retirementInputs: { bitcoinAmount: 0.1, cashAmount: 0, annualWithdrawal: 200000 } }), history, { stepDays: 30, worstCount: 10 })!;
+      expect(result.successRate).toBe(0);
+      result.worstOutcomes.forEach(o => {
+        expect(o.depletionYear).toBe(result.retirementStartYear + o.yearsLasted - 1);
+      });
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { BitcoinPowerLaw, PUBLISHED_POWER_LAW_PARAMETERS, PowerLawParameters } from '../models/PowerLaw';
+import { BitcoinPriceData, RetirementScenario } from '../types/Bitcoin';
+import { CyclePhaseResult } from './RetirementCalculations';
+import {
+  RETIREMENT_YEARS,
+  evaluateRetirementPlan,
+  findDepletionIndex,
+  simulateWithdrawalPhase,
+  withdrawalPhaseSucceeds
+} from './RetirementEngine';
+import { SerializedScenario } from './SuccessHeatmap';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+const DAYS_PER_YEAR = 365;
+
+export interface BacktestOutcome {
+  startDate: string;
+  startRatio: number;
+  succeeded: boolean;
+  yearsLasted: number;
+  depletionYear: number | null;
+  terminalValue: number;
+}
+
+export interface BacktestDistributionBucket {
+  label: string;
+  count: number;
+}
+
+export interface HistoricalBacktestResult {
+  retirementStartYear: number;
+  outcomes: BacktestOutcome[];
+  successRate: number;
+  worstOutcomes: BacktestOutcome[];
+  yearsLastedDistribution: BacktestDistributionBucket[];
+}
+
+export interface HistoricalBacktestOptions {
+  /** Days between consecutive start dates (1 = every day) */
+  stepDays: number;
+  worstCount: number;
+}
+
+export interface HistoricalBacktestRequest {
+  id: number;
+  scenario: SerializedScenario;
+  prices: BitcoinPriceData[];
+  options: HistoricalBacktestOptions;
+  powerLawParameters: PowerLawParameters;
+}
+
+export interface HistoricalBacktestResponse {
+  id: number;
+  result: HistoricalBacktestResult | null;
+}
+
+/**
+ * One start date every 30 days keeps a run to a few hundred plans instead of one per day of history
+ */
+export const DEFAULT_BACKTEST_OPTIONS: HistoricalBacktestOptions = {
+  stepDays: 30,
+  worstCount: 10
+};
+
+/**
+ * Daily price-to-fair-value ratios from actual prices, one entry per calendar day.
+ * Ratios are measured against the Power Law with the given parameters, the trend the history was fitted to.
+ * Days missing from the data repeat the previous day's ratio.
+ */
+export const buildDailyRatioSeries = (
+  prices: BitcoinPriceData[],
+  parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS
+): Array<{ date: string; ratio: number }> => {
+  const points = prices
+    .filter(point => point.price > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  if (points.length === 0) return [];
+
+  const ratioAt = (point: BitcoinPriceData) => point.price / BitcoinPowerLaw.calculateFairValue(new Date(point.timestamp), parameters);
+  const firstDay = Math.floor(points[0].timestamp / MILLISECONDS_PER_DAY);
+  const lastDay = Math.floor(points[points.length - 1].timestamp / MILLISECONDS_PER_DAY);
+  const series: Array<{ date: string; ratio: number }> = [];
+  let pointIndex = 0;
+  let ratio = ratioAt(points[0]);
+
+  for (let day = firstDay; day <= lastDay; day++) {
+    while (pointIndex < points.length && Math.floor(points[pointIndex].timestamp / MILLISECONDS_PER_DAY) <= day) {
+      ratio = ratioAt(points[pointIndex]);
+      pointIndex++;
+    }
+    series.push({ date: new Date(day * MILLISECONDS_PER_DAY).toISOString().split('T')[0], ratio });
+  }
+
+  return series;
+};
+
+const bucketYearsLasted = (outcomes: BacktestOutcome[]): BacktestDistributionBucket[] => {
+  const buckets: BacktestDistributionBucket[] = [];
+  for (let first = 1; first <= RETIREMENT_YEARS; first += 10) {
+    const last = Math.min(RETIREMENT_YEARS, first + 9);
+    buckets.push({
+      label: `Depleted in years ${first}–${last}`,
+      count: outcomes.filter(o => o.depletionYear !== null && o.yearsLasted >= first && o.yearsLasted <= last).length
+    });
+  }
+  // Lasted the full horizon on cash alone: fails the "Bitcoin left at the end" rule
+  buckets.push({ label: 'Out of Bitcoin at year 50', count: outcomes.filter(o => !o.succeeded && o.depletionYear === null).length });
+  buckets.push({ label: 'Survived 50 years', count: outcomes.filter(o => o.succeeded).length });
+  return buckets;
+};
+
+/**
+ * Replay history as the retirement market path: each historical start date is one scenario.
+ * Year k of retirement uses the fair value ratio observed k years after the start date, applied to
+ * the scenario model's fair value of the plan year. History is shorter than 50 years, so the sequence wraps
+ * around to the start of the data once it runs past the last data point.
+ * Returns null when the scenario has nothing to simulate or there is less than a year of history.
+ */
+export const runHistoricalBacktest = (
+  scenario: RetirementScenario,
+  prices: BitcoinPriceData[],
+  options: HistoricalBacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+  powerLawParameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS
+): HistoricalBacktestResult | null => {
+  const plan = evaluateRetirementPlan(scenario);
+  const series = buildDailyRatioSeries(prices, powerLawParameters);
+  if (!plan || series.length < DAYS_PER_YEAR) {
+    return null;
+  }
+
+  const { retirementStartYear, bitcoinAtRetirement } = plan;
+  const outcomes: BacktestOutcome[] = [];
+
+  for (let startIndex = 0; startIndex < series.length; startIndex += Math.max(1, options.stepDays)) {
+    const withdrawalYears = simulateWithdrawalPhase(
+      scenario,
+      retirementStartYear,
+      bitcoinAtRetirement,
+      (year, yearIndex): CyclePhaseResult => {
+        const { date, ratio } = series[(startIndex + yearIndex * DAYS_PER_YEAR) % series.length];
+        return {
+          price: scenario.priceModel.fairValue(new Date(year, 0, 1)) * ratio,
+          phase: `Replay of ${date} (${ratio.toFixed(2)}x)`,
+          cycleYear: -1
+        };
+      }
+    );
+
+    const depletionIndex = findDepletionIndex(withdrawalYears);
+    const finalYear = withdrawalYears[withdrawalYears.length - 1];
+    outcomes.push({
+      startDate: series[startIndex].date,
+      startRatio: series[startIndex].ratio,
+      succeeded: withdrawalPhaseSucceeds(withdrawalYears),
+      yearsLasted: depletionIndex >= 0 ? depletionIndex + 1 : withdrawalYears.length,
+      depletionYear: depletionIndex >= 0 ? withdrawalYears[depletionIndex].year : null,
+      terminalValue: Math.max(0, finalYear.totalRemainingValue)
+    });
+  }
+
+  const worstOutcomes = [...outcomes]
+    .sort((a, b) => a.yearsLasted - b.yearsLasted || a.terminalValue - b.terminalValue)
+    .slice(0, options.worstCount);
+
+  return {
+    retirementStartYear,
+    outcomes,
+    successRate: outcomes.filter(o => o.succeeded).length / outcomes.length,
+    worstOutcomes,
+    yearsLastedDistribution: bucketYearsLasted(outcomes)
+  };
+};
@@ -0,0 +1,67 @@
+/**
+ * Tests for the inflation assumption:
+ * - Constant rate and per-year schedule
+ * - Cumulative price level between two years
+ * - Conversion back to today's dollars
+ */
+
+import {
+  DEFAULT_INFLATION_INPUTS,
+  InflationInputs,
+  NO_INFLATION,
+  calculateInflationFactor,
+  getInflationRate,
+  toTodaysDollars
+} from './Inflation';
+
+describe('Inflation', () => {
+  const constant: InflationInputs = { mode: 'constant', annualRate: 0.03, schedule: [] };
+  const schedule: InflationInputs = {
+    mode: 'schedule',
+    annualRate: 0.02,
+    schedule: [
+      { fromYear: 2035, rate: 0.01 },
+      { fromYear: 2030, rate: 0.06 }
+    ]
+  };
+
+  describe('getInflationRate', () => {
+    it('uses the annual rate every year in constant mode', () => {
+      expect(getInflationRate(constant, 2026)).toBe(0.03);
+      expect(getInflationRate({ ...constant, schedule: schedule.schedule }, 2040)).toBe(0.03);
+    });
+
+    it('uses the latest period that has started in schedule mode', () => {
+      expect(getInflationRate(schedule, 2029)).toBe(0.02);
+      expect(getInflationRate(schedule, 2030)).toBe(0.06);
+      expect(getInflationRate(schedule, 2034)).toBe(0.06);
+      expect(getInflationRate(schedule, 2035)).toBe(0.01);
+      expect(getInflationRate(schedule, 2070)).toBe(0.01);
+    });
+  });
+
+  describe('calculateInflationFactor', () => {
+    it('is 1 without inflation, by default, or without elapsed years', () => {
+      expect(calculateInflationFactor(NO_INFLATION, 2026, 2076)).toBe(1);
+      expect(calculateInflationFactor(DEFAULT_INFLATION_INPUTS, 2026, 2076)).toBe(1);
+      expect(calculateInflationFactor(constant, 2026, 2026)).toBe(1);
+      expect(calculateInflationFactor(constant, 2030, 2026)).toBe(1);
+    });
+
+    it('compounds a constant rate', () => {
+      expect(calculateInflationFactor(constant, 2026, 2036)).toBeCloseTo(Math.pow(1.03, 10), 10);
+    });
+
+    it('compounds each year of a schedule at its own rate', () => {
+      const expected = Math.pow(1.02, 2) * Math.pow(1.06, 5) * Math.pow(1.01, 3);
+      expect(calculateInflationFactor(schedule, 2028, 2038)).toBeCloseTo(expected, 10);
+    });
+  });
+
+  describe('toTodaysDollars', () => {
+    it('divides nominal amounts by the price level', () => {
+      expect(toTodaysDollars(121000, 1.21)).toBeCloseTo(100000, 6);
+      expect(toTodaysDollars(5000, 1)).toBe(5000);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+export type InflationMode = 'constant' | 'schedule';
+
+/**
+ * Inflation rate from a calendar year until the next period starts
+ */
+export interface InflationRatePeriod {
+  fromYear: number;
+  /** Yearly inflation (0.03 = 3%) */
+  rate: number;
+}
+
+export interface InflationInputs {
+  mode: InflationMode;
+  /** Yearly inflation in constant mode, and before the first period in schedule mode */
+  annualRate: number;
+  schedule: InflationRatePeriod[];
+}
+
+/**
+ * Withdrawals stay in today's dollars for the whole plan
+ */
+export const NO_INFLATION: InflationInputs = {
+  mode: 'constant',
+  annualRate: 0,
+  schedule: []
+};
+
+/**
+ * Inflation is off until a rate or schedule is entered
+ */
+export const DEFAULT_INFLATION_INPUTS: InflationInputs = NO_INFLATION;
+
+/**
+ * Inflation rate applied during a calendar year
+ */
+export const getInflationRate = (inflation: InflationInputs, year: number): number => {
+  if (inflation.mode === 'constant') {
+    return inflation.annualRate;
+  }
+  let rate = inflation.annualRate;
+  let periodStart = -Infinity;
+  inflation.schedule.forEach(period => {
+    if (period.fromYear <= year && period.fromYear >= periodStart) {
+      rate = period.rate;
+      periodStart = period.fromYear;
+    }
+  });
+  return rate;
+};
+
+/**
+ * Cumulative price level on January 1st of toYear relative to January 1st of fromYear
+ * (1 when toYear is not after fromYear)
+ */
+export const calculateInflationFactor = (inflation: InflationInputs, fromYear: number, toYear: number): number => {
+  let factor = 1;
+  for (let year = fromYear; year < toYear; year++) {
+    factor *= 1 + getInflationRate(inflation, year);
+  }
+  return factor;
+};
+
+/**
+ * Nominal amount in a year expressed in today's purchasing power
+ */
+export const toTodaysDollars = (nominalAmount: number, inflationFactor: number): number => {
+  return inflationFactor > 0 ? nominalAmount / inflationFactor : nominalAmount;
+};
@@ -0,0 +1,143 @@
+/**
+ * Tests for the Monte Carlo mode:
+ * - Seeded randomness and percentiles
+ * - Fitting the fair-value-ratio process from price history
+ * - Ratio paths stay inside the Power Law band
+ * - Reproducible success probability, terminal medians and percentile bands
+ */
+
+import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { BitcoinPriceData } from '../types/Bitcoin';
+import {
+  calculatePercentile,
+  createSeededRandom,
+  fitFairValueRatioProcess,
+  generateRatioPath,
+  runMonteCarloSimulation
+} from './MonteCarloSimulation';
+import { RETIREMENT_YEARS } from './RetirementEngine';
+import { makeTestScenario } from './testScenario';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Daily prices oscillating around fair value on a 4-year cycle (0.5x to 2x)
+function makeCyclicalHistory(days: number = 365 * 8): BitcoinPriceData[] {
+  const start = Date.UTC(2016, 0, 1);
+  const prices: BitcoinPriceData[] = [];
+  for (let day = 0; day < days; day++) {
+    const timestamp = start + day * MILLISECONDS_PER_DAY;
+    const ratio = Math.exp(Math.log(2) * Math.sin((2 * Math.PI * day) / (365 * 4)));
+    prices.push({
+      date: new Date(timestamp).toISOString().split('T')[0],
+      price: BitcoinPowerLaw.calculateFairValue(new Date(timestamp)) * ratio,
+      timestamp
+    });
+  }
+  return prices;
+}
+
+describe('MonteCarloSimulation', () => {
+  const history = makeCyclicalHistory();
+  const process = fitFairValueRatioProcess(history)!;
+
+  describe('createSeededRandom', () => {
+    it('produces the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      for (let i = 0; i < 5; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('produces values in [0, 1)', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('calculatePercentile', () => {
+    it('interpolates between sorted values', () => {
+      const sorted = [0, 10, 20, 30, 40];
+      expect(calculatePercentile(sorted, 0)).toBe(0);
+      expect(calculatePercentile(sorted, 50)).toBe(20);
+      expect(calculatePercentile(sorted, 100)).toBe(40);
+      expect(calculatePercentile(sorted, 12.5)).toBeCloseTo(5, 10);
+    });
+
+    it('returns 0 for an empty array', () => {
+      expect(calculatePercentile([], 50)).toBe(0);
+    });
+  });
+
+  describe('fitFairValueRatioProcess', () => {
+    it('returns null without enough history for one horizon', () => {
+      expect(fitFairValueRatioProcess(makeCyclicalHistory(100))).toBeNull();
+    });
+
+    it('fits one residual per day pair one year apart', () => {
+      expect(process.historicalLogRatios).toHaveLength(history.length);
+      expect(process.residuals).toHaveLength(history.length - 365);
+    });
+
+    it('residuals average to zero', () => {
+      const mean = process.residuals.reduce((sum, r) => sum + r, 0) / process.residuals.length;
+      expect(mean).toBeCloseTo(0, 8);
+    });
+  });
+
+  describe('generateRatioPath', () => {
+    it('keeps every ratio inside the Power Law band', () => {
+      const ratios = generateRatioPath(process, 2026, RETIREMENT_YEARS, createSeededRandom(1));
+      expect(ratios).toHaveLength(RETIREMENT_YEARS);
+      ratios.forEach(ratio => {
+        expect(ratio).toBeGreaterThanOrEqual(0.42 - 1e-9);
+        expect(ratio).toBeLessThanOrEqual(2.0 + 1e-9);
+      });
+    });
+  });
+
+  describe('runMonteCarloSimulation', () => {
+    const options = { paths: 200, seed: 99 };
+
+    it('returns null without a process or assets', () => {
+      expect(runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 30000 } }), null, options)).toBeNull();
+      expect(runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 10, cashAmount: 0, annualWithdrawal: 0 } }), process, options)).toBeNull();
+    });
+
+    it('is reproducible for the same seed', () => {
+      const a = runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 1, cashAmount: 50000, annualWithdrawal: 60000 } }), process, options)!;
+      const b = runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 1, cashAmount: 50000, annualWithdrawal: 60000 } }), process, options)!;
+      expect(a).toEqual(b);
+    });
+
+    it('a well-funded plan always succeeds', () => {
+      const result = runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 20, cashAmount: 100000, annualWithdrawal: 30000 } }), process, options)!;
+      expect(result.successProbability).toBe(1);
+      expect(result.medianTerminalBitcoin).toBeGreaterThan(0);
+    });
+
+    it('a badly underfunded plan never succeeds and has zero median terminal assets', () => {
+      const result = runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 0.1, cashAmount: 0, annualWithdrawal: 200000 } }), process, options)!;
+      expect(result.successProbability).toBe(0);
+      expect(result.medianTerminalBitcoin).toBe(0);
+      expect(result.medianTerminalCash).toBe(0);
+    });
+
+    it('returns ordered percentile bands for every retirement year', () => {
+      const result = runMonteCarloSimulation(makeTestScenario({ retirementInputs: { bitcoinAmount: 1, cashAmount: 50000, annualWithdrawal: 60000 } }), process, options)!;
+      expect(result.percentileBands).toHaveLength(RETIREMENT_YEARS);
+      expect(result.percentileBands[0].year).toBe(2026);
+      result.percentileBands.forEach(band => {
+        expect(band.p5).toBeLessThanOrEqual(band.p25);
+        expect(band.p25).toBeLessThanOrEqual(band.p50);
+        expect(band.p50).toBeLessThanOrEqual(band.p75);
+        expect(band.p75).toBeLessThanOrEqual(band.p95);
+        expect(band.p5).toBeGreaterThanOrEqual(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { BitcoinPowerLaw, PUBLISHED_POWER_LAW_PARAMETERS, PowerLawParameters } from '../models/PowerLaw';
+import { POWER_LAW_MODEL, PriceModel } from '../models/PriceModel';
+import { BitcoinPriceData, RetirementScenario, SimulationYear } from '../types/Bitcoin';
+import { CyclePhaseResult } from './RetirementCalculations';
+import {
+  RETIREMENT_YEARS,
+  evaluateRetirementPlan,
+  findDepletionIndex,
+  simulateWithdrawalPhase,
+  withdrawalPhaseSucceeds
+} from './RetirementEngine';
+import { SerializedScenario } from './SuccessHeatmap';
+
+const MILLISECONDS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Yearly fair-value-ratio process fitted to history:
+ * ln(ratio[t+1]) = intercept + persistence × ln(ratio[t]) + residual,
+ * where residuals are resampled from the historical one-year-ahead errors.
+ */
+export interface FairValueRatioProcess {
+  intercept: number;
+  persistence: number;
+  residuals: number[];
+  historicalLogRatios: number[];
+}
+
+export interface MonteCarloOptions {
+  paths: number;
+  seed: number;
+}
+
+export interface MonteCarloPercentileBand {
+  year: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  seed: number;
+  retirementStartYear: number;
+  successProbability: number;
+  medianTerminalBitcoin: number;
+  medianTerminalCash: number;
+  percentileBands: MonteCarloPercentileBand[];
+}
+
+export interface MonteCarloRequest {
+  id: number;
+  scenario: SerializedScenario;
+  process: FairValueRatioProcess | null;
+  options: MonteCarloOptions;
+}
+
+export interface MonteCarloResponse {
+  id: number;
+  result: MonteCarloResult | null;
+}
+
+export const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloOptions = {
+  paths: 1000,
+  seed: 21
+};
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) so runs can be reproduced from a seed
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Percentile of an ascending-sorted array with linear interpolation (p in 0–100)
+ */
+export const calculatePercentile = (sortedValues: number[], p: number): number => {
+  if (sortedValues.length === 0) return 0;
+  const rank = (p / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+};
+
+/**
+ * Fit the fair-value-ratio process from daily price history.
+ * Each day is paired with the price one horizon later (365 days by default), so the
+ * residual pool holds thousands of overlapping one-year changes.
+ * Ratios are measured against the Power Law with the given parameters, the trend the history was fitted to; simulated paths
+ * then apply them to the scenario's price model.
+ */
+export const fitFairValueRatioProcess = (
+  prices: BitcoinPriceData[],
+  parameters: PowerLawParameters = PUBLISHED_POWER_LAW_PARAMETERS,
+  horizonDays: number = 365
+): FairValueRatioProcess | null => {
+  const logRatioByDay = new Map<number, number>();
+  for (const point of prices) {
+    if (point.price <= 0) continue;
+    const day = Math.floor(point.timestamp / MILLISECONDS_PER_DAY);
+    const fairValue = BitcoinPowerLaw.calculateFairValue(new Date(point.timestamp), parameters);
+    logRatioByDay.set(day, Math.log(point.price / fairValue));
+  }
+
+  const pairs: Array<[number, number]> = [];
+  logRatioByDay.forEach((logRatio, day) => {
+    const future = logRatioByDay.get(day + horizonDays);
+    if (future !== undefined) {
+      pairs.push([logRatio, future]);
+    }
+  });
+  if (pairs.length < 2) return null;
+
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const [x, y] of pairs) {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) * (x - meanX);
+  }
+  const persistence = variance > 0 ? covariance / variance : 0;
+  const intercept = meanY - persistence * meanX;
+
+  return {
+    intercept,
+    persistence,
+    residuals: pairs.map(([x, y]) => y - intercept - persistence * x),
+    historicalLogRatios: Array.from(logRatioByDay.values())
+  };
+};
+
+/**
+ * Generate one path of yearly fair value ratios, kept inside the model's band (floor to ceiling).
+ * The starting ratio is drawn from the historical ratios.
+ */
+export const generateRatioPath = (
+  process: FairValueRatioProcess,
+  startYear: number,
+  years: number,
+  random: () => number,
+  priceModel: PriceModel = POWER_LAW_MODEL
+): number[] => {
+  const pick = (values: number[]) => values[Math.floor(random() * values.length)];
+  const ratios: number[] = [];
+  let logRatio = pick(process.historicalLogRatios);
+
+  for (let i = 0; i < years; i++) {
+    if (i > 0) {
+      logRatio = process.intercept + process.persistence * logRatio + pick(process.residuals);
+    }
+    const date = new Date(startYear + i, 0, 1);
+    const fairValue = priceModel.fairValue(date);
+    const minLogRatio = Math.log(priceModel.floor(date) / fairValue);
+    const maxLogRatio = Math.log(priceModel.ceiling(date) / fairValue);
+    logRatio = Math.min(maxLogRatio, Math.max(minLogRatio, logRatio));
+    ratios.push(Math.exp(logRatio));
+  }
+
+  return ratios;
+};
+
+const describeSimulatedRatio = (ratio: number): string => {
+  if (ratio <= 0.5) return `Simulated Deep Bear (${ratio.toFixed(2)}x)`;
+  if (ratio < 1) return `Simulated Below Fair Value (${ratio.toFixed(2)}x)`;
+  if (ratio <= 1.2) return `Simulated Fair Value (${ratio.toFixed(2)}x)`;
+  return `Simulated Bull (${ratio.toFixed(2)}x)`;
+};
+
+/**
+ * Run the withdrawal phase over many randomized price paths.
+ * Accumulation stays on the deterministic savings projection; only the retirement horizon is randomized.
+ * Returns null when the scenario has nothing to simulate or no process is available.
+ */
+export const runMonteCarloSimulation = (
+  scenario: RetirementScenario,
+  process: FairValueRatioProcess | null,
+  options: MonteCarloOptions = DEFAULT_MONTE_CARLO_OPTIONS
+): MonteCarloResult | null => {
+  const plan = evaluateRetirementPlan(scenario);
+  if (!plan || !process || process.residuals.length === 0 || options.paths <= 0) {
+    return null;
+  }
+
+  const random = createSeededRandom(options.seed);
+  const { retirementStartYear, bitcoinAtRetirement } = plan;
+  const valuesByYear: number[][] = Array.from({ length: RETIREMENT_YEARS }, () => []);
+  const terminalBitcoin: number[] = [];
+  const terminalCash: number[] = [];
+  let successes = 0;
+
+  for (let path = 0; path < options.paths; path++) {
+    const ratios = generateRatioPath(process, retirementStartYear, RETIREMENT_YEARS, random, scenario.priceModel);
+    const withdrawalYears: SimulationYear[] = simulateWithdrawalPhase(
+      scenario,
+      retirementStartYear,
+      bitcoinAtRetirement,
+      (year, yearIndex): CyclePhaseResult => {
+        const ratio = ratios[yearIndex];
+        return {
+          price: scenario.priceModel.fairValue(new Date(year, 0, 1)) * ratio,
+          phase: describeSimulatedRatio(ratio),
+          cycleYear: -1
+        };
+      }
+    );
+
+    if (withdrawalPhaseSucceeds(withdrawalYears)) {
+      successes++;
+    }
+
+    // The simulation stops at depletion, so depleted paths hold zero value for the rest of the horizon
+    for (let i = 0; i < RETIREMENT_YEARS; i++) {
+      const row = withdrawalYears[i];
+      valuesByYear[i].push(row ? Math.max(0, row.totalRemainingValue) : 0);
+    }
+
+    const finalYear = withdrawalYears[withdrawalYears.length - 1];
+    const depleted = findDepletionIndex(withdrawalYears) >= 0;
+    terminalBitcoin.push(depleted ? 0 : finalYear.remainingBitcoin);
+    terminalCash.push(depleted ? 0 : finalYear.remainingCash);
+  }
+
+  const sortAscending = (values: number[]) => [...values].sort((a, b) => a - b);
+  const percentileBands = valuesByYear.map((values, i) => {
+    const sorted = sortAscending(values);
+    return {
+      year: retirementStartYear + i,
+      p5: calculatePercentile(sorted, 5),
+      p25: calculatePercentile(sorted, 25),
+      p50: calculatePercentile(sorted, 50),
+      p75: calculatePercentile(sorted, 75),
+      p95: calculatePercentile(sorted, 95)
+    };
+  });
+
+  return {
+    paths: options.paths,
+    seed: options.seed,
+    retirementStartYear,
+    successProbability: successes / options.paths,
+    medianTerminalBitcoin: calculatePercentile(sortAscending(terminalBitcoin), 50),
+    medianTerminalCash: calculatePercentile(sortAscending(terminalCash), 50),
+    percentileBands
+  };
+};
@@ -1,15 +1,21 @@
 import {
+  BEAR_MARKET_TEST_PRESETS,
+  DEFAULT_BEAR_MARKET_TEST,
   testBearMarketSurvival,
+  validateBearMarketTestParameters,
   calculateCyclePrice,
   calculateMonthlySavingsProjection,
   validateRetirementInputs,
   BearMarketTestResult,
   CyclePhaseResult
 } from './RetirementCalculations';
-import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { BitcoinPowerLaw, PUBLISHED_POWER_LAW_PARAMETERS } from '../models/PowerLaw';
+import { POWER_LAW_MODEL, PowerLawPriceModel } from '../models/PriceModel';
+import { InflationInputs } from './Inflation';
 
 describe('RetirementCalculations', () => {
   describe('testBearMarketSurvival', () => {
+    // Worst case: 2 years at the floor, 1 year of recovery, then 20 years of runway
     const testYear = 2025;
     const testDate = new Date(testYear, 0, 1);
     const fairValue = BitcoinPowerLaw.calculateFairValue(testDate);
@@ -45,10 +51,11 @@ describe('RetirementCalculations', () => {
     });
     
          it('should use cash before selling Bitcoin during bear market', () => {
-       const result = testBearMarketSurvival(fairValue, testYear, 2, 50000, 60000);
+       // $110k cash covers both years at the floor; Bitcoin is only sold in the recovery year
+       const result = testBearMarketSurvival(fairValue, testYear, 2, 50000, 110000);
        
        // Should have used some cash and preserved most Bitcoin
-       expect(result.remainingCash).toBeLessThan(60000);
+       expect(result.remainingCash).toBeLessThan(110000);
        expect(result.remainingBitcoin).toBeLessThan(2);
        expect(result.remainingBitcoin).toBeGreaterThan(1.2); // Should preserve most Bitcoin
      });
@@ -65,6 +72,54 @@ describe('RetirementCalculations', () => {
       const result = testBearMarketSurvival(fairValue, testYear, 1, 50000, -10000);
       expect(result.remainingCash).toBe(0); // Should treat negative as 0
     });
+
+    it('should sell more Bitcoin when a lower floor band is selected', () => {
+      const fixedFloor = testBearMarketSurvival(fairValue, testYear, 10, 50000, 0);
+      const lowerFloorModel = new PowerLawPriceModel(PUBLISHED_POWER_LAW_PARAMETERS, { floor: 0.3, upper: 2.0 });
+      const lowerFloor = testBearMarketSurvival(fairValue, testYear, 10, 50000, 0, lowerFloorModel);
+      expect(lowerFloor.remainingBitcoin).toBeLessThan(fixedFloor.remainingBitcoin);
+    });
+
+    it('should grow bear market withdrawals and the runway requirement with inflation', () => {
+      const inflation: InflationInputs = { mode: 'constant', annualRate: 0.05, schedule: [] };
+      const withoutInflation = testBearMarketSurvival(fairValue, testYear, 10, 30000, 0);
+      const withInflation = testBearMarketSurvival(fairValue, testYear, 10, 30000, 0, POWER_LAW_MODEL, inflation);
+
+      expect(withoutInflation.passes).toBe(true);
+      expect(withInflation.passes).toBe(false);
+      expect(withInflation.remainingBitcoin).toBeLessThan(withoutInflation.remainingBitcoin);
+    });
+
+    it('should default to the Standard preset', () => {
+      const standard = BEAR_MARKET_TEST_PRESETS.find(preset => preset.id === 'standard')!;
+      expect(standard.parameters).toEqual({ floorYears: 2, recoveryFraction: 0.75, runwayYears: 20 });
+      expect(testBearMarketSurvival(fairValue, testYear, 10, 50000, 0, POWER_LAW_MODEL, undefined, standard.parameters))
+        .toEqual(testBearMarketSurvival(fairValue, testYear, 10, 50000, 0));
+    });
+
+    it('should sell Bitcoin for each floor year and at the recovery fraction', () => {
+      const parameters = { floorYears: 3, recoveryFraction: 0.5, runwayYears: 0 };
+      const result = testBearMarketSurvival(fairValue, testYear, 10, 30000, 0, POWER_LAW_MODEL, undefined, parameters);
+      const recoveryPrice = floorValue + (fairValue - floorValue) * 0.5;
+      expect(result.remainingBitcoin).toBeCloseTo(10 - 3 * 30000 / floorValue - 30000 / recoveryPrice, 8);
+      expect(result.passes).toBe(true);
+    });
+
+    it('should leave less Bitcoin under Conservative and more under Aggressive', () => {
+      const [conservative, standard, aggressive] = ['conservative', 'standard', 'aggressive'].map(id =>
+        testBearMarketSurvival(fairValue, testYear, 10, 50000, 0, POWER_LAW_MODEL, undefined,
+          BEAR_MARKET_TEST_PRESETS.find(preset => preset.id === id)!.parameters)
+      );
+      expect(conservative.remainingBitcoin).toBeLessThan(standard.remainingBitcoin);
+      expect(aggressive.remainingBitcoin).toBeGreaterThan(standard.remainingBitcoin);
+    });
+
+    it('should flag fractional years and recovery fractions outside 0 to 1', () => {
+      BEAR_MARKET_TEST_PRESETS.forEach(preset => expect(validateBearMarketTestParameters(preset.parameters)).toEqual([]));
+      expect(validateBearMarketTestParameters({ ...DEFAULT_BEAR_MARKET_TEST, floorYears: 1.5 })).toHaveLength(1);
+      expect(validateBearMarketTestParameters({ ...DEFAULT_BEAR_MARKET_TEST, recoveryFraction: 1.2 })).toHaveLength(1);
+      expect(validateBearMarketTestParameters({ ...DEFAULT_BEAR_MARKET_TEST, runwayYears: -1 })).toHaveLength(1);
+    });
   });
   
   describe('calculateCyclePrice', () => {
@@ -83,24 +138,24 @@ describe('RetirementCalculations', () => {
         results.push(calculateCyclePrice(year, false));
       }
       
-      // Check cycle years are sequential: 3, 0, 1, 2
-      expect(results[0].cycleYear).toBe(3); // 2024: (2024-1) % 4 = 3
-      expect(results[1].cycleYear).toBe(0); // 2025: (2025-1) % 4 = 0
-      expect(results[2].cycleYear).toBe(1); // 2026: (2026-1) % 4 = 1
-      expect(results[3].cycleYear).toBe(2); // 2027: (2027-1) % 4 = 2
+      // Phases on January 1 after the April 2024 halving: recovery, bull, peak, deep bear
+      expect(results[0].cycleYear).toBe(1); // 2024: 44 months after the 2020 halving
+      expect(results[1].cycleYear).toBe(2); // 2025: 8 months after the 2024 halving
+      expect(results[2].cycleYear).toBe(3); // 2026: 20 months, around the peak
+      expect(results[3].cycleYear).toBe(0); // 2027: 32 months, around the trough
     });
     
     it('should have floor price for cycle year 0 (deep bear)', () => {
-      const result = calculateCyclePrice(2025, false); // 2025 is cycle year 0
-      const expectedFloor = BitcoinPowerLaw.calculateFloorPrice(new Date(2025, 0, 1));
+      const result = calculateCyclePrice(2027, false); // 2027 is cycle year 0
+      const expectedFloor = BitcoinPowerLaw.calculateFloorPrice(new Date(2027, 0, 1));
       
       expect(result.price).toBeCloseTo(expectedFloor, 2);
       expect(result.phase).toBe('Deep Bear (Floor)');
     });
     
     it('should have recovery price for cycle year 1', () => {
-      const result = calculateCyclePrice(2026, false); // 2026 is cycle year 1
-      const targetDate = new Date(2026, 0, 1);
+      const result = calculateCyclePrice(2028, false); // 2028 is cycle year 1
+      const targetDate = new Date(2028, 0, 1);
       const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
       const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
       const expectedPrice = floorValue + (fairValue - floorValue) * 0.75;
@@ -110,8 +165,8 @@ describe('RetirementCalculations', () => {
     });
     
     it('should have bull market price for cycle year 2', () => {
-      const result = calculateCyclePrice(2027, false); // 2027 is cycle year 2
-      const targetDate = new Date(2027, 0, 1);
+      const result = calculateCyclePrice(2025, false); // 2025 is cycle year 2
+      const targetDate = new Date(2025, 0, 1);
       const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
       const upperBound = BitcoinPowerLaw.calculateUpperBound(targetDate);
       const expectedPrice = fairValue + (upperBound - fairValue) * 0.7;
@@ -154,7 +209,7 @@ describe('RetirementCalculations', () => {
     it('should double down during bear market years', () => {
       const projection = calculateMonthlySavingsProjection(1000, 3, true, testStartDate);
       
-      // 2025 is current year (no doubling), 2026 is bear market (doubling)
+      // 2025 is current year (no doubling), 2026 is the peak (no doubling), 2027 is the deep bear (doubling)
       const year2025Months = projection.slice(0, 12);
       const year2026Months = projection.slice(12, 24);
       const year2027Months = projection.slice(24, 36);
@@ -162,12 +217,11 @@ describe('RetirementCalculations', () => {
       // Current year (2025): No doubling
       expect(year2025Months[0].monthlySavingsAmount).toBe(1000);
       
-      // 2026 (cycle year 1 - bear market): Should double
-      expect(year2026Months[0].monthlySavingsAmount).toBe(2000);
+      // 2026 (cycle year 3 - peak and correction): No doubling
+      expect(year2026Months[0].monthlySavingsAmount).toBe(1000);
       
-      // 2027 (cycle year 2 - bull market): Back to normal
-      // Note: 2027 has cycleYear = (2027-1) % 4 = 2, which is not 0 or 1, so no doubling
-      expect(year2027Months[0].monthlySavingsAmount).toBe(1000);
+      // 2027 (cycle year 0 - deep bear): Should double
+      expect(year2027Months[0].monthlySavingsAmount).toBe(2000);
     });
     
     it('should accumulate Bitcoin over time', () => {
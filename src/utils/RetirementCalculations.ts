@@ -1,4 +1,6 @@
-import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { POWER_LAW_MODEL, PriceModel } from '../models/PriceModel';
+import { CycleCalendarSettings, DEFAULT_CYCLE_CALENDAR, getCycleYear } from './CycleCalendar';
+import { InflationInputs, NO_INFLATION, calculateInflationFactor } from './Inflation';
 
 export interface BearMarketTestResult {
   passes: boolean;
@@ -6,6 +8,55 @@ export interface BearMarketTestResult {
   remainingCash: number;
 }
 
+/**
+ * The worst case the Bear Market Test checks: years at the floor, one recovery year part of the way back
+ * to fair value, then years of runway at fair value
+ */
+export interface BearMarketTestParameters {
+  /** Consecutive years of withdrawals at the floor */
+  floorYears: number;
+  /** Share of the way from the floor back to fair value in the recovery year */
+  recoveryFraction: number;
+  /** Years of withdrawals the portfolio must still cover at fair value after the recovery year */
+  runwayYears: number;
+}
+
+export interface BearMarketTestPreset {
+  id: string;
+  name: string;
+  parameters: BearMarketTestParameters;
+}
+
+/** 2 years at the floor, 1 year of recovery 75% of the way back, then 20 years of runway */
+export const DEFAULT_BEAR_MARKET_TEST: BearMarketTestParameters = {
+  floorYears: 2,
+  recoveryFraction: 0.75,
+  runwayYears: 20
+};
+
+export const BEAR_MARKET_TEST_PRESETS: BearMarketTestPreset[] = [
+  { id: 'conservative', name: 'Conservative', parameters: { floorYears: 3, recoveryFraction: 0.5, runwayYears: 30 } },
+  { id: 'standard', name: 'Standard', parameters: DEFAULT_BEAR_MARKET_TEST },
+  { id: 'aggressive', name: 'Aggressive', parameters: { floorYears: 1, recoveryFraction: 0.9, runwayYears: 15 } }
+];
+
+/**
+ * Problems that would make the test meaningless; empty when it is usable
+ */
+export const validateBearMarketTestParameters = (parameters: BearMarketTestParameters): string[] => {
+  const errors: string[] = [];
+  if (!Number.isInteger(parameters.floorYears) || parameters.floorYears < 0) {
+    errors.push('Years at the floor must be a whole number of at least 0');
+  }
+  if (!(parameters.recoveryFraction >= 0 && parameters.recoveryFraction <= 1)) {
+    errors.push('The recovery fraction must be between 0 and 1');
+  }
+  if (!Number.isInteger(parameters.runwayYears) || parameters.runwayYears < 0) {
+    errors.push('Runway years must be a whole number of at least 0');
+  }
+  return errors;
+};
+
 export interface CyclePhaseResult {
   price: number;
   phase: string;
@@ -13,15 +64,21 @@ export interface CyclePhaseResult {
 }
 
 /**
- * Test if a portfolio can survive a realistic 24-month bear market
+ * Test if a portfolio can survive a realistic bear market
+ * Worst case within the Power Law (standard parameters): 2 years at the floor, then 1 year of recovery,
+ * then at least 20 years of runway at fair value.
  * Strategy: Use cash during bear market to preserve Bitcoin
+ * annualWithdrawal is the nominal need in the first bear year; later years grow with inflation.
  */
 export const testBearMarketSurvival = (
   bitcoinPrice: number, 
   year: number, 
   bitcoinHoldings: number, 
   annualWithdrawal: number, 
-  cashHoldings: number = 0
+  cashHoldings: number = 0,
+  priceModel: PriceModel = POWER_LAW_MODEL,
+  inflation: InflationInputs = NO_INFLATION,
+  parameters: BearMarketTestParameters = DEFAULT_BEAR_MARKET_TEST
 ): BearMarketTestResult => {
   if (bitcoinHoldings <= 0 || annualWithdrawal <= 0) {
     return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
@@ -31,77 +88,74 @@ export const testBearMarketSurvival = (
   let remainingCash = Math.max(0, cashHoldings);
   
   const targetDate = new Date(year, 0, 1);
-  const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-  const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
+  const fairValue = priceModel.fairValue(targetDate);
+  const floorValue = priceModel.floor(targetDate);
   
-  // Year 1: Deep bear market at Power Law floor
+  // Deep bear market at Power Law floor, then one recovery year between floor and fair value
   const deepBearPrice = floorValue;
+  const bearRecoveryPrice = floorValue + (fairValue - floorValue) * parameters.recoveryFraction;
+  const bearMarketPrices = [...Array.from({ length: parameters.floorYears }, () => deepBearPrice), bearRecoveryPrice];
+  const withdrawalInYear = (offset: number) => annualWithdrawal * calculateInflationFactor(inflation, year, year + offset);
   
-  // Smart strategy: Use cash first during the crash
-  if (remainingCash >= annualWithdrawal) {
-    remainingCash -= annualWithdrawal;
-  } else {
-    const remainingNeeded = annualWithdrawal - remainingCash;
-    remainingCash = 0;
-    const bitcoinToSell = remainingNeeded / deepBearPrice;
-    remainingBitcoin -= bitcoinToSell;
-    
-    if (remainingBitcoin < 0) {
-      return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
-    }
-  }
-  
-  // Year 2: Bear market recovery - price between floor and fair value
-  const bearRecoveryPrice = floorValue + (fairValue - floorValue) * 0.75;
-  if (remainingCash >= annualWithdrawal) {
-    remainingCash -= annualWithdrawal;
-  } else {
-    const remainingNeeded = annualWithdrawal - remainingCash;
-    remainingCash = 0;
-    const bitcoinToSell = remainingNeeded / bearRecoveryPrice;
-    remainingBitcoin -= bitcoinToSell;
-    
-    if (remainingBitcoin < 0) {
-      return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
+  for (let offset = 0; offset < bearMarketPrices.length; offset++) {
+    const price = bearMarketPrices[offset];
+    const withdrawal = withdrawalInYear(offset);
+    // Smart strategy: Use cash first during the crash
+    if (remainingCash >= withdrawal) {
+      remainingCash -= withdrawal;
+    } else {
+      const remainingNeeded = withdrawal - remainingCash;
+      remainingCash = 0;
+      const bitcoinToSell = remainingNeeded / price;
+      remainingBitcoin -= bitcoinToSell;
+      
+      if (remainingBitcoin < 0) {
+        return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
+      }
     }
   }
   
-  // Year 3: Back to fair value - check runway
+  // After the recovery: Back to fair value - check runway
   const sustainablePrice = fairValue;
   const remainingBitcoinValue = remainingBitcoin * sustainablePrice;
   const totalRemainingValue = remainingBitcoinValue + remainingCash;
   
-  const yearsOfRunway = totalRemainingValue / annualWithdrawal;
-  const minimumYearsRequired = 20; // Conservative requirement
+  let runwayNeeded = 0;
+  for (let offset = 0; offset < parameters.runwayYears; offset++) {
+    runwayNeeded += withdrawalInYear(bearMarketPrices.length + offset);
+  }
   
   return {
-    passes: yearsOfRunway >= minimumYearsRequired,
+    passes: totalRemainingValue >= runwayNeeded,
     remainingBitcoin,
     remainingCash
   };
 };
 
 /**
- * Calculate realistic Bitcoin price for a given year based on 4-year cycles
+ * Calculate realistic Bitcoin price for a given year based on 4-year cycles,
+ * with the phase on January 1 taken from the halving-anchored cycle calendar
  */
 export const calculateCyclePrice = (
   year: number, 
-  isCurrentYear: boolean = false
+  isCurrentYear: boolean = false,
+  priceModel: PriceModel = POWER_LAW_MODEL,
+  cycleCalendar: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR
 ): CyclePhaseResult => {
   const targetDate = new Date(year, 0, 1);
-  const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
+  const fairValue = priceModel.fairValue(targetDate);
+  const cycleYear = getCycleYear(targetDate, cycleCalendar);
   
   if (isCurrentYear) {
     return {
       price: fairValue,
       phase: 'Current Year (Fair Value)',
-      cycleYear: (year - 1) % 4
+      cycleYear
     };
   }
   
-  const cycleYear = (year - 1) % 4;
-  const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-  const upperBound = BitcoinPowerLaw.calculateUpperBound(targetDate);
+  const floorValue = priceModel.floor(targetDate);
+  const upperBound = priceModel.ceiling(targetDate);
   
   switch (cycleYear) {
     case 0: // Deep bear market
@@ -144,7 +198,9 @@ export const calculateMonthlySavingsProjection = (
   monthlySavingsAmount: number,
   yearsToRetirement: number,
   doubleDownInBearMarkets: boolean = false,
-  startDate: Date = new Date()
+  startDate: Date = new Date(),
+  priceModel: PriceModel = POWER_LAW_MODEL,
+  cycleCalendar: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR
 ): Array<{
   year: number;
   month: number;
@@ -162,7 +218,7 @@ export const calculateMonthlySavingsProjection = (
 
   for (let year = 0; year < yearsToRetirement; year++) {
     const actualYear = startDate.getFullYear() + year;
-    const cycleYear = (actualYear - 1) % 4;
+    const cycleYear = getCycleYear(new Date(actualYear, 0, 1), cycleCalendar);
     // Bear market only in years 0 and 1 of each 4-year cycle, but NOT in current year
     const isBearMarketYear = year > 0 && (cycleYear === 0 || cycleYear === 1);
     
@@ -171,7 +227,7 @@ export const calculateMonthlySavingsProjection = (
       projectionDate.setFullYear(startDate.getFullYear() + year);
       projectionDate.setMonth(startDate.getMonth() + month);
 
-      const bitcoinFairValue = BitcoinPowerLaw.calculateFairValue(projectionDate);
+      const bitcoinFairValue = priceModel.fairValue(projectionDate);
       
       // Calculate realistic Bitcoin price based on cycle position
       let bitcoinCyclePrice;
@@ -181,7 +237,7 @@ export const calculateMonthlySavingsProjection = (
         bitcoinCyclePrice = bitcoinFairValue;
       } else {
         // For future years, apply cycle logic
-        const cycleResult = calculateCyclePrice(actualYear, false);
+        const cycleResult = calculateCyclePrice(actualYear, false, priceModel, cycleCalendar);
         bitcoinCyclePrice = cycleResult.price;
       }
       
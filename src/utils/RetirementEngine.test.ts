@@ -0,0 +1,359 @@
+/**
+ * Tests for the shared retirement engine:
+ * - Retirement start year and savings window
+ * - 50-year plan rows and pass/fail verdict
+ * - Chart plan overlay uses the same prices as the table
+ * - Withdrawals follow the scenario's withdrawal strategy and Smart Withdrawal zones
+ * - Monthly withdrawals along interpolated prices roll up into yearly rows
+ * - A custom cycle replaces the built-in cycle in the table and the chart line
+ * - The Bear Market Test runs with the scenario's parameters
+ */
+
+import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { CagrPriceModel, POWER_LAW_MODEL, createDefaultPriceModelSettings } from '../models/PriceModel';
+import { ChartDataPoint, RetirementScenario } from '../types/Bitcoin';
+import { DEFAULT_CYCLE_CALENDAR } from './CycleCalendar';
+import { CustomCycle } from './CustomCycle';
+import { InflationInputs, NO_INFLATION, calculateInflationFactor } from './Inflation';
+import { testBearMarketSurvival } from './RetirementCalculations';
+import {
+  RETIREMENT_YEARS,
+  buildPlanChartData,
+  calculatePlanCyclePrice,
+  evaluateRetirementPlan,
+  getPlanPricePath,
+  getRetirementStartYear,
+  getScenarioTaxLots,
+  hasRetirementAssets,
+  interpolatePlanPrice
+} from './RetirementEngine';
+import { DEFAULT_SMART_WITHDRAWAL_CONFIG, SmartWithdrawalConfig } from './SmartWithdrawalStrategy';
+import { DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS, WithdrawalStrategyRegistry } from './WithdrawalStrategy';
+import { ScenarioOverrides, makeTestScenario } from './testScenario';
+
+// The engine tests start from a larger plan than the shared one, with savings set up but off
+const makeScenario = (overrides: ScenarioOverrides = {}): RetirementScenario => makeTestScenario({
+  ...overrides,
+  retirementInputs: { bitcoinAmount: 10, cashAmount: 120000, annualWithdrawal: 30000, ...overrides.retirementInputs },
+  monthlySavingsInputs: { monthlySavingsAmount: 500, yearsToRetirement: 5, ...overrides.monthlySavingsInputs }
+});
+
+describe('RetirementEngine', () => {
+  describe('getRetirementStartYear', () => {
+    it('uses years until retirement when savings are disabled', () => {
+      expect(getRetirementStartYear(makeScenario({ retirementInputs: { yearsUntilRetirement: 3 } }))).toBe(2029);
+    });
+
+    it('uses the later of years until retirement and the savings window', () => {
+      const scenario = makeScenario({
+        retirementInputs: { yearsUntilRetirement: 3 },
+        monthlySavingsInputs: { enabled: true, yearsToRetirement: 5 }
+      });
+      expect(getRetirementStartYear(scenario)).toBe(2031);
+    });
+  });
+
+  describe('hasRetirementAssets', () => {
+    it('requires a withdrawal and either Bitcoin or savings', () => {
+      expect(hasRetirementAssets(makeScenario())).toBe(true);
+      expect(hasRetirementAssets(makeScenario({ retirementInputs: { annualWithdrawal: 0 } }))).toBe(false);
+      expect(hasRetirementAssets(makeScenario({ retirementInputs: { bitcoinAmount: 0 } }))).toBe(false);
+      expect(hasRetirementAssets(makeScenario({
+        retirementInputs: { bitcoinAmount: 0 },
+        monthlySavingsInputs: { enabled: true }
+      }))).toBe(true);
+    });
+  });
+
+  describe('evaluateRetirementPlan', () => {
+    it('returns null when there is nothing to simulate', () => {
+      expect(evaluateRetirementPlan(makeScenario({ retirementInputs: { annualWithdrawal: 0 } }))).toBeNull();
+    });
+
+    it('passes a well-funded plan over the full 50 years', () => {
+      const plan = evaluateRetirementPlan(makeScenario())!;
+      expect(plan.withdrawalYears).toHaveLength(RETIREMENT_YEARS);
+      expect(plan.simulationSucceeds).toBe(true);
+      expect(plan.depletionYear).toBeNull();
+      expect(plan.yearsLasted).toBe(RETIREMENT_YEARS);
+    });
+
+    it('fails an underfunded plan and reports the depletion year', () => {
+      const plan = evaluateRetirementPlan(makeScenario({
+        retirementInputs: { bitcoinAmount: 0.1, cashAmount: 0, annualWithdrawal: 100000 }
+      }))!;
+      expect(plan.simulationSucceeds).toBe(false);
+      expect(plan.depletionYear).not.toBeNull();
+      expect(plan.yearsLasted).toBeLessThan(RETIREMENT_YEARS);
+      expect(plan.withdrawalYears[plan.yearsLasted - 1].year).toBe(plan.depletionYear);
+    });
+
+    it('withdrawal rows use the plan cycle prices', () => {
+      const plan = evaluateRetirementPlan(makeScenario())!;
+      plan.withdrawalYears.slice(0, 8).forEach(row => {
+        const cycle = calculatePlanCyclePrice(plan.retirementStartYear, row.year)!;
+        expect(row.bitcoinPrice).toBeCloseTo(cycle.price, 6);
+        expect(row.cyclePhase).toBe(cycle.phase);
+      });
+      expect(plan.withdrawalYears[0].phase).toBe('RETIREMENT START');
+      expect(plan.withdrawalYears[1].phase).toBe('WITHDRAWAL');
+    });
+
+    it('prices years before retirement as its first year on the plan path', () => {
+      const pricePath = getPlanPricePath(2030, POWER_LAW_MODEL, DEFAULT_CYCLE_CALENDAR, null);
+      expect(calculatePlanCyclePrice(2030, 2028)).toBeNull();
+      expect(pricePath(2028, -2)).toEqual(calculatePlanCyclePrice(2030, 2030));
+    });
+
+    it('every withdrawal row is funded by cash used plus Bitcoin sold', () => {
+      const plan = evaluateRetirementPlan(makeScenario())!;
+      plan.withdrawalYears.forEach(row => {
+        expect(row.cashUsed + row.bitcoinSold * row.bitcoinPrice).toBeCloseTo(row.annualWithdrawal, 2);
+      });
+    });
+
+    it('verdict includes the same Bear Market Test as the exported utility', () => {
+      const scenario = makeScenario();
+      const plan = evaluateRetirementPlan(scenario)!;
+      const fairValue = BitcoinPowerLaw.calculateFairValue(new Date(plan.retirementStartYear, 0, 1));
+      const expected = testBearMarketSurvival(fairValue, plan.retirementStartYear, 10, 30000, 120000);
+      expect(plan.bearMarketTest).toEqual(expected);
+    });
+
+    it('runs the Bear Market Test with the scenario parameters', () => {
+      const parameters = { floorYears: 4, recoveryFraction: 0.5, runwayYears: 30 };
+      const plan = evaluateRetirementPlan(makeScenario({ bearMarketTest: parameters }))!;
+      const fairValue = BitcoinPowerLaw.calculateFairValue(new Date(plan.retirementStartYear, 0, 1));
+      expect(plan.bearMarketTest).toEqual(
+        testBearMarketSurvival(fairValue, plan.retirementStartYear, 10, 30000, 120000, POWER_LAW_MODEL, NO_INFLATION, parameters)
+      );
+      expect(plan.bearMarketTest.remainingBitcoin).toBeLessThan(evaluateRetirementPlan(makeScenario())!.bearMarketTest.remainingBitcoin);
+    });
+
+    it('prices the plan and Bear Market Test with the scenario price model', () => {
+      const priceModel = new CagrPriceModel({
+        ...createDefaultPriceModelSettings(2026),
+        annualGrowth: 0.02
+      });
+      const plan = evaluateRetirementPlan(makeScenario({ priceModel }))!;
+      const powerLawPlan = evaluateRetirementPlan(makeScenario())!;
+      const cycle = calculatePlanCyclePrice(plan.retirementStartYear, 2040, priceModel)!;
+      const row = plan.withdrawalYears.find(withdrawal => withdrawal.year === 2040)!;
+
+      expect(row.bitcoinPrice).toBeCloseTo(cycle.price, 6);
+      expect(row.bitcoinPrice).toBeLessThan(powerLawPlan.withdrawalYears.find(withdrawal => withdrawal.year === 2040)!.bitcoinPrice);
+      expect(plan.bearMarketTest).toEqual(testBearMarketSurvival(
+        priceModel.fairValue(new Date(plan.retirementStartYear, 0, 1)),
+        plan.retirementStartYear, 10, 30000, 120000, priceModel
+      ));
+    });
+
+    it('grows withdrawals with inflation while today\'s-dollar spending stays constant', () => {
+      const inflation: InflationInputs = { mode: 'constant', annualRate: 0.03, schedule: [] };
+      const plan = evaluateRetirementPlan(makeScenario({ inflation, retirementInputs: { yearsUntilRetirement: 4 } }))!;
+      plan.withdrawalYears.forEach(row => {
+        expect(row.inflationFactor).toBeCloseTo(Math.pow(1.03, row.year - 2026), 10);
+        expect(row.annualWithdrawal).toBeCloseTo(30000 * row.inflationFactor, 6);
+        expect(row.annualWithdrawal / row.inflationFactor).toBeCloseTo(30000, 6);
+      });
+    });
+
+    it('evaluates the Bear Market Test and verdict under inflation', () => {
+      const inflation: InflationInputs = { mode: 'constant', annualRate: 0.08, schedule: [] };
+      const scenario = makeScenario({ inflation, retirementInputs: { yearsUntilRetirement: 4 } });
+      const plan = evaluateRetirementPlan(scenario)!;
+      const fairValue = BitcoinPowerLaw.calculateFairValue(new Date(2030, 0, 1));
+      const expected = testBearMarketSurvival(
+        fairValue, 2030, 10, 30000 * calculateInflationFactor(inflation, 2026, 2030), 120000, POWER_LAW_MODEL, inflation
+      );
+
+      expect(plan.bearMarketTest).toEqual(expected);
+      const withoutInflation = evaluateRetirementPlan(makeScenario({ retirementInputs: { yearsUntilRetirement: 4 } }))!;
+      const finalBitcoin = (result: typeof plan) => result.withdrawalYears[result.withdrawalYears.length - 1].remainingBitcoin;
+      expect(finalBitcoin(plan)).toBeLessThan(finalBitcoin(withoutInflation));
+    });
+
+    it('sells extra Bitcoin to pay capital gains tax and reports it per year', () => {
+      const plan = evaluateRetirementPlan(makeScenario({
+        capitalGainsTax: { enabled: true, mode: 'flat', longTermRate: 0.2, startingCostBasis: 10000 }
+      }))!;
+      const taxedRows = plan.withdrawalYears.filter(row => row.taxPaid > 0);
+
+      expect(taxedRows.length).toBeGreaterThan(0);
+      plan.withdrawalYears.forEach(row => {
+        expect(row.cashUsed + row.bitcoinSold * row.bitcoinPrice).toBeCloseTo(row.annualWithdrawal + row.taxPaid, 0);
+        expect(row.effectiveTaxRate).toBeCloseTo(row.taxPaid / (row.annualWithdrawal + row.taxPaid), 10);
+      });
+      expect(plan.totalTaxPaid).toBeCloseTo(taxedRows.reduce((sum, row) => sum + row.taxPaid, 0), 6);
+    });
+
+    it('builds tax lots from the starting holdings and every monthly purchase', () => {
+      const scenario = makeScenario({ monthlySavingsInputs: { enabled: true, yearsToRetirement: 2 } });
+      const lots = getScenarioTaxLots(scenario);
+      expect(lots).toHaveLength(1 + 24);
+      expect(lots[0]).toEqual({ acquired: new Date(2025, 0, 1), bitcoin: 10, costBasis: 30000 });
+      expect(lots[24].acquired).toEqual(new Date(2027, 11, 1));
+    });
+
+    it('splits withdrawals with the scenario zone configuration', () => {
+      const spendBitcoin: SmartWithdrawalConfig = {
+        ...DEFAULT_SMART_WITHDRAWAL_CONFIG,
+        zones: [{ ...DEFAULT_SMART_WITHDRAWAL_CONFIG.zones[5], minRatio: 0 }]
+      };
+      const plan = evaluateRetirementPlan(makeScenario({ smartWithdrawal: spendBitcoin }));
+      if (!plan) throw new Error('expected a plan');
+      expect(plan.withdrawalYears.every(row => row.cashUsed === 0)).toBe(true);
+      expect(plan.withdrawalYears[plan.withdrawalYears.length - 1].remainingCash).toBe(120000);
+    });
+
+    it('spends and refills cash as the scenario withdrawal strategy decides', () => {
+      const settings = { ...DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS, constantDollarRate: 0.03 };
+      const constantDollar = evaluateRetirementPlan(makeScenario({
+        withdrawalStrategy: WithdrawalStrategyRegistry.create('constant-dollar', settings)
+      }));
+      if (!constantDollar) throw new Error('expected a plan');
+      const [firstYear] = constantDollar.withdrawalYears;
+      const startingValue = 120000 + 10 * firstYear.bitcoinPrice;
+      expect(constantDollar.withdrawalYears.every(row => Math.abs(row.annualWithdrawal - startingValue * 0.03) < 1e-6)).toBe(true);
+
+      const twoBucket = evaluateRetirementPlan(makeScenario({
+        withdrawalStrategy: WithdrawalStrategyRegistry.create('two-bucket', settings)
+      }));
+      if (!twoBucket) throw new Error('expected a plan');
+      const refillYear = twoBucket.withdrawalYears.find(row => row.withdrawalSource.indexOf('to cash') !== -1);
+      if (!refillYear) throw new Error('expected a cash refill');
+      expect(refillYear.priceToFairRatio).toBeGreaterThanOrEqual(1);
+      expect(refillYear.remainingCash).toBeCloseTo(3 * 30000, 6);
+    });
+
+    it('refills cash from Bitcoin in overvalued years when the refill rule is enabled', () => {
+      const plan = evaluateRetirementPlan(makeScenario({ cashRefill: { enabled: true, aboveRatio: 1.2, yearsOfExpenses: 2 } }));
+      if (!plan) throw new Error('expected a plan');
+      const refillYears = plan.withdrawalYears.filter(row => row.cashRefill > 0);
+      expect(refillYears.length).toBeGreaterThan(0);
+      refillYears.forEach(row => {
+        expect(row.priceToFairRatio).toBeGreaterThan(1.2);
+        expect(row.remainingCash).toBeCloseTo(2 * 30000, 6);
+        expect(row.withdrawalSource).toContain('🔄 Refill');
+      });
+      expect(evaluateRetirementPlan(makeScenario())!.withdrawalYears.every(row => row.cashRefill === 0)).toBe(true);
+    });
+
+    it('buys Bitcoin with cash above the reserve in undervalued years when buy-back is enabled', () => {
+      const plan = evaluateRetirementPlan(makeScenario({ buyBack: { enabled: true, belowRatio: 0.8, reserveYears: 2 } }));
+      if (!plan) throw new Error('expected a plan');
+      const buyYears = plan.withdrawalYears.filter(row => row.bitcoinPurchased > 0);
+      expect(buyYears.length).toBeGreaterThan(0);
+      buyYears.forEach(row => {
+        expect(row.priceToFairRatio).toBeLessThan(0.8);
+        expect(row.remainingCash).toBeCloseTo(2 * 30000, 6);
+        expect(row.withdrawalSource).toContain('🛒 Bought');
+      });
+      expect(evaluateRetirementPlan(makeScenario())!.withdrawalYears.every(row => row.bitcoinPurchased === 0)).toBe(true);
+    });
+
+    it('adds a tax lot at the purchase price for buy-backs', () => {
+      const plan = evaluateRetirementPlan(makeScenario({
+        buyBack: { enabled: true, belowRatio: 0.8, reserveYears: 2 },
+        capitalGainsTax: { enabled: true, startingCostBasis: 0 }
+      }));
+      if (!plan) throw new Error('expected a plan');
+      const buyYear = plan.withdrawalYears.find(row => row.bitcoinPurchased > 0);
+      if (!buyYear) throw new Error('expected a buy-back');
+      // Zero-basis holdings are all gain; the new lot adds no gain at its own price
+      expect(buyYear.unrealizedGain).toBeCloseTo((buyYear.remainingBitcoin - buyYear.bitcoinPurchased) * buyYear.bitcoinPrice, 0);
+    });
+
+    it('rolls monthly withdrawals up into yearly rows at the January plan prices', () => {
+      const yearly = evaluateRetirementPlan(makeScenario())!;
+      const monthly = evaluateRetirementPlan(makeScenario({ withdrawalFrequency: 'monthly' }))!;
+      expect(monthly.withdrawalYears).toHaveLength(RETIREMENT_YEARS);
+      monthly.withdrawalYears.forEach((row, index) => {
+        expect(row.annualWithdrawal).toBeCloseTo(30000, 6);
+        expect(row.bitcoinPrice).toBe(yearly.withdrawalYears[index].bitcoinPrice);
+      });
+      // Each month decides at its own price, so Bitcoin sales move away from the yearly lump sums
+      const bitcoinSold = (plan: typeof yearly) => plan.withdrawalYears.map(row => row.bitcoinSold);
+      expect(bitcoinSold(monthly)).not.toEqual(bitcoinSold(yearly));
+    });
+
+    it('taxes monthly sales on the year\'s total gains, like one yearly sale at flat prices', () => {
+      const overrides = {
+        retirementInputs: { bitcoinAmount: 5, cashAmount: 0, annualWithdrawal: 120000 },
+        priceModel: new CagrPriceModel({ ...createDefaultPriceModelSettings(2026), annualGrowth: 0 }),
+        customCycle: { name: 'Flat', multipliers: [1], repeat: false },
+        withdrawalStrategy: WithdrawalStrategyRegistry.create('cash-first', DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS),
+        capitalGainsTax: { enabled: true, mode: 'brackets' as const }
+      };
+      const yearly = evaluateRetirementPlan(makeScenario(overrides))!;
+      const monthly = evaluateRetirementPlan(makeScenario({ ...overrides, withdrawalFrequency: 'monthly' }))!;
+
+      expect(yearly.withdrawalYears[0].taxPaid).toBeGreaterThan(0);
+      expect(monthly.yearsLasted).toBe(yearly.yearsLasted);
+      monthly.withdrawalYears.slice(0, 3).forEach((row, index) => {
+        expect(row.taxPaid).toBeCloseTo(yearly.withdrawalYears[index].taxPaid, 0);
+      });
+    });
+
+    it('interpolates monthly prices geometrically toward next January\'s price', () => {
+      expect(interpolatePlanPrice(100, 400, 0)).toBe(100);
+      expect(interpolatePlanPrice(100, 400, 0.5)).toBeCloseTo(200, 6);
+      expect(interpolatePlanPrice(100, 400, 1)).toBeCloseTo(400, 6);
+    });
+
+    it('adds accumulation rows and projected Bitcoin when savings are enabled', () => {
+      const plan = evaluateRetirementPlan(makeScenario({
+        monthlySavingsInputs: { enabled: true, yearsToRetirement: 5 }
+      }))!;
+      const accumulation = plan.simulation.filter(row => row.phase === 'ACCUMULATION');
+      expect(accumulation).toHaveLength(5);
+      expect(plan.projectedBitcoin).toBeGreaterThan(0);
+      expect(plan.bitcoinAtRetirement).toBeCloseTo(10 + plan.projectedBitcoin, 8);
+      expect(plan.withdrawalYears[0].year).toBe(2031);
+      expect(plan.withdrawalYears[0].yearNumber).toBe(6);
+    });
+  });
+
+  describe('buildPlanChartData', () => {
+    const chartData: ChartDataPoint[] = [2025, 2026, 2030].map(year => {
+      const date = new Date(year, 6, 1);
+      return {
+        date: date.toISOString().split('T')[0],
+        actualPrice: null,
+        powerLawPrice: BitcoinPowerLaw.calculateFairValue(date),
+        powerLawFloor: BitcoinPowerLaw.calculateFloorPrice(date),
+        powerLawUpperBound: BitcoinPowerLaw.calculateUpperBound(date),
+        timestamp: date.getTime()
+      };
+    });
+
+    it('has no plan line without a plan', () => {
+      expect(buildPlanChartData(chartData, null).every(point => point.withdrawalPlanPrice === null)).toBe(true);
+    });
+
+    it('matches the table price for each year from retirement onward', () => {
+      const plan = evaluateRetirementPlan(makeScenario())!;
+      const overlay = buildPlanChartData(chartData, plan);
+      expect(overlay[0].withdrawalPlanPrice).toBeNull();
+      [overlay[1], overlay[2]].forEach(point => {
+        const year = new Date(point.timestamp).getFullYear();
+        const row = plan.withdrawalYears.find(r => r.year === year)!;
+        expect(point.withdrawalPlanPrice).toBeCloseTo(row.bitcoinPrice, 6);
+      });
+    });
+
+    it('follows the custom cycle in both the table and the chart line', () => {
+      const customCycle: CustomCycle = { name: 'Crash', multipliers: [0.3, 0.6, 1], repeat: false };
+      const plan = evaluateRetirementPlan(makeScenario({ customCycle }))!;
+      [0.3, 0.6, 1, 1].forEach((multiplier, index) => {
+        const row = plan.withdrawalYears[index];
+        expect(row.bitcoinPrice).toBeCloseTo(POWER_LAW_MODEL.fairValue(new Date(row.year, 0, 1)) * multiplier, 6);
+      });
+      expect(plan.withdrawalYears[0].cyclePhase).toBe('Crash (0.30×)');
+
+      const overlay = buildPlanChartData(chartData, plan, POWER_LAW_MODEL, DEFAULT_CYCLE_CALENDAR, customCycle);
+      expect(overlay[1].withdrawalPlanPrice).toBeCloseTo(plan.withdrawalYears[0].bitcoinPrice, 6);
+      expect(overlay[2].withdrawalPlanPrice).toBeCloseTo(plan.withdrawalYears[4].bitcoinPrice, 6);
+    });
+  });
+});
@@ -0,0 +1,541 @@
+import { POWER_LAW_MODEL, PriceModel } from '../models/PriceModel';
+import {
+  ChartDataPoint,
+  RetirementScenario,
+  SavingsProjection,
+  SimulationYear
+} from '../types/Bitcoin';
+import {
+  BearMarketTestResult,
+  CyclePhaseResult,
+  calculateCyclePrice,
+  calculateMonthlySavingsProjection,
+  testBearMarketSurvival
+} from './RetirementCalculations';
+import { calculateInflationFactor } from './Inflation';
+import { NO_REALIZED_GAINS, RealizedGains, TaxLot, calculateUnrealizedGain, grossUpBitcoinSale } from './CapitalGainsTax';
+import { calculateBuyBack, calculateCashRefill } from './CashReserve';
+import { CycleCalendarSettings, DEFAULT_CYCLE_CALENDAR } from './CycleCalendar';
+import { CustomCycle, calculateCustomCyclePrice } from './CustomCycle';
+
+/** Number of retirement years the withdrawal phase simulates */
+export const RETIREMENT_YEARS = 50;
+
+const MONTHS_PER_YEAR = 12;
+
+/**
+ * Price (and cycle label) for each calendar year of the withdrawal phase.
+ * Defaults to the scenario's custom cycle, or the deterministic worst-case cycle in calculatePlanCyclePrice.
+ */
+export type PlanPricePath = (year: number, yearIndex: number) => CyclePhaseResult;
+
+export interface RetirementPlanResult {
+  retirementStartYear: number;
+  savingsProjection: SavingsProjection[];
+  projectedBitcoin: number;
+  bitcoinAtRetirement: number;
+  simulation: SimulationYear[];
+  withdrawalYears: SimulationYear[];
+  simulationSucceeds: boolean;
+  yearsLasted: number;
+  depletionYear: number | null;
+  bearMarketTest: BearMarketTestResult;
+  totalTaxPaid: number;
+}
+
+/**
+ * Whether the scenario has anything to simulate: withdrawal needs and either
+ * starting Bitcoin or a monthly savings plan
+ */
+export const hasRetirementAssets = (scenario: RetirementScenario): boolean => {
+  const { retirementInputs, monthlySavingsInputs } = scenario;
+  const hasAssets = retirementInputs.bitcoinAmount > 0 ||
+    (monthlySavingsInputs.enabled && monthlySavingsInputs.monthlySavingsAmount > 0);
+  return hasAssets && retirementInputs.annualWithdrawal > 0;
+};
+
+/**
+ * First calendar year of withdrawals: the later of "Years until retirement"
+ * and the end of the monthly savings window
+ */
+export const getRetirementStartYear = (scenario: RetirementScenario): number => {
+  const { retirementInputs, monthlySavingsInputs, startDate } = scenario;
+  const yearsToRetirement = monthlySavingsInputs.enabled ? monthlySavingsInputs.yearsToRetirement : 0;
+  return startDate.getFullYear() + Math.max(retirementInputs.yearsUntilRetirement, yearsToRetirement);
+};
+
+/**
+ * Monthly savings projection for the scenario (empty when savings are disabled)
+ */
+export const getScenarioSavingsProjection = (scenario: RetirementScenario): SavingsProjection[] => {
+  const { monthlySavingsInputs, startDate, priceModel, cycleCalendar } = scenario;
+  if (!monthlySavingsInputs.enabled || monthlySavingsInputs.monthlySavingsAmount <= 0 || monthlySavingsInputs.yearsToRetirement <= 0) {
+    return [];
+  }
+  return calculateMonthlySavingsProjection(
+    monthlySavingsInputs.monthlySavingsAmount,
+    monthlySavingsInputs.yearsToRetirement,
+    monthlySavingsInputs.doubleDownInBearMarkets,
+    startDate,
+    priceModel,
+    cycleCalendar
+  );
+};
+
+/**
+ * Cost basis lots held at retirement: the starting holdings (held long-term at the configured cost basis)
+ * plus one lot per monthly savings purchase, oldest first
+ */
+export const getScenarioTaxLots = (
+  scenario: RetirementScenario,
+  savingsProjection: SavingsProjection[] = getScenarioSavingsProjection(scenario)
+): TaxLot[] => {
+  const { retirementInputs, startDate, capitalGainsTax } = scenario;
+  const lots: TaxLot[] = [];
+  if (retirementInputs.bitcoinAmount > 0) {
+    lots.push({
+      acquired: new Date(startDate.getFullYear() - 1, startDate.getMonth(), startDate.getDate()),
+      bitcoin: retirementInputs.bitcoinAmount,
+      costBasis: capitalGainsTax.startingCostBasis
+    });
+  }
+  savingsProjection.forEach(month => {
+    lots.push({
+      acquired: new Date(startDate.getFullYear() + month.year - 1, startDate.getMonth() + month.month - 1, startDate.getDate()),
+      bitcoin: month.bitcoinPurchased,
+      costBasis: month.bitcoinCyclePrice
+    });
+  });
+  return lots;
+};
+
+/**
+ * Cycle price for a year of the withdrawal plan, years before retirement priced as its first year
+ */
+const planYearPrice = (
+  retirementStartYear: number,
+  year: number,
+  priceModel: PriceModel,
+  cycleCalendar: CycleCalendarSettings
+): CyclePhaseResult => {
+  const planYear = Math.max(year, retirementStartYear);
+  const offset = planYear - retirementStartYear;
+
+  const targetDate = new Date(planYear, 0, 1);
+  const fairValue = priceModel.fairValue(targetDate);
+  const floorValue = priceModel.floor(targetDate);
+  const recoveryPrice = floorValue + (fairValue - floorValue) * 0.75;
+
+  if (offset === 0 || offset === 1) {
+    return {
+      price: floorValue,
+      phase: offset === 0 ? 'Retirement Start (Deep Bear — Year 1)' : 'Deep Bear (Floor) — Year 2',
+      cycleYear: 0
+    };
+  }
+  if (offset === 2) {
+    return { price: recoveryPrice, phase: 'Bear Market Recovery', cycleYear: 1 };
+  }
+
+  return calculateCyclePrice(planYear, false, priceModel, cycleCalendar);
+};
+
+/**
+ * Cycle price for a year of the withdrawal plan.
+ * Retirement starts in the worst case: 2 years at the floor, 1 year of recovery,
+ * then follows the halving-anchored cycle calendar (bull → peak → floor → recovery).
+ * Returns null for years before retirement starts.
+ */
+export const calculatePlanCyclePrice = (
+  retirementStartYear: number,
+  year: number,
+  priceModel: PriceModel = POWER_LAW_MODEL,
+  cycleCalendar: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR
+): CyclePhaseResult | null =>
+  year < retirementStartYear ? null : planYearPrice(retirementStartYear, year, priceModel, cycleCalendar);
+
+/**
+ * The withdrawal-phase price path a scenario uses on its own: its custom cycle when one is set,
+ * otherwise the worst-case start followed by the cycle calendar
+ */
+export const getPlanPricePath = (
+  retirementStartYear: number,
+  priceModel: PriceModel,
+  cycleCalendar: CycleCalendarSettings,
+  customCycle: CustomCycle | null
+): PlanPricePath => {
+  if (customCycle) {
+    return (year, yearIndex) => calculateCustomCyclePrice(customCycle, year, yearIndex, priceModel);
+  }
+  return year => planYearPrice(retirementStartYear, year, priceModel, cycleCalendar);
+};
+
+/**
+ * Build the accumulation-phase rows by aggregating the monthly savings projection per year
+ */
+const simulateAccumulation = (
+  scenario: RetirementScenario,
+  savingsProjection: SavingsProjection[]
+): SimulationYear[] => {
+  const { retirementInputs, monthlySavingsInputs, startDate, priceModel, inflation, cycleCalendar } = scenario;
+  const rows: SimulationYear[] = [];
+  if (!monthlySavingsInputs.enabled || monthlySavingsInputs.yearsToRetirement <= 0) {
+    return rows;
+  }
+
+  const currentYear = startDate.getFullYear();
+  const yearlyAggregation: {[year: number]: {bitcoinPurchased: number, cashInvested: number, endingBitcoin: number}} = {};
+  for (const monthData of savingsProjection) {
+    const actualYear = currentYear + monthData.year - 1;
+    if (!yearlyAggregation[actualYear]) {
+      yearlyAggregation[actualYear] = {bitcoinPurchased: 0, cashInvested: 0, endingBitcoin: 0};
+    }
+    yearlyAggregation[actualYear].bitcoinPurchased += monthData.bitcoinPurchased;
+    yearlyAggregation[actualYear].cashInvested += monthData.monthlySavingsAmount;
+    yearlyAggregation[actualYear].endingBitcoin = retirementInputs.bitcoinAmount + monthData.totalBitcoinAccumulated;
+  }
+
+  let cumulativeCashInvested = 0;
+  for (let year = 0; year < monthlySavingsInputs.yearsToRetirement; year++) {
+    const simulationYear = currentYear + year;
+    const yearData = yearlyAggregation[simulationYear];
+    if (!yearData) continue;
+
+    cumulativeCashInvested += yearData.cashInvested;
+    const bitcoinFairValue = priceModel.fairValue(new Date(simulationYear, 0, 1));
+    const cycle = calculateCyclePrice(simulationYear, year === 0, priceModel, cycleCalendar);
+    // Same bear market rule as the savings projection: cycle years 0 and 1, never the current year
+    const isBearMarketYear = year > 0 && (cycle.cycleYear === 0 || cycle.cycleYear === 1);
+
+    let withdrawalSource = `Investing $${Math.round(yearData.cashInvested).toLocaleString()}/year`;
+    if (monthlySavingsInputs.doubleDownInBearMarkets && isBearMarketYear) {
+      withdrawalSource += ' 🐻 (2x Bear Market!)';
+    }
+
+    rows.push({
+      year: simulationYear,
+      yearNumber: year + 1,
+      phase: 'ACCUMULATION',
+      bitcoinPrice: cycle.price,
+      fairValue: bitcoinFairValue,
+      priceToFairRatio: cycle.price / bitcoinFairValue,
+      cyclePhase: cycle.phase,
+      annualWithdrawal: 0,
+      withdrawalSource,
+      cashUsed: 0,
+      bitcoinSold: 0,
+      bitcoinPurchased: yearData.bitcoinPurchased,
+      cashRefill: 0,
+      remainingCash: retirementInputs.cashAmount,
+      remainingBitcoin: yearData.endingBitcoin,
+      remainingBitcoinValue: yearData.endingBitcoin * cycle.price,
+      totalRemainingValue: yearData.endingBitcoin * cycle.price + retirementInputs.cashAmount,
+      totalCashInvested: cumulativeCashInvested,
+      inflationFactor: calculateInflationFactor(inflation, currentYear, simulationYear),
+      taxPaid: 0,
+      effectiveTaxRate: 0,
+      unrealizedGain: 0
+    });
+  }
+
+  return rows;
+};
+
+/**
+ * Price a share of the way through a year, moving geometrically from this January's price to next January's
+ */
+export const interpolatePlanPrice = (startPrice: number, endPrice: number, fraction: number): number => {
+  if (startPrice <= 0 || endPrice <= 0) return startPrice;
+  return startPrice * Math.pow(endPrice / startPrice, fraction);
+};
+
+/**
+ * Simulate the retirement withdrawals year by year with the scenario's withdrawal strategy.
+ * The annual withdrawal is in today's dollars and grows with the scenario's inflation from startDate;
+ * strategies that set their own spending report it as the year's withdrawal.
+ * With monthly withdrawals the strategy decides every month at a price interpolated toward next January's,
+ * and each row totals the year's months.
+ * With capital gains tax enabled, Bitcoin sales are grossed up from the tax lots chosen by the lot selection method.
+ */
+export const simulateWithdrawalPhase = (
+  scenario: RetirementScenario,
+  retirementStartYear: number,
+  startingBitcoin: number,
+  pricePath: PlanPricePath = getPlanPricePath(retirementStartYear, scenario.priceModel, scenario.cycleCalendar, scenario.customCycle),
+  totalCashInvested: number = 0,
+  taxLots: TaxLot[] = scenario.capitalGainsTax.enabled ? getScenarioTaxLots(scenario) : []
+): SimulationYear[] => {
+  const { retirementInputs, monthlySavingsInputs, priceModel, inflation, startDate, capitalGainsTax, smartWithdrawal, withdrawalStrategy, cashRefill, buyBack } = scenario;
+  const rows: SimulationYear[] = [];
+  const yearsToRetirement = monthlySavingsInputs.enabled ? monthlySavingsInputs.yearsToRetirement : 0;
+  const periodsPerYear = scenario.withdrawalFrequency === 'monthly' ? MONTHS_PER_YEAR : 1;
+  let remainingBitcoin = startingBitcoin;
+  let remainingCash = retirementInputs.cashAmount;
+  let lots = taxLots;
+  let initialPortfolioValue = 0;
+  let previousWithdrawal: number | null = null;
+  let previousPortfolioValue: number | null = null;
+  const retirementInflationFactor = calculateInflationFactor(inflation, startDate.getFullYear(), retirementStartYear);
+
+  for (let year = 0; year < RETIREMENT_YEARS; year++) {
+    const currentSimulationYear = retirementStartYear + year;
+    const targetDate = new Date(currentSimulationYear, 0, 1);
+    const inflationFactor = calculateInflationFactor(inflation, startDate.getFullYear(), currentSimulationYear);
+    const fairValue = priceModel.fairValue(targetDate);
+    const cycle = pricePath(currentSimulationYear, year);
+    const bitcoinPrice = cycle.price;
+    // Monthly prices head toward next January's; the last plan year has no next year and stays flat
+    const nextPrice = periodsPerYear > 1 && year < RETIREMENT_YEARS - 1
+      ? pricePath(currentSimulationYear + 1, year + 1).price
+      : bitcoinPrice;
+    const portfolioValue = remainingCash + remainingBitcoin * bitcoinPrice;
+    if (year === 0) {
+      initialPortfolioValue = portfolioValue;
+    }
+
+    let annualWithdrawal = 0;
+    let cashUsed = 0;
+    let bitcoinSold = 0;
+    let strategyRefill = 0;
+    let reserveRefill = 0;
+    let bitcoinPurchased = 0;
+    let buyBackCash = 0;
+    let taxPaid = 0;
+    let depleted = false;
+    // Monthly sales share one tax year, so each pays only the tax it adds to the year's gains
+    let yearGains: RealizedGains = NO_REALIZED_GAINS;
+    const strategies: string[] = [];
+
+    for (let period = 0; period < periodsPerYear; period++) {
+      const periodDate = new Date(currentSimulationYear, period * MONTHS_PER_YEAR / periodsPerYear, 1);
+      const periodPrice = interpolatePlanPrice(bitcoinPrice, nextPrice, period / periodsPerYear);
+      const periodRatio = periodPrice / priceModel.fairValue(periodDate);
+
+      const withdrawal = withdrawalStrategy.withdraw({
+        yearIndex: year,
+        yearsRemaining: RETIREMENT_YEARS - year,
+        date: periodDate,
+        bitcoinPrice: periodPrice,
+        periodFraction: 1 / periodsPerYear,
+        availableCash: remainingCash,
+        availableBitcoin: remainingBitcoin,
+        plannedWithdrawal: retirementInputs.annualWithdrawal * inflationFactor,
+        inflationSinceRetirement: inflationFactor / retirementInflationFactor,
+        yearlyInflation: calculateInflationFactor(inflation, currentSimulationYear - 1, currentSimulationYear),
+        initialPortfolioValue,
+        previousWithdrawal,
+        previousPortfolioValue,
+        priceModel,
+        smartWithdrawal
+      });
+      if (strategies.indexOf(withdrawal.strategy) === -1) {
+        strategies.push(withdrawal.strategy);
+      }
+
+      // The optional refill rule tops cash up after the strategy has spent and refilled
+      const periodRefill = calculateCashRefill(cashRefill, {
+        fairValueRatio: periodRatio,
+        bitcoinPrice: periodPrice,
+        annualWithdrawal: withdrawal.amount * periodsPerYear,
+        cash: remainingCash - withdrawal.cashUsed + withdrawal.cashRefill,
+        bitcoin: remainingBitcoin - withdrawal.bitcoinSold
+      });
+      let periodBitcoinSold = withdrawal.bitcoinSold + periodRefill / periodPrice;
+      if (capitalGainsTax.enabled && periodBitcoinSold > 0) {
+        const sale = grossUpBitcoinSale(capitalGainsTax, lots, periodBitcoinSold * periodPrice, periodPrice, periodDate, inflationFactor, yearGains);
+        yearGains = {
+          shortTermGain: yearGains.shortTermGain + sale.shortTermGain,
+          longTermGain: yearGains.longTermGain + sale.longTermGain
+        };
+        periodBitcoinSold = sale.bitcoinSold;
+        taxPaid += sale.taxPaid;
+        lots = sale.remainingLots;
+      }
+      remainingCash += withdrawal.cashRefill + periodRefill - withdrawal.cashUsed;
+      remainingBitcoin -= periodBitcoinSold;
+
+      // The optional buy-back converts cash above the reserve into Bitcoin in deeply undervalued years
+      const periodBuyBack = calculateBuyBack(buyBack, {
+        fairValueRatio: periodRatio,
+        bitcoinPrice: periodPrice,
+        annualWithdrawal: withdrawal.amount * periodsPerYear,
+        cash: remainingCash,
+        bitcoin: remainingBitcoin
+      });
+      const periodPurchase = periodBuyBack / periodPrice;
+      if (periodPurchase > 0) {
+        remainingCash -= periodBuyBack;
+        remainingBitcoin += periodPurchase;
+        if (capitalGainsTax.enabled) {
+          lots = [...lots, { acquired: periodDate, bitcoin: periodPurchase, costBasis: periodPrice }];
+        }
+      }
+
+      annualWithdrawal += withdrawal.amount;
+      cashUsed += withdrawal.cashUsed;
+      bitcoinSold += periodBitcoinSold;
+      strategyRefill += withdrawal.cashRefill;
+      reserveRefill += periodRefill;
+      bitcoinPurchased += periodPurchase;
+      buyBackCash += periodBuyBack;
+
+      if (remainingBitcoin < 0) {
+        remainingBitcoin = 0;
+        depleted = true;
+      }
+      if (remainingBitcoin <= 0 && remainingCash <= 0) {
+        break;
+      }
+    }
+    previousWithdrawal = annualWithdrawal;
+    previousPortfolioValue = portfolioValue;
+    const totalRefill = strategyRefill + reserveRefill;
+
+    let withdrawalSource = strategies.join(' → ');
+    if (cashUsed > 0 && bitcoinSold > 0) {
+      const cashPercent = (cashUsed / annualWithdrawal * 100).toFixed(0);
+      const bitcoinPercent = (100 - parseFloat(cashPercent)).toFixed(0);
+      withdrawalSource = `${withdrawalSource} (${cashPercent}%/${bitcoinPercent}%)`;
+    }
+    if (strategyRefill > 0) {
+      withdrawalSource += ` +$${Math.round(strategyRefill).toLocaleString()} to cash`;
+    }
+    if (reserveRefill > 0) {
+      withdrawalSource += ` 🔄 Refill +$${Math.round(reserveRefill).toLocaleString()} to cash`;
+    }
+    if (bitcoinPurchased > 0) {
+      withdrawalSource += ` 🛒 Bought ${bitcoinPurchased.toFixed(4)} BTC with $${Math.round(buyBackCash).toLocaleString()}`;
+    }
+
+    if (depleted) {
+      withdrawalSource += ' (DEPLETED)';
+    }
+
+    if (year === 0) {
+      withdrawalSource = 'Retirement Start — ' + withdrawalSource;
+    }
+
+    const remainingBitcoinValue = remainingBitcoin * bitcoinPrice;
+
+    rows.push({
+      year: currentSimulationYear,
+      yearNumber: yearsToRetirement + year + 1,
+      phase: year === 0 ? 'RETIREMENT START' : 'WITHDRAWAL',
+      bitcoinPrice,
+      fairValue,
+      priceToFairRatio: bitcoinPrice / fairValue,
+      cyclePhase: cycle.phase,
+      annualWithdrawal,
+      withdrawalSource,
+      cashUsed,
+      bitcoinSold,
+      bitcoinPurchased,
+      cashRefill: totalRefill,
+      remainingCash,
+      remainingBitcoin,
+      remainingBitcoinValue,
+      totalRemainingValue: remainingBitcoinValue + remainingCash,
+      totalCashInvested,
+      inflationFactor,
+      taxPaid,
+      effectiveTaxRate: taxPaid > 0 ? taxPaid / (annualWithdrawal + taxPaid) : 0,
+      unrealizedGain: capitalGainsTax.enabled ? calculateUnrealizedGain(lots, bitcoinPrice) : 0
+    });
+
+    if (remainingBitcoin <= 0 && remainingCash <= 0) {
+      break;
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Pass/fail verdict for a withdrawal phase: all 50 years funded with Bitcoin left at the end
+ */
+export const withdrawalPhaseSucceeds = (withdrawalYears: SimulationYear[]): boolean => {
+  const finalYear = withdrawalYears[withdrawalYears.length - 1];
+  return withdrawalYears.length >= RETIREMENT_YEARS &&
+    finalYear.remainingBitcoin > 0 &&
+    finalYear.totalRemainingValue > 0;
+};
+
+/**
+ * Index of the first withdrawal year with no Bitcoin or cash left (-1 if never depleted)
+ */
+export const findDepletionIndex = (withdrawalYears: SimulationYear[]): number => {
+  return withdrawalYears.findIndex(row => row.remainingBitcoin <= 0 && row.remainingCash <= 0);
+};
+
+/**
+ * Run the full plan for a scenario: savings accumulation, 50 years of withdrawals,
+ * the Bear Market Test at retirement and the pass/fail verdict.
+ * Returns null when there is nothing to simulate.
+ */
+export const evaluateRetirementPlan = (scenario: RetirementScenario): RetirementPlanResult | null => {
+  if (!hasRetirementAssets(scenario)) {
+    return null;
+  }
+
+  const { retirementInputs, priceModel, inflation, startDate } = scenario;
+  const retirementStartYear = getRetirementStartYear(scenario);
+  const savingsProjection = getScenarioSavingsProjection(scenario);
+  const lastProjection = savingsProjection[savingsProjection.length - 1];
+  const projectedBitcoin = lastProjection ? lastProjection.totalBitcoinAccumulated : 0;
+  const totalCashInvested = lastProjection ? lastProjection.totalCashInvested : 0;
+  const bitcoinAtRetirement = retirementInputs.bitcoinAmount + projectedBitcoin;
+
+  const accumulationYears = simulateAccumulation(scenario, savingsProjection);
+  const taxLots = scenario.capitalGainsTax.enabled ? getScenarioTaxLots(scenario, savingsProjection) : [];
+  const withdrawalYears = simulateWithdrawalPhase(
+    scenario, retirementStartYear, bitcoinAtRetirement, undefined, totalCashInvested, taxLots
+  );
+  const simulationSucceeds = withdrawalPhaseSucceeds(withdrawalYears);
+  const depletionIndex = findDepletionIndex(withdrawalYears);
+
+  const bearMarketTest = testBearMarketSurvival(
+    priceModel.fairValue(new Date(retirementStartYear, 0, 1)),
+    retirementStartYear,
+    bitcoinAtRetirement,
+    retirementInputs.annualWithdrawal * calculateInflationFactor(inflation, startDate.getFullYear(), retirementStartYear),
+    retirementInputs.cashAmount,
+    priceModel,
+    inflation,
+    scenario.bearMarketTest
+  );
+
+  return {
+    retirementStartYear,
+    savingsProjection,
+    projectedBitcoin,
+    bitcoinAtRetirement,
+    simulation: [...accumulationYears, ...withdrawalYears],
+    withdrawalYears,
+    simulationSucceeds,
+    yearsLasted: depletionIndex >= 0 ? depletionIndex + 1 : withdrawalYears.length,
+    depletionYear: depletionIndex >= 0 ? withdrawalYears[depletionIndex].year : null,
+    bearMarketTest,
+    totalTaxPaid: withdrawalYears.reduce((sum, row) => sum + row.taxPaid, 0)
+  };
+};
+
+/**
+ * Overlay the plan's projected prices onto chart data (null before retirement starts)
+ */
+export const buildPlanChartData = (
+  chartData: ChartDataPoint[],
+  plan: RetirementPlanResult | null,
+  priceModel: PriceModel = POWER_LAW_MODEL,
+  cycleCalendar: CycleCalendarSettings = DEFAULT_CYCLE_CALENDAR,
+  customCycle: CustomCycle | null = null
+): ChartDataPoint[] => {
+  const pricePath = plan ? getPlanPricePath(plan.retirementStartYear, priceModel, cycleCalendar, customCycle) : null;
+  return chartData.map(point => {
+    const year = new Date(point.timestamp).getFullYear();
+    const yearIndex = plan ? year - plan.retirementStartYear : -1;
+    return {
+      ...point,
+      withdrawalPlanPrice: pricePath && yearIndex >= 0 ? pricePath(year, yearIndex).price : null
+    };
+  });
+};
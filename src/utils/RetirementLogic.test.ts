@@ -1,116 +1,37 @@
 /**
  * Tests for retirement logic used in BitcoinChart:
  * - Bear Market Test (2 years at floor, 1 year recovery, 20-year runway)
- * - 50-year simulation cycle prices (year 0,1 = floor; 2 = recovery; 3+ = 4-year cycle)
+ * - 50-year simulation cycle prices (year 0,1 = floor; 2 = recovery; 3+ = halving cycle calendar)
  * - Chart projected price formula (same anchor and sequence)
+ *
+ * The chart and table both consume the shared RetirementEngine, so these helpers call it directly.
  */
 
 import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { calculateCyclePrice, testBearMarketSurvival } from './RetirementCalculations';
+import { calculatePlanCyclePrice } from './RetirementEngine';
 
-// Replicate the Bear Market Test logic from BitcoinChart (2 years at floor, then recovery, then 20-year runway)
 function bearMarketTest(
   year: number,
   bitcoinHoldings: number,
   annualWithdrawal: number,
   cashHoldings: number = 0
 ): { passes: boolean; remainingBitcoin: number; remainingCash: number } {
-  if (bitcoinHoldings <= 0 || annualWithdrawal <= 0) return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
-
-  let remainingBitcoin = bitcoinHoldings;
-  let remainingCash = Math.max(0, cashHoldings);
-  const targetDate = new Date(year, 0, 1);
-  const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-  const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-  const deepBearPrice = floorValue;
-
-  // Year 1 at floor
-  if (remainingCash >= annualWithdrawal) {
-    remainingCash -= annualWithdrawal;
-  } else {
-    const need = annualWithdrawal - remainingCash;
-    remainingCash = 0;
-    remainingBitcoin -= need / deepBearPrice;
-    if (remainingBitcoin < 0) return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
-  }
-  // Year 2 at floor
-  if (remainingCash >= annualWithdrawal) {
-    remainingCash -= annualWithdrawal;
-  } else {
-    const need = annualWithdrawal - remainingCash;
-    remainingCash = 0;
-    remainingBitcoin -= need / deepBearPrice;
-    if (remainingBitcoin < 0) return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
-  }
-  // Year 3 recovery
-  const bearRecoveryPrice = floorValue + (fairValue - floorValue) * 0.75;
-  if (remainingCash >= annualWithdrawal) {
-    remainingCash -= annualWithdrawal;
-  } else {
-    const need = annualWithdrawal - remainingCash;
-    remainingCash = 0;
-    remainingBitcoin -= need / bearRecoveryPrice;
-    if (remainingBitcoin < 0) return { passes: false, remainingBitcoin: 0, remainingCash: 0 };
-  }
-
-  const totalRemainingValue = remainingBitcoin * fairValue + remainingCash;
-  const yearsOfRunway = totalRemainingValue / annualWithdrawal;
-  const minimumYearsRequired = 20;
-
-  return {
-    passes: yearsOfRunway >= minimumYearsRequired,
-    remainingBitcoin,
-    remainingCash
-  };
+  const fairValue = BitcoinPowerLaw.calculateFairValue(new Date(year, 0, 1));
+  return testBearMarketSurvival(fairValue, year, bitcoinHoldings, annualWithdrawal, cashHoldings);
 }
 
-// Replicate 50-year simulation price for withdrawal year index (0 = first year of retirement)
+// 50-year simulation price for withdrawal year index (0 = first year of retirement)
 function getWithdrawalPhasePrice(retirementStartYear: number, yearIndex: number): { price: number; phase: string } {
-  const targetDate = new Date(retirementStartYear + yearIndex, 0, 1);
-  const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-  const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-  const upperBound = BitcoinPowerLaw.calculateUpperBound(targetDate);
-
-  if (yearIndex === 0 || yearIndex === 1) {
-    return { price: floorValue, phase: yearIndex === 0 ? 'Retirement Start (Deep Bear — Year 1)' : 'Deep Bear (Floor) — Year 2' };
-  }
-  if (yearIndex === 2) {
-    const price = floorValue + (fairValue - floorValue) * 0.75;
-    return { price, phase: 'Bear Market Recovery' };
-  }
-  const cycleYear = (yearIndex - 3) % 4;
-  switch (cycleYear) {
-    case 0:
-      return { price: floorValue, phase: 'Deep Bear (Floor)' };
-    case 1:
-      return { price: floorValue + (fairValue - floorValue) * 0.75, phase: 'Bear Market Recovery' };
-    case 2:
-      return { price: fairValue + (upperBound - fairValue) * 0.7, phase: 'Bull Market' };
-    case 3:
-      return { price: fairValue + (upperBound - fairValue) * 0.3, phase: 'Bull Peak & Correction' };
-    default:
-      return { price: fairValue, phase: 'Fair Value' };
-  }
+  const cycle = calculatePlanCyclePrice(retirementStartYear, retirementStartYear + yearIndex);
+  if (!cycle) throw new Error('Year index before retirement start');
+  return { price: cycle.price, phase: cycle.phase };
 }
 
-// Chart plan price: anchor year = chartRetirementStartYear, same sequence (0,1=floor; 2=recovery; 3+=cycle)
+// Chart plan price: anchor year = chartRetirementStartYear, same sequence (0,1=floor; 2=recovery; 3+=calendar)
 function getChartPlanPriceForYear(year: number, chartRetirementStartYear: number): number | null {
-  if (year < chartRetirementStartYear) return null;
-  const targetDate = new Date(year, 0, 1);
-  const fairValue = BitcoinPowerLaw.calculateFairValue(targetDate);
-  const floorValue = BitcoinPowerLaw.calculateFloorPrice(targetDate);
-  const upperBound = BitcoinPowerLaw.calculateUpperBound(targetDate);
-  const offset = year - chartRetirementStartYear;
-
-  if (offset === 0 || offset === 1) return floorValue;
-  if (offset === 2) return floorValue + (fairValue - floorValue) * 0.75;
-  const cycleYear = (offset - 3) % 4;
-  switch (cycleYear) {
-    case 0: return floorValue;
-    case 1: return floorValue + (fairValue - floorValue) * 0.75;
-    case 2: return fairValue + (upperBound - fairValue) * 0.7;
-    case 3: return fairValue + (upperBound - fairValue) * 0.3;
-    default: return fairValue;
-  }
+  const cycle = calculatePlanCyclePrice(chartRetirementStartYear, year);
+  return cycle ? cycle.price : null;
 }
 
 describe('RetirementLogic (chart/table)', () => {
@@ -185,38 +106,39 @@ describe('RetirementLogic (chart/table)', () => {
       expect(y2.phase).toBe('Bear Market Recovery');
     });
 
-    it('years 3–6 repeat floor, recovery, bull, peak', () => {
+    it('years 3–6 follow the halving calendar: bull, peak, floor, recovery', () => {
+      // 2029-2032: the first cycle after the estimated 2028 halving
       const y3 = getWithdrawalPhasePrice(startYear, 3);
       const y4 = getWithdrawalPhasePrice(startYear, 4);
       const y5 = getWithdrawalPhasePrice(startYear, 5);
       const y6 = getWithdrawalPhasePrice(startYear, 6);
-      expect(y3.phase).toBe('Deep Bear (Floor)');
-      expect(y4.phase).toBe('Bear Market Recovery');
-      expect(y5.phase).toBe('Bull Market');
-      expect(y6.phase).toBe('Bull Peak & Correction');
+      expect(y3.phase).toBe('Bull Market');
+      expect(y4.phase).toBe('Bull Peak & Correction');
+      expect(y5.phase).toBe('Deep Bear (Floor)');
+      expect(y6.phase).toBe('Bear Market Recovery');
     });
 
     it('cycle repeats every 4 years after year 2', () => {
       const y7 = getWithdrawalPhasePrice(startYear, 7);
       const y8 = getWithdrawalPhasePrice(startYear, 8);
-      expect(y7.phase).toBe('Deep Bear (Floor)');
-      expect(y8.phase).toBe('Bear Market Recovery');
+      expect(y7.phase).toBe('Bull Market');
+      expect(y8.phase).toBe('Bull Peak & Correction');
     });
 
     it('bull price is above fair value', () => {
-      const y5 = getWithdrawalPhasePrice(startYear, 5);
-      const d = new Date(startYear + 5, 0, 1);
+      const y3 = getWithdrawalPhasePrice(startYear, 3);
+      const d = new Date(startYear + 3, 0, 1);
       const fair = BitcoinPowerLaw.calculateFairValue(d);
-      expect(y5.price).toBeGreaterThan(fair);
+      expect(y3.price).toBeGreaterThan(fair);
     });
 
     it('peak price is above fair value, below upper bound', () => {
-      const y6 = getWithdrawalPhasePrice(startYear, 6);
-      const d = new Date(startYear + 6, 0, 1);
+      const y4 = getWithdrawalPhasePrice(startYear, 4);
+      const d = new Date(startYear + 4, 0, 1);
       const fair = BitcoinPowerLaw.calculateFairValue(d);
       const upper = BitcoinPowerLaw.calculateUpperBound(d);
-      expect(y6.price).toBeGreaterThan(fair);
-      expect(y6.price).toBeLessThanOrEqual(upper);
+      expect(y4.price).toBeGreaterThan(fair);
+      expect(y4.price).toBeLessThanOrEqual(upper);
     });
   });
 
@@ -329,12 +251,11 @@ describe('RetirementLogic (chart/table)', () => {
         expect(phases).toContain(y49.phase);
       });
 
-      it('cycle phases are consistent for different retirement start years', () => {
+      it('cycle phases after the worst-case start follow the calendar for any retirement start year', () => {
         for (const start of [2026, 2035, 2044]) {
-          const y3 = getWithdrawalPhasePrice(start, 3);
-          const y7 = getWithdrawalPhasePrice(start, 7);
-          expect(y3.phase).toBe('Deep Bear (Floor)');
-          expect(y7.phase).toBe('Deep Bear (Floor)');
+          for (let yearIndex = 3; yearIndex < 8; yearIndex++) {
+            expect(getWithdrawalPhasePrice(start, yearIndex).phase).toBe(calculateCyclePrice(start + yearIndex).phase);
+          }
         }
       });
     });
@@ -0,0 +1,189 @@
+/**
+ * Tests for the retirement solver:
+ * - Generic search for the highest passing amount
+ * - Maximum sustainable withdrawal passes both checks and one more step fails
+ * - Implied safe withdrawal rate at retirement
+ * - No result without Bitcoin or savings
+ * - Required Bitcoin today and required monthly savings sit on the pass/fail boundary
+ * - Bear-market doubling lowers the required monthly savings
+ * - Earliest retirement year is the first passing year, with the savings window ending there
+ */
+
+import { RetirementScenario } from '../types/Bitcoin';
+import { NO_INFLATION } from './Inflation';
+import { evaluateRetirementPlan } from './RetirementEngine';
+import {
+  BITCOIN_PRECISION,
+  SAVINGS_PRECISION,
+  SOLVER_PRECISION,
+  findEarliestRetirementYear,
+  findMaxSustainableWithdrawal,
+  findRequiredBitcoin,
+  findRequiredMonthlySavings,
+  planPasses,
+  searchHighestPassing,
+  searchLowestPassing,
+  solveRetirement
+} from './RetirementSolver';
+import { makeTestScenario } from './testScenario';
+
+const withWithdrawal = (scenario: RetirementScenario, annualWithdrawal: number): RetirementScenario => ({
+  ...scenario,
+  retirementInputs: { ...scenario.retirementInputs, annualWithdrawal }
+});
+
+describe('RetirementSolver', () => {
+  describe('searchHighestPassing', () => {
+    it('finds the highest passing multiple of the precision from any start', () => {
+      const passes = (amount: number) => amount <= 123456;
+      expect(searchHighestPassing(passes, 100, 1000)).toBe(123400);
+      expect(searchHighestPassing(passes, 100, 900000)).toBe(123400);
+      expect(searchHighestPassing(passes, 1, 0)).toBe(123456);
+    });
+
+    it('returns 0 when even one step fails', () => {
+      expect(searchHighestPassing(() => false, 100, 5000)).toBe(0);
+    });
+
+    it('finds the lowest passing multiple, 0 when everything passes and null past the limit', () => {
+      const passes = (amount: number) => amount >= 123456;
+      expect(searchLowestPassing(passes, 100, 1000)).toBe(123500);
+      expect(searchLowestPassing(passes, 100, 900000)).toBe(123500);
+      expect(searchLowestPassing(() => true, 100, 5000)).toBe(0);
+      expect(searchLowestPassing(passes, 100, 100, 100000)).toBeNull();
+    });
+  });
+
+  describe('findMaxSustainableWithdrawal', () => {
+    it('passes both checks at the result and fails one step above', () => {
+      const scenario = makeTestScenario();
+      const result = findMaxSustainableWithdrawal(scenario)!;
+      expect(result.annualWithdrawal).toBeGreaterThan(0);
+      expect(result.annualWithdrawal % SOLVER_PRECISION).toBe(0);
+      expect(planPasses(result.plan)).toBe(true);
+      expect(planPasses(evaluateRetirementPlan(withWithdrawal(scenario, result.annualWithdrawal + SOLVER_PRECISION)))).toBe(false);
+    });
+
+    it('does not depend on the withdrawal the user entered', () => {
+      const low = findMaxSustainableWithdrawal(makeTestScenario({ retirementInputs: { annualWithdrawal: 1000 } }))!;
+      const high = findMaxSustainableWithdrawal(makeTestScenario({ retirementInputs: { annualWithdrawal: 10000000 } }))!;
+      expect(high.annualWithdrawal).toBe(low.annualWithdrawal);
+    });
+
+    it('reports the first-year withdrawal as a share of the portfolio at retirement', () => {
+      const result = findMaxSustainableWithdrawal(makeTestScenario({
+        retirementInputs: { yearsUntilRetirement: 5 },
+        inflation: { ...NO_INFLATION, annualRate: 0.03 }
+      }))!;
+      const plan = result.plan!;
+      expect(result.nominalWithdrawalAtRetirement).toBeCloseTo(plan.withdrawalYears[0].annualWithdrawal, 6);
+      expect(result.portfolioValueAtRetirement).toBeCloseTo(5 * plan.withdrawalYears[0].bitcoinPrice + 100000, 6);
+      expect(result.safeWithdrawalRate).toBeCloseTo(result.nominalWithdrawalAtRetirement / result.portfolioValueAtRetirement, 10);
+    });
+
+    it('returns 0 when no withdrawal passes and null without Bitcoin or savings', () => {
+      const tiny = findMaxSustainableWithdrawal(makeTestScenario({ retirementInputs: { bitcoinAmount: 0.0001, cashAmount: 0 } }))!;
+      expect(tiny.annualWithdrawal).toBe(0);
+      expect(tiny.safeWithdrawalRate).toBe(0);
+      expect(tiny.plan).toBeNull();
+      expect(findMaxSustainableWithdrawal(makeTestScenario({ retirementInputs: { bitcoinAmount: 0 } }))).toBeNull();
+    });
+  });
+
+  describe('findRequiredBitcoin', () => {
+    it('passes at the result and fails one step below', () => {
+      const scenario = makeTestScenario({ retirementInputs: { bitcoinAmount: 1 } });
+      const result = findRequiredBitcoin(scenario)!;
+      const withBitcoin = (bitcoinAmount: number) => ({
+        ...scenario,
+        retirementInputs: { ...scenario.retirementInputs, bitcoinAmount }
+      });
+      expect(planPasses(result.plan)).toBe(true);
+      expect(planPasses(evaluateRetirementPlan(withBitcoin(result.bitcoinAmount - BITCOIN_PRECISION)))).toBe(false);
+      expect(result.shortfall).toBeCloseTo(result.bitcoinAmount - 1, 10);
+    });
+
+    it('reports no shortfall when current holdings already pass', () => {
+      const result = findRequiredBitcoin(makeTestScenario({ retirementInputs: { bitcoinAmount: 100 } }))!;
+      expect(result.bitcoinAmount).toBeLessThan(100);
+      expect(result.shortfall).toBe(0);
+    });
+  });
+
+  describe('findRequiredMonthlySavings', () => {
+    const scenario = makeTestScenario({ retirementInputs: { bitcoinAmount: 0.5, cashAmount: 50000, yearsUntilRetirement: 10 } });
+
+    it('saves until retirement and passes at the result but not one step below', () => {
+      const result = findRequiredMonthlySavings(scenario, false)!;
+      expect(result.yearsToRetirement).toBe(10);
+      expect(result.plan!.retirementStartYear).toBe(2036);
+      expect(planPasses(result.plan)).toBe(true);
+      const below = evaluateRetirementPlan({
+        ...scenario,
+        monthlySavingsInputs: {
+          enabled: true,
+          monthlySavingsAmount: result.monthlySavingsAmount - SAVINGS_PRECISION,
+          yearsToRetirement: 10,
+          doubleDownInBearMarkets: false
+        }
+      });
+      expect(planPasses(below)).toBe(false);
+      expect(result.totalCashInvested).toBeCloseTo(result.monthlySavingsAmount * 120, 6);
+    });
+
+    it('needs less each month when doubling in bear markets', () => {
+      const plain = findRequiredMonthlySavings(scenario, false)!;
+      const doubled = findRequiredMonthlySavings(scenario, true)!;
+      expect(doubled.monthlySavingsAmount).toBeLessThan(plain.monthlySavingsAmount);
+      expect(doubled.totalCashInvested).toBeGreaterThan(doubled.monthlySavingsAmount * 120);
+    });
+
+    it('returns null with no years left to save', () => {
+      expect(findRequiredMonthlySavings(makeTestScenario({ retirementInputs: { yearsUntilRetirement: 0 } }))).toBeNull();
+    });
+  });
+
+  describe('findEarliestRetirementYear', () => {
+    const withYears = (scenario: RetirementScenario, years: number): RetirementScenario => ({
+      ...scenario,
+      retirementInputs: { ...scenario.retirementInputs, yearsUntilRetirement: years },
+      monthlySavingsInputs: { ...scenario.monthlySavingsInputs, yearsToRetirement: years }
+    });
+
+    it('retires today when the plan already passes', () => {
+      const result = findEarliestRetirementYear(makeTestScenario({ retirementInputs: { bitcoinAmount: 100, yearsUntilRetirement: 10 } }))!;
+      expect(result.yearsUntilRetirement).toBe(0);
+      expect(result.retirementYear).toBe(2026);
+    });
+
+    it('ends the savings window at the first passing year', () => {
+      const scenario: RetirementScenario = {
+        ...makeTestScenario({ retirementInputs: { bitcoinAmount: 0.5, cashAmount: 50000 } }),
+        monthlySavingsInputs: { monthlySavingsAmount: 2000, yearsToRetirement: 30, enabled: true, doubleDownInBearMarkets: false }
+      };
+      const result = findEarliestRetirementYear(scenario)!;
+      expect(result.yearsUntilRetirement).toBeGreaterThan(0);
+      expect(result.retirementYear).toBe(2026 + result.yearsUntilRetirement);
+      expect(result.plan.savingsProjection).toHaveLength(result.yearsUntilRetirement * 12);
+      expect(planPasses(result.plan)).toBe(true);
+      for (let years = 0; years < result.yearsUntilRetirement; years++) {
+        expect(planPasses(evaluateRetirementPlan(withYears(scenario, years)))).toBe(false);
+      }
+    });
+
+    it('returns null when no year within the limit passes', () => {
+      expect(findEarliestRetirementYear(makeTestScenario({ retirementInputs: { bitcoinAmount: 0.01, cashAmount: 0 } }), 10)).toBeNull();
+    });
+  });
+
+  describe('solveRetirement', () => {
+    it('answers every panel search from one call, as the worker does', () => {
+      const scenario = makeTestScenario({ retirementInputs: { yearsUntilRetirement: 5 } });
+      const results = solveRetirement(scenario);
+      expect(results.maxWithdrawal).toEqual(findMaxSustainableWithdrawal(scenario));
+      expect(results.requiredBitcoin).toEqual(findRequiredBitcoin(scenario));
+      expect(results.requiredSavings).toEqual(findRequiredMonthlySavings(scenario, false));
+      expect(results.requiredSavingsDoubled).toEqual(findRequiredMonthlySavings(scenario, true));
+    });
+  });
+});
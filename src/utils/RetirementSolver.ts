@@ -0,0 +1,330 @@
+import { RetirementScenario } from '../types/Bitcoin';
+import { calculateInflationFactor } from './Inflation';
+import {
+  RetirementPlanResult,
+  evaluateRetirementPlan,
+  getRetirementStartYear,
+  hasRetirementAssets
+} from './RetirementEngine';
+import { SerializedScenario } from './SuccessHeatmap';
+
+/** Solver answers are rounded down to this many dollars */
+export const SOLVER_PRECISION = 100;
+
+/** Required Bitcoin is rounded up to this many BTC */
+export const BITCOIN_PRECISION = 0.001;
+
+/** Required monthly savings are rounded up to this many dollars */
+export const SAVINGS_PRECISION = 10;
+
+/** No plan can need more Bitcoin than will ever exist */
+const MAX_BITCOIN = 21000000;
+
+/** Upper limit for the solver's search, far beyond any realistic plan */
+const MAX_SEARCH_AMOUNT = 1e12;
+
+export interface MaxWithdrawalResult {
+  /** Highest annual withdrawal in today's dollars that passes both checks (0 if none does) */
+  annualWithdrawal: number;
+  /** The same withdrawal in nominal dollars in the first retirement year */
+  nominalWithdrawalAtRetirement: number;
+  /** Cash plus Bitcoin at the plan's price in the first retirement year */
+  portfolioValueAtRetirement: number;
+  /** First-year nominal withdrawal as a share of the portfolio at retirement */
+  safeWithdrawalRate: number;
+  /** Plan at the solved withdrawal, null if no withdrawal passes */
+  plan: RetirementPlanResult | null;
+}
+
+/**
+ * Whether a plan passes both the Bear Market Test and the 50-year simulation
+ */
+export const planPasses = (plan: RetirementPlanResult | null): boolean => {
+  return plan !== null && plan.simulationSucceeds && plan.bearMarketTest.passes;
+};
+
+/**
+ * Largest multiple of precision for which passes() holds, assuming passes()
+ * only flips once from true to false as the amount grows (0 if even precision fails)
+ */
+export const searchHighestPassing = (
+  passes: (amount: number) => boolean,
+  precision: number = SOLVER_PRECISION,
+  start: number = precision
+): number => {
+  // Double until the amount fails, then bisect in whole steps of precision
+  let low = 0;
+  let high = Math.max(1, Math.ceil(start / precision));
+  while (passes(high * precision)) {
+    low = high;
+    high *= 2;
+    if (high * precision > MAX_SEARCH_AMOUNT) return low * precision;
+  }
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (passes(middle * precision)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low * precision;
+};
+
+/**
+ * Smallest multiple of precision in [0, limit] for which passes() holds, assuming passes()
+ * only flips once from false to true as the amount grows (null if even the limit fails)
+ */
+export const searchLowestPassing = (
+  passes: (amount: number) => boolean,
+  precision: number,
+  start: number = precision,
+  limit: number = MAX_SEARCH_AMOUNT
+): number | null => {
+  if (passes(0)) return 0;
+  // Double until the amount passes, then bisect in whole steps of precision
+  let low = 0;
+  let high = Math.max(1, Math.ceil(start / precision));
+  while (!passes(high * precision)) {
+    low = high;
+    high *= 2;
+    if (high * precision > limit) return null;
+  }
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (passes(middle * precision)) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high * precision;
+};
+
+const withAnnualWithdrawal = (scenario: RetirementScenario, annualWithdrawal: number): RetirementScenario => ({
+  ...scenario,
+  retirementInputs: { ...scenario.retirementInputs, annualWithdrawal }
+});
+
+/**
+ * Highest annual withdrawal (today's dollars) that passes the Bear Market Test and the 50-year simulation
+ * for the scenario's holdings, savings and retirement year, plus the withdrawal rate it implies at retirement.
+ * Strategies that set their own spending are still bounded by the Bear Market Test on the planned withdrawal.
+ * Returns null when the scenario has no Bitcoin or savings to retire on.
+ */
+export const findMaxSustainableWithdrawal = (
+  scenario: RetirementScenario,
+  precision: number = SOLVER_PRECISION
+): MaxWithdrawalResult | null => {
+  if (!hasRetirementAssets(withAnnualWithdrawal(scenario, precision))) {
+    return null;
+  }
+
+  const evaluate = (annualWithdrawal: number) => evaluateRetirementPlan(withAnnualWithdrawal(scenario, annualWithdrawal));
+  const annualWithdrawal = searchHighestPassing(
+    amount => planPasses(evaluate(amount)),
+    precision,
+    scenario.retirementInputs.annualWithdrawal
+  );
+
+  // Holdings at retirement do not depend on the withdrawal, so any evaluated plan prices the portfolio
+  const plan = annualWithdrawal > 0 ? evaluate(annualWithdrawal) : null;
+  const referencePlan = plan ?? evaluate(precision);
+  if (!referencePlan) {
+    return null;
+  }
+
+  const retirementStartYear = getRetirementStartYear(scenario);
+  const nominalWithdrawalAtRetirement = annualWithdrawal *
+    calculateInflationFactor(scenario.inflation, scenario.startDate.getFullYear(), retirementStartYear);
+  const portfolioValueAtRetirement = referencePlan.bitcoinAtRetirement * referencePlan.withdrawalYears[0].bitcoinPrice +
+    scenario.retirementInputs.cashAmount;
+
+  return {
+    annualWithdrawal,
+    nominalWithdrawalAtRetirement,
+    portfolioValueAtRetirement,
+    safeWithdrawalRate: portfolioValueAtRetirement > 0 ? nominalWithdrawalAtRetirement / portfolioValueAtRetirement : 0,
+    plan
+  };
+};
+
+export interface RequiredBitcoinResult {
+  /** Least Bitcoin held today that passes both checks, with the rest of the plan unchanged */
+  bitcoinAmount: number;
+  /** Bitcoin still to acquire beyond current holdings (0 if already enough) */
+  shortfall: number;
+  plan: RetirementPlanResult | null;
+}
+
+/**
+ * Least Bitcoin held today for the scenario's withdrawal and retirement year to pass the Bear Market Test
+ * and the 50-year simulation. Any monthly savings plan stays as entered.
+ * Returns null when there is no withdrawal to fund or no amount of Bitcoin passes.
+ */
+export const findRequiredBitcoin = (
+  scenario: RetirementScenario,
+  precision: number = BITCOIN_PRECISION
+): RequiredBitcoinResult | null => {
+  const { retirementInputs } = scenario;
+  if (retirementInputs.annualWithdrawal <= 0) {
+    return null;
+  }
+
+  const evaluate = (bitcoinAmount: number) => evaluateRetirementPlan({
+    ...scenario,
+    retirementInputs: { ...retirementInputs, bitcoinAmount }
+  });
+  const bitcoinAmount = searchLowestPassing(
+    amount => planPasses(evaluate(amount)),
+    precision,
+    retirementInputs.bitcoinAmount,
+    MAX_BITCOIN
+  );
+  if (bitcoinAmount === null) {
+    return null;
+  }
+
+  return {
+    bitcoinAmount,
+    shortfall: Math.max(0, bitcoinAmount - retirementInputs.bitcoinAmount),
+    plan: evaluate(bitcoinAmount)
+  };
+};
+
+export interface RequiredSavingsResult {
+  /** Least monthly savings that passes both checks (before any bear-market doubling) */
+  monthlySavingsAmount: number;
+  /** Savings window: the plan's savings years, or the years until retirement when savings are off */
+  yearsToRetirement: number;
+  doubleDownInBearMarkets: boolean;
+  /** Cash put into savings over the whole window */
+  totalCashInvested: number;
+  plan: RetirementPlanResult | null;
+}
+
+/**
+ * Least monthly savings that makes the plan pass with current holdings, withdrawal and retirement year unchanged.
+ * Savings run until retirement; doubling in bear-market years follows doubleDownInBearMarkets.
+ * Returns null when there is no withdrawal to fund, no time left to save, or no amount passes.
+ */
+export const findRequiredMonthlySavings = (
+  scenario: RetirementScenario,
+  doubleDownInBearMarkets: boolean = scenario.monthlySavingsInputs.doubleDownInBearMarkets,
+  precision: number = SAVINGS_PRECISION
+): RequiredSavingsResult | null => {
+  const { retirementInputs, monthlySavingsInputs } = scenario;
+  const yearsToRetirement = monthlySavingsInputs.enabled
+    ? monthlySavingsInputs.yearsToRetirement
+    : retirementInputs.yearsUntilRetirement;
+  if (retirementInputs.annualWithdrawal <= 0 || yearsToRetirement <= 0) {
+    return null;
+  }
+
+  const evaluate = (monthlySavingsAmount: number) => evaluateRetirementPlan({
+    ...scenario,
+    monthlySavingsInputs: { enabled: true, monthlySavingsAmount, yearsToRetirement, doubleDownInBearMarkets }
+  });
+  const monthlySavingsAmount = searchLowestPassing(
+    amount => planPasses(evaluate(amount)),
+    precision,
+    monthlySavingsInputs.enabled ? monthlySavingsInputs.monthlySavingsAmount : precision
+  );
+  if (monthlySavingsAmount === null) {
+    return null;
+  }
+
+  const plan = evaluate(monthlySavingsAmount);
+  const lastProjection = plan ? plan.savingsProjection[plan.savingsProjection.length - 1] : undefined;
+  return {
+    monthlySavingsAmount,
+    yearsToRetirement,
+    doubleDownInBearMarkets,
+    totalCashInvested: lastProjection ? lastProjection.totalCashInvested : 0,
+    plan
+  };
+};
+
+/**
+ * Answers shown in the Retirement Solver panel
+ */
+export interface RetirementSolverResults {
+  maxWithdrawal: MaxWithdrawalResult | null;
+  requiredBitcoin: RequiredBitcoinResult | null;
+  /** Required savings at the same amount every month */
+  requiredSavings: RequiredSavingsResult | null;
+  /** Required savings doubled in bear-market years */
+  requiredSavingsDoubled: RequiredSavingsResult | null;
+}
+
+export interface RetirementSolverRequest {
+  id: number;
+  scenario: SerializedScenario;
+}
+
+export interface RetirementSolverResponse {
+  id: number;
+  results: RetirementSolverResults;
+}
+
+/**
+ * Every search the Retirement Solver panel shows, run together so one worker message answers them all
+ */
+export const solveRetirement = (scenario: RetirementScenario): RetirementSolverResults => ({
+  maxWithdrawal: findMaxSustainableWithdrawal(scenario),
+  requiredBitcoin: findRequiredBitcoin(scenario),
+  requiredSavings: findRequiredMonthlySavings(scenario, false),
+  requiredSavingsDoubled: findRequiredMonthlySavings(scenario, true)
+});
+
+/** Furthest ahead the earliest retirement search looks, matching the Years Until Retirement input */
+export const MAX_YEARS_UNTIL_RETIREMENT = 50;
+
+export interface EarliestRetirementResult {
+  yearsUntilRetirement: number;
+  retirementYear: number;
+  plan: RetirementPlanResult;
+}
+
+export interface EarliestRetirementRequest {
+  id: number;
+  scenario: SerializedScenario;
+}
+
+export interface EarliestRetirementResponse {
+  id: number;
+  result: EarliestRetirementResult | null;
+}
+
+/**
+ * Scenario retiring after the given number of years, with any savings window ending the same year
+ */
+export const withYearsUntilRetirement = (scenario: RetirementScenario, years: number): RetirementScenario => {
+  const { retirementInputs, monthlySavingsInputs } = scenario;
+  return {
+    ...scenario,
+    retirementInputs: { ...retirementInputs, yearsUntilRetirement: years },
+    monthlySavingsInputs: monthlySavingsInputs.enabled
+      ? { ...monthlySavingsInputs, yearsToRetirement: years }
+      : monthlySavingsInputs
+  };
+};
+
+/**
+ * First year from today the scenario could retire: both Years Until Retirement and, when savings are on,
+ * the savings window are set to each candidate in turn until the Bear Market Test and the 50-year simulation pass.
+ * Every year is tried in order, so the answer is the first passing year even if a later one fails.
+ * Returns null when no year within MAX_YEARS_UNTIL_RETIREMENT passes.
+ */
+export const findEarliestRetirementYear = (
+  scenario: RetirementScenario,
+  maxYears: number = MAX_YEARS_UNTIL_RETIREMENT
+): EarliestRetirementResult | null => {
+  for (let years = 0; years <= maxYears; years++) {
+    const plan = evaluateRetirementPlan(withYearsUntilRetirement(scenario, years));
+    if (plan && planPasses(plan)) {
+      return { yearsUntilRetirement: years, retirementYear: plan.retirementStartYear, plan };
+    }
+  }
+  return null;
+};
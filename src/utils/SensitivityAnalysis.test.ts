@@ -0,0 +1,71 @@
+/**
+ * Tests for the sensitivity analysis:
+ * - One result per driver that is part of the plan
+ * - Direction of each driver's effect on terminal value
+ * - Exponent and floor perturbations of the price model
+ * - Results ordered by swing, largest first
+ */
+
+import { POWER_LAW_MODEL } from '../models/PriceModel';
+import { NO_INFLATION } from './Inflation';
+import { evaluateRetirementPlan } from './RetirementEngine';
+import { SENSITIVITY_DRIVERS, getPlanOutcome, runSensitivityAnalysis } from './SensitivityAnalysis';
+import { makeTestScenario } from './testScenario';
+
+const scenario = makeTestScenario({
+  retirementInputs: { yearsUntilRetirement: 3 },
+  monthlySavingsInputs: { monthlySavingsAmount: 500, yearsToRetirement: 3, enabled: true },
+  inflation: { ...NO_INFLATION, annualRate: 0.03 }
+});
+
+const findDriver = (id: string) => SENSITIVITY_DRIVERS.find(driver => driver.id === id)!;
+
+describe('SensitivityAnalysis', () => {
+  it('measures every driver and leaves out the ones the plan does not use', () => {
+    const analysis = runSensitivityAnalysis(scenario)!;
+    expect(analysis.results.map(result => result.driverId).sort()).toEqual(SENSITIVITY_DRIVERS.map(driver => driver.id).sort());
+
+    const noSavings = runSensitivityAnalysis(makeTestScenario({ retirementInputs: { cashAmount: 0, yearsUntilRetirement: 3 } }))!;
+    const ids = noSavings.results.map(result => result.driverId);
+    expect(ids).not.toContain('savings');
+    expect(ids).not.toContain('cash');
+  });
+
+  it('matches the base plan and moves terminal value in the expected direction', () => {
+    const analysis = runSensitivityAnalysis(scenario)!;
+    expect(analysis.base).toEqual(getPlanOutcome(evaluateRetirementPlan(scenario)!));
+
+    const byId = (id: string) => analysis.results.find(result => result.driverId === id)!;
+    expect(byId('bitcoin').high.terminalValue).toBeGreaterThan(byId('bitcoin').low.terminalValue);
+    expect(byId('withdrawal').high.terminalValue).toBeLessThan(byId('withdrawal').low.terminalValue);
+    expect(byId('exponent').high.terminalValue).toBeGreaterThan(byId('exponent').low.terminalValue);
+  });
+
+  it('keeps today\'s fair value when shifting the exponent and only moves the floor with the floor multiplier', () => {
+    const later = new Date(2040, 0, 1);
+    const steeper = findDriver('exponent').perturb(scenario, 1)!.priceModel;
+    expect(steeper.fairValue(scenario.startDate)).toBeCloseTo(POWER_LAW_MODEL.fairValue(scenario.startDate), 6);
+    expect(steeper.fairValue(later)).toBeGreaterThan(POWER_LAW_MODEL.fairValue(later));
+
+    const higherFloor = findDriver('floor').perturb(scenario, 1)!.priceModel;
+    expect(higherFloor.floor(later)).toBeCloseTo(POWER_LAW_MODEL.floor(later) * 1.2, 6);
+    expect(higherFloor.fairValue(later)).toBe(POWER_LAW_MODEL.fairValue(later));
+    expect(higherFloor.ceiling(later)).toBe(POWER_LAW_MODEL.ceiling(later));
+
+    // Each variant gets its own id, so nothing keyed by model id mistakes it for the base model
+    expect(steeper.id).not.toBe(POWER_LAW_MODEL.id);
+    expect(higherFloor.id).not.toBe(POWER_LAW_MODEL.id);
+    expect(findDriver('exponent').perturb(scenario, -1)!.priceModel.id).not.toBe(steeper.id);
+  });
+
+  it('orders results by swing, largest first', () => {
+    const { results } = runSensitivityAnalysis(scenario)!;
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i - 1].swing).toBeGreaterThanOrEqual(results[i].swing);
+    }
+  });
+
+  it('returns null when there is nothing to simulate', () => {
+    expect(runSensitivityAnalysis(makeTestScenario({ retirementInputs: { bitcoinAmount: 0, cashAmount: 0 } }))).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import { getDaysSinceGenesis } from '../models/Genesis';
+import { PriceModel } from '../models/PriceModel';
+import { RetirementScenario } from '../types/Bitcoin';
+import { RetirementPlanResult, evaluateRetirementPlan } from './RetirementEngine';
+import { SerializedScenario } from './SuccessHeatmap';
+
+export type SensitivityDirection = -1 | 1;
+
+/**
+ * One plan input moved down and up by a fixed step, everything else unchanged
+ */
+export interface SensitivityDriver {
+  id: string;
+  name: string;
+  /** Size of the step, as shown in the table ("±20%") */
+  step: string;
+  /** Scenario with the input moved down (-1) or up (1), null when the input is not part of the plan */
+  perturb(scenario: RetirementScenario, direction: SensitivityDirection): RetirementScenario | null;
+}
+
+export interface PlanOutcome {
+  /** Cash plus Bitcoin value at the end of the last simulated year (nominal) */
+  terminalValue: number;
+  depletionYear: number | null;
+  yearsLasted: number;
+}
+
+export interface SensitivityResult {
+  driverId: string;
+  name: string;
+  step: string;
+  low: PlanOutcome;
+  high: PlanOutcome;
+  /** Terminal value difference between the high and low runs, ignoring sign */
+  swing: number;
+}
+
+export interface SensitivityAnalysis {
+  base: PlanOutcome;
+  /** Largest swing first, the order of the tornado chart */
+  results: SensitivityResult[];
+}
+
+export interface SensitivityRequest {
+  id: number;
+  scenario: SerializedScenario;
+}
+
+export interface SensitivityResponse {
+  id: number;
+  analysis: SensitivityAnalysis | null;
+}
+
+const RELATIVE_STEP = 0.2;
+const YEARS_STEP = 2;
+const EXPONENT_STEP = 0.1;
+const INFLATION_STEP = 0.01;
+
+/**
+ * Prices scaled by (days since genesis / days at the plan start)^shift, which moves a Power Law's exponent B by the shift
+ * and tilts any other model the same way; today's fair value is unchanged
+ */
+class ExponentShiftedPriceModel implements PriceModel {
+  readonly id: string;
+  readonly name: string;
+
+  constructor(private readonly base: PriceModel, private readonly shift: number, private readonly anchor: Date) {
+    this.id = `${base.id}:exponent${shift}`;
+    this.name = base.name;
+  }
+
+  private growthFactor(date: Date): number {
+    return Math.pow(getDaysSinceGenesis(date) / getDaysSinceGenesis(this.anchor), this.shift);
+  }
+
+  fairValue(date: Date): number {
+    return this.base.fairValue(date) * this.growthFactor(date);
+  }
+
+  floor(date: Date): number {
+    return this.base.floor(date) * this.growthFactor(date);
+  }
+
+  ceiling(date: Date): number {
+    return this.base.ceiling(date) * this.growthFactor(date);
+  }
+
+  bubbleZoneScale(date: Date): number {
+    return this.base.bubbleZoneScale ? this.base.bubbleZoneScale(date) : 1;
+  }
+}
+
+/**
+ * The same model with the floor scaled; fair value and ceiling are unchanged
+ */
+class FloorScaledPriceModel implements PriceModel {
+  readonly id: string;
+  readonly name: string;
+
+  constructor(private readonly base: PriceModel, private readonly scale: number) {
+    this.id = `${base.id}:floor${scale}`;
+    this.name = base.name;
+  }
+
+  fairValue(date: Date): number {
+    return this.base.fairValue(date);
+  }
+
+  floor(date: Date): number {
+    return this.base.floor(date) * this.scale;
+  }
+
+  ceiling(date: Date): number {
+    return this.base.ceiling(date);
+  }
+
+  bubbleZoneScale(date: Date): number {
+    return this.base.bubbleZoneScale ? this.base.bubbleZoneScale(date) : 1;
+  }
+}
+
+const percentStep = `±${RELATIVE_STEP * 100}%`;
+
+const scaleRetirementInput = (
+  field: 'bitcoinAmount' | 'cashAmount' | 'annualWithdrawal'
+) => (scenario: RetirementScenario, direction: SensitivityDirection): RetirementScenario | null => {
+  const value = scenario.retirementInputs[field];
+  if (value <= 0) return null;
+  return {
+    ...scenario,
+    retirementInputs: { ...scenario.retirementInputs, [field]: value * (1 + direction * RELATIVE_STEP) }
+  };
+};
+
+/** Inputs the tornado chart measures, in the order they are listed to the user */
+export const SENSITIVITY_DRIVERS: SensitivityDriver[] = [
+  {
+    id: 'bitcoin',
+    name: 'BTC Holdings',
+    step: percentStep,
+    perturb: scaleRetirementInput('bitcoinAmount')
+  },
+  {
+    id: 'cash',
+    name: 'Cash Holdings',
+    step: percentStep,
+    perturb: scaleRetirementInput('cashAmount')
+  },
+  {
+    id: 'withdrawal',
+    name: 'Annual Withdrawal',
+    step: percentStep,
+    perturb: scaleRetirementInput('annualWithdrawal')
+  },
+  {
+    id: 'years-until-retirement',
+    name: 'Years Until Retirement',
+    step: `±${YEARS_STEP} years`,
+    // Moves the savings window with the retirement year so the later of the two still decides it
+    perturb: (scenario, direction) => {
+      const { retirementInputs, monthlySavingsInputs } = scenario;
+      return {
+        ...scenario,
+        retirementInputs: {
+          ...retirementInputs,
+          yearsUntilRetirement: Math.max(0, retirementInputs.yearsUntilRetirement + direction * YEARS_STEP)
+        },
+        monthlySavingsInputs: monthlySavingsInputs.enabled
+          ? { ...monthlySavingsInputs, yearsToRetirement: Math.max(0, monthlySavingsInputs.yearsToRetirement + direction * YEARS_STEP) }
+          : monthlySavingsInputs
+      };
+    }
+  },
+  {
+    id: 'exponent',
+    name: 'Power Law Exponent B',
+    step: `±${EXPONENT_STEP}`,
+    perturb: (scenario, direction) => ({
+      ...scenario,
+      priceModel: new ExponentShiftedPriceModel(scenario.priceModel, direction * EXPONENT_STEP, scenario.startDate)
+    })
+  },
+  {
+    id: 'floor',
+    name: 'Floor Multiplier',
+    step: percentStep,
+    perturb: (scenario, direction) => ({
+      ...scenario,
+      priceModel: new FloorScaledPriceModel(scenario.priceModel, 1 + direction * RELATIVE_STEP)
+    })
+  },
+  {
+    id: 'inflation',
+    name: 'Inflation',
+    step: `±${INFLATION_STEP * 100} pt`,
+    perturb: (scenario, direction) => {
+      const { inflation } = scenario;
+      const shift = direction * INFLATION_STEP;
+      return {
+        ...scenario,
+        inflation: {
+          ...inflation,
+          annualRate: inflation.annualRate + shift,
+          schedule: inflation.schedule.map(period => ({ ...period, rate: period.rate + shift }))
+        }
+      };
+    }
+  },
+  {
+    id: 'savings',
+    name: 'Monthly Savings',
+    step: percentStep,
+    perturb: (scenario, direction) => {
+      const { monthlySavingsInputs } = scenario;
+      if (!monthlySavingsInputs.enabled || monthlySavingsInputs.monthlySavingsAmount <= 0) return null;
+      return {
+        ...scenario,
+        monthlySavingsInputs: {
+          ...monthlySavingsInputs,
+          monthlySavingsAmount: monthlySavingsInputs.monthlySavingsAmount * (1 + direction * RELATIVE_STEP)
+        }
+      };
+    }
+  }
+];
+
+/**
+ * Terminal value and depletion of a plan
+ */
+export const getPlanOutcome = (plan: RetirementPlanResult): PlanOutcome => {
+  const finalYear = plan.withdrawalYears[plan.withdrawalYears.length - 1];
+  return {
+    terminalValue: finalYear.totalRemainingValue,
+    depletionYear: plan.depletionYear,
+    yearsLasted: plan.yearsLasted
+  };
+};
+
+/**
+ * Run the 50-year plan with each driver moved down and up, largest terminal value swing first
+ * (ties, such as both runs depleting, are ordered by the change in years lasted).
+ * Drivers that are not part of the plan are left out. Returns null when the scenario has nothing to simulate.
+ */
+export const runSensitivityAnalysis = (
+  scenario: RetirementScenario,
+  drivers: SensitivityDriver[] = SENSITIVITY_DRIVERS
+): SensitivityAnalysis | null => {
+  const basePlan = evaluateRetirementPlan(scenario);
+  if (!basePlan) return null;
+
+  const results: SensitivityResult[] = [];
+  for (const driver of drivers) {
+    const lowScenario = driver.perturb(scenario, -1);
+    const highScenario = driver.perturb(scenario, 1);
+    const lowPlan = lowScenario && evaluateRetirementPlan(lowScenario);
+    const highPlan = highScenario && evaluateRetirementPlan(highScenario);
+    if (!lowPlan || !highPlan) continue;
+
+    const low = getPlanOutcome(lowPlan);
+    const high = getPlanOutcome(highPlan);
+    results.push({
+      driverId: driver.id,
+      name: driver.name,
+      step: driver.step,
+      low,
+      high,
+      swing: Math.abs(high.terminalValue - low.terminalValue)
+    });
+  }
+
+  results.sort((a, b) => (b.swing - a.swing) ||
+    (Math.abs(b.high.yearsLasted - b.low.yearsLasted) - Math.abs(a.high.yearsLasted - a.low.yearsLasted)));
+  return { base: getPlanOutcome(basePlan), results };
+};
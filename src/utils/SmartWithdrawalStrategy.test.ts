@@ -3,11 +3,21 @@
  * - Zero / insufficient assets or withdrawal
  * - Boundary fair-value ratios (0.5, 0.8, 1.2, 2.5, 5.0)
  * - Emergency mode
+ * - Bubble zones follow the decaying upper bound
  * - Withdrawal amount equals cash + (BTC sold × price)
+ * - Configurable zones: validation, JSON round trip, custom splits and rounding
  */
 
-import { SmartWithdrawalStrategy, WithdrawalContext } from './SmartWithdrawalStrategy';
-import { BitcoinPowerLaw } from '../models/PowerLaw';
+import {
+  DEFAULT_SMART_WITHDRAWAL_CONFIG,
+  SmartWithdrawalConfig,
+  SmartWithdrawalStrategy,
+  WithdrawalContext,
+  parseSmartWithdrawalConfig,
+  validateSmartWithdrawalConfig
+} from './SmartWithdrawalStrategy';
+import { BitcoinPowerLaw, DEFAULT_BAND_MULTIPLIERS, PUBLISHED_POWER_LAW_PARAMETERS } from '../models/PowerLaw';
+import { PowerLawPriceModel } from '../models/PriceModel';
 
 const defaultContext: WithdrawalContext = {
   currentBitcoinPrice: 100000,
@@ -133,6 +143,118 @@ describe('SmartWithdrawalStrategy', () => {
     });
   });
 
+  describe('Decaying upper bound', () => {
+    it('moves the bubble zones with the expected cycle top', () => {
+      const ctx = makeContext({
+        currentBitcoinPrice: fairValue * 4,
+        currentDate: testDate,
+        availableCash: 100000,
+        availableBitcoin: 1
+      });
+      expect(SmartWithdrawalStrategy.calculateWithdrawal(ctx).strategy).toBe('Bitcoin Only (Bubble Profits)');
+
+      // Upper bound of 4x on the test date: twice the flat 2x, so bubble zones start at 5x and 10x
+      const priceModel = new PowerLawPriceModel(PUBLISHED_POWER_LAW_PARAMETERS, DEFAULT_BAND_MULTIPLIERS, {
+        coefficient: 3 * BitcoinPowerLaw.getDaysSinceGenesis(testDate),
+        exponent: -1
+      });
+      expect(priceModel.ceiling(testDate)).toBeCloseTo(fairValue * 4, 6);
+      expect(SmartWithdrawalStrategy.calculateWithdrawal({ ...ctx, priceModel }).strategy).toBe('Bitcoin Only (Take Profits)');
+    });
+  });
+
+  describe('Zone configuration', () => {
+    const withZones = (zones: SmartWithdrawalConfig['zones']): SmartWithdrawalConfig => ({
+      ...DEFAULT_SMART_WITHDRAWAL_CONFIG,
+      zones
+    });
+    const [extremeHodl, hodl, fair, takeProfits] = DEFAULT_SMART_WITHDRAWAL_CONFIG.zones;
+
+    it('default zones are valid and survive a JSON round trip', () => {
+      expect(validateSmartWithdrawalConfig(DEFAULT_SMART_WITHDRAWAL_CONFIG)).toEqual([]);
+      const parsed = parseSmartWithdrawalConfig(JSON.stringify(DEFAULT_SMART_WITHDRAWAL_CONFIG));
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.config).toEqual(DEFAULT_SMART_WITHDRAWAL_CONFIG);
+    });
+
+    it('rejects gaps, a closed last zone and out-of-range shares', () => {
+      expect(validateSmartWithdrawalConfig(withZones([extremeHodl, fair, { ...takeProfits, maxRatio: null }])))
+        .toContain('Fair Value must start where the previous zone ends');
+      expect(validateSmartWithdrawalConfig(withZones([extremeHodl, { ...hodl, cashShare: 1.5 }])))
+        .toEqual(['HODL is the last zone and must have no upper limit', 'HODL cash share must be between 0% and 100%']);
+      expect(validateSmartWithdrawalConfig(withZones([{ ...extremeHodl, minRatio: 0.1, maxRatio: null }])))
+        .toContain('The first zone must start at 0x fair value');
+      expect(validateSmartWithdrawalConfig({ ...DEFAULT_SMART_WITHDRAWAL_CONFIG, rounding: { cashIncrement: 0, bitcoinDecimals: 2.5 } }))
+        .toHaveLength(1);
+    });
+
+    it('parse reports invalid JSON and invalid zones without returning a config', () => {
+      expect(parseSmartWithdrawalConfig('{ zones')).toEqual({ config: null, errors: ['The configuration is not valid JSON'] });
+      const gap = parseSmartWithdrawalConfig(JSON.stringify(withZones([extremeHodl])));
+      expect(gap.config).toBeNull();
+      expect(gap.errors.length).toBeGreaterThan(0);
+    });
+
+    it('default zones keep the original cash and Bitcoin splits', () => {
+      const undervalued = SmartWithdrawalStrategy.calculateWithdrawal(makeContext({
+        currentBitcoinPrice: fairValue * 0.7,
+        currentDate: testDate,
+        availableCash: 30000,
+        withdrawalNeeded: 40000
+      }));
+      expect(undervalued.useCashAmount).toBe(30000);
+      expect(undervalued.useBitcoinAmount).toBeCloseTo(10000 / (fairValue * 0.7), 10);
+
+      const overvalued = SmartWithdrawalStrategy.calculateWithdrawal(makeContext({
+        currentBitcoinPrice: fairValue * 2,
+        currentDate: testDate,
+        availableCash: 50000,
+        availableBitcoin: 10000 / (fairValue * 2),
+        withdrawalNeeded: 40000
+      }));
+      expect(overvalued.strategy).toBe('Mostly Bitcoin (80%+)');
+      expect(overvalued.useCashAmount).toBeCloseTo(30000, 6);
+    });
+
+    it('uses the custom zone boundaries, rule and cash share', () => {
+      const config = withZones([
+        { ...hodl, minRatio: 0, maxRatio: 2, rule: 'cash-first', cashShare: 0.5 },
+        { ...takeProfits, minRatio: 2, maxRatio: null }
+      ]);
+      const r = SmartWithdrawalStrategy.calculateWithdrawal(makeContext({
+        currentBitcoinPrice: fairValue * 1.5,
+        currentDate: testDate,
+        availableCash: 100000,
+        withdrawalNeeded: 40000,
+        config
+      }));
+      expect(r.recommendedAction).toBe('HODL_BITCOIN');
+      expect(r.strategy).toBe('Mostly Cash (50%)');
+      expect(r.useCashAmount).toBe(20000);
+      expect(r.useBitcoinAmount * fairValue * 1.5).toBeCloseTo(20000, 6);
+    });
+
+    it('rounds cash to the increment and Bitcoin up to the decimals, still covering the withdrawal', () => {
+      const price = fairValue * 1.5;
+      const config: SmartWithdrawalConfig = {
+        ...DEFAULT_SMART_WITHDRAWAL_CONFIG,
+        zones: [{ ...fair, minRatio: 0, maxRatio: null, rule: 'cash-first', cashShare: 0.37 }],
+        rounding: { cashIncrement: 1000, bitcoinDecimals: 4 }
+      };
+      const r = SmartWithdrawalStrategy.calculateWithdrawal(makeContext({
+        currentBitcoinPrice: price,
+        currentDate: testDate,
+        availableCash: 100000,
+        withdrawalNeeded: 41234,
+        config
+      }));
+      expect(r.useCashAmount).toBe(15000);
+      expect(Math.round(r.useBitcoinAmount * 10000)).toBeCloseTo(r.useBitcoinAmount * 10000, 8);
+      expect(r.useCashAmount + r.useBitcoinAmount * price).toBeGreaterThanOrEqual(41234);
+      expect(r.useCashAmount + r.useBitcoinAmount * price).toBeLessThan(41234 + price / 10000);
+    });
+  });
+
   describe('Emergency mode', () => {
     it('emergencyMode true: uses cash first when available', () => {
       const ctx = makeContext({
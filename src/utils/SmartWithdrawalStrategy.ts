@@ -1,4 +1,4 @@
-import { BitcoinPowerLaw } from '../models/PowerLaw';
+import { POWER_LAW_MODEL, PriceModel } from '../models/PriceModel';
 
 export interface WithdrawalDecision {
   useCashAmount: number;
@@ -16,8 +16,203 @@ export interface WithdrawalContext {
   availableBitcoin: number;
   withdrawalNeeded: number;
   emergencyMode?: boolean;
+  /** Model for fair value, floor and ceiling (defaults to the Power Law) */
+  priceModel?: PriceModel;
+  /** Zones and rounding (defaults to DEFAULT_SMART_WITHDRAWAL_CONFIG) */
+  config?: SmartWithdrawalConfig;
 }
 
+export type WithdrawalAction = WithdrawalDecision['recommendedAction'];
+
+/**
+ * How a zone splits a withdrawal between cash and Bitcoin:
+ * - cash-first: cashShare of the withdrawal from cash while it lasts, the rest from Bitcoin
+ * - balanced: cash in proportion to holdings with a slight tilt toward cash, capped at cashShare
+ * - bitcoin-first: all Bitcoin when it covers the withdrawal, otherwise up to (1 - cashShare) from Bitcoin and the rest from cash
+ * - bitcoin-only: Bitcoin only; cashShare is ignored
+ */
+export type ZoneRule = 'cash-first' | 'balanced' | 'bitcoin-first' | 'bitcoin-only';
+
+export const ZONE_RULES: ZoneRule[] = ['cash-first', 'balanced', 'bitcoin-first', 'bitcoin-only'];
+
+export const ZONE_RULE_LABELS: Record<ZoneRule, string> = {
+  'cash-first': 'Cash first',
+  balanced: 'Balanced',
+  'bitcoin-first': 'Bitcoin first',
+  'bitcoin-only': 'Bitcoin only'
+};
+
+/**
+ * A band of price-to-fair-value ratios, from minRatio (exclusive) up to maxRatio (inclusive)
+ */
+export interface WithdrawalZone {
+  name: string;
+  minRatio: number;
+  /** null for the last, open-ended zone */
+  maxRatio: number | null;
+  rule: ZoneRule;
+  cashShare: number;
+  recommendedAction: WithdrawalAction;
+  /** Shown after the ratio in the decision's reasoning */
+  note: string;
+}
+
+export interface WithdrawalRounding {
+  /** Cash is rounded to the nearest multiple of this many dollars (0 for no rounding) */
+  cashIncrement: number;
+  /** Bitcoin sold is rounded up to this many decimals (null for no rounding) */
+  bitcoinDecimals: number | null;
+}
+
+/**
+ * Plain data, so it can be edited in the UI and saved as JSON
+ */
+export interface SmartWithdrawalConfig {
+  zones: WithdrawalZone[];
+  /** Zone boundaries at or above this ratio move with a decaying upper bound */
+  bubbleScaledFrom: number;
+  rounding: WithdrawalRounding;
+}
+
+// Cash share of holdings is boosted by this much in balanced zones to maintain Bitcoin exposure
+const BALANCED_CASH_TILT = 1.2;
+
+const MAX_BITCOIN_DECIMALS = 8;
+
+/**
+ * Zones from the historical analysis: preserve Bitcoin below 0.8x, balance near fair value, take profits above 1.2x
+ */
+export const DEFAULT_SMART_WITHDRAWAL_CONFIG: SmartWithdrawalConfig = {
+  zones: [
+    {
+      name: 'Extreme HODL',
+      minRatio: 0,
+      maxRatio: 0.5,
+      rule: 'cash-first',
+      cashShare: 1,
+      recommendedAction: 'HODL_BITCOIN',
+      note: 'Extremely undervalued; the historical low was 0.42x. Use cash to preserve Bitcoin for the recovery.'
+    },
+    {
+      name: 'HODL',
+      minRatio: 0.5,
+      maxRatio: 0.8,
+      rule: 'cash-first',
+      cashShare: 1,
+      recommendedAction: 'HODL_BITCOIN',
+      note: 'Undervalued; Bitcoin historically spends 54.4% of the time below 1.0x. Preserve Bitcoin for recovery.'
+    },
+    {
+      name: 'Fair Value',
+      minRatio: 0.8,
+      maxRatio: 1.2,
+      rule: 'balanced',
+      cashShare: 0.6,
+      recommendedAction: 'BALANCED',
+      note: 'Near fair value. Balanced approach with a slight cash preference to maintain Bitcoin exposure.'
+    },
+    {
+      name: 'Take Profits',
+      minRatio: 1.2,
+      maxRatio: 2.5,
+      rule: 'bitcoin-first',
+      cashShare: 0.2,
+      recommendedAction: 'SPEND_BITCOIN',
+      note: 'Overvalued. Take profits while preserving cash for future opportunities.'
+    },
+    {
+      name: 'Bubble Profits',
+      minRatio: 2.5,
+      maxRatio: 5,
+      rule: 'bitcoin-only',
+      cashShare: 0,
+      recommendedAction: 'SPEND_BITCOIN',
+      note: 'Bubble territory. Aggressively take profits; historical analysis shows mean reversion is likely.'
+    },
+    {
+      name: 'Extreme Bubble',
+      minRatio: 5,
+      maxRatio: null,
+      rule: 'bitcoin-only',
+      cashShare: 0,
+      recommendedAction: 'SPEND_BITCOIN',
+      note: 'Extreme bubble; the historical high was 13.02x in 2013. Take maximum profits - a major correction is likely.'
+    }
+  ],
+  bubbleScaledFrom: 2.5,
+  rounding: { cashIncrement: 0, bitcoinDecimals: null }
+};
+
+/**
+ * Problems that would make the configuration ambiguous; empty when it is usable.
+ * Zones must start at 0, each start where the previous one ends, and the last must be open-ended.
+ */
+export const validateSmartWithdrawalConfig = (config: SmartWithdrawalConfig): string[] => {
+  const errors: string[] = [];
+  const { zones, rounding } = config;
+  if (zones.length === 0) {
+    errors.push('Add at least one zone');
+    return errors;
+  }
+  if (zones[0].minRatio !== 0) {
+    errors.push('The first zone must start at 0x fair value');
+  }
+  zones.forEach((zone, index) => {
+    const name = (zone.name || '').trim();
+    const label = name || `Zone ${index + 1}`;
+    if (!name) {
+      errors.push(`Zone ${index + 1} needs a name`);
+    }
+    if (index > 0 && zone.minRatio !== zones[index - 1].maxRatio) {
+      errors.push(`${label} must start where the previous zone ends`);
+    }
+    if (index === zones.length - 1) {
+      if (zone.maxRatio !== null) {
+        errors.push(`${label} is the last zone and must have no upper limit`);
+      }
+    } else if (zone.maxRatio === null) {
+      errors.push('Only the last zone can have no upper limit');
+    } else if (!(zone.maxRatio > zone.minRatio)) {
+      errors.push(`${label} must end above where it starts`);
+    }
+    if (ZONE_RULES.indexOf(zone.rule) === -1) {
+      errors.push(`${label} has an unknown rule`);
+    }
+    if (!(zone.cashShare >= 0 && zone.cashShare <= 1)) {
+      errors.push(`${label} cash share must be between 0% and 100%`);
+    }
+  });
+  if (!(config.bubbleScaledFrom > 0)) {
+    errors.push('The bubble scaling threshold must be greater than zero');
+  }
+  if (!(rounding.cashIncrement >= 0)) {
+    errors.push('The cash rounding increment cannot be negative');
+  }
+  if (rounding.bitcoinDecimals !== null &&
+    !(Math.floor(rounding.bitcoinDecimals) === rounding.bitcoinDecimals &&
+      rounding.bitcoinDecimals >= 0 && rounding.bitcoinDecimals <= MAX_BITCOIN_DECIMALS)) {
+    errors.push(`Bitcoin rounding must be a whole number of decimals from 0 to ${MAX_BITCOIN_DECIMALS}`);
+  }
+  return errors;
+};
+
+/**
+ * Read a configuration saved as JSON; config is null when it does not parse or fails validation
+ */
+export const parseSmartWithdrawalConfig = (json: string): { config: SmartWithdrawalConfig | null; errors: string[] } => {
+  let parsed: SmartWithdrawalConfig;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { config: null, errors: ['The configuration is not valid JSON'] };
+  }
+  if (!parsed || !Array.isArray(parsed.zones) || !parsed.rounding) {
+    return { config: null, errors: ['The configuration needs zones and rounding'] };
+  }
+  const errors = validateSmartWithdrawalConfig(parsed);
+  return { config: errors.length === 0 ? parsed : null, errors };
+};
+
 /**
  * Smart Withdrawal Strategy based on Power Law Fair Value Analysis
  * 
@@ -39,13 +234,15 @@ export class SmartWithdrawalStrategy {
       availableCash, 
       availableBitcoin, 
       withdrawalNeeded,
-      emergencyMode = false
+      emergencyMode = false,
+      priceModel = POWER_LAW_MODEL,
+      config = DEFAULT_SMART_WITHDRAWAL_CONFIG
     } = context;
 
-    const fairValue = BitcoinPowerLaw.calculateFairValue(currentDate);
-    const floorValue = BitcoinPowerLaw.calculateFloorPrice(currentDate);
-    const upperBound = BitcoinPowerLaw.calculateUpperBound(currentDate);
+    const fairValue = priceModel.fairValue(currentDate);
     const fairValueRatio = currentBitcoinPrice / fairValue;
+    // With a decaying upper bound, bubble zones move with the expected cycle top instead of sitting at 2.5x / 5x
+    const bubbleScale = priceModel.bubbleZoneScale ? priceModel.bubbleZoneScale(currentDate) : 1;
     
     // Emergency mode: use whatever is available
     if (emergencyMode) {
@@ -53,228 +250,106 @@ export class SmartWithdrawalStrategy {
     }
 
     // Determine strategy based on Power Law position
-    return this.calculateOptimalStrategy(
-      fairValueRatio, 
-      currentBitcoinPrice,
-      fairValue,
-      floorValue,
-      upperBound,
+    const zone = this.findZone(config, fairValueRatio, bubbleScale);
+    const allocation = this.allocate(zone, availableCash, availableBitcoin, withdrawalNeeded, currentBitcoinPrice);
+    const { cash, bitcoin } = this.applyRounding(
+      config.rounding,
+      allocation.cash,
+      allocation.bitcoin,
       availableCash,
-      availableBitcoin,
-      withdrawalNeeded
+      withdrawalNeeded,
+      currentBitcoinPrice
     );
-  }
-
-  private static calculateOptimalStrategy(
-    fairValueRatio: number,
-    currentPrice: number,
-    fairValue: number,
-    floorValue: number,
-    upperBound: number,
-    availableCash: number,
-    availableBitcoin: number,
-    withdrawalNeeded: number
-  ): WithdrawalDecision {
-    
-    // Bitcoin value calculation for potential future use
-    // const bitcoinValue = availableBitcoin * currentPrice;
-    // const totalAssets = availableCash + bitcoinValue;
 
-    // Strategy zones based on historical analysis
-    if (fairValueRatio <= 0.5) {
-      // Extreme undervaluation (like 2015 crash to 0.42x)
-      return this.extremeUndervaluedStrategy(availableCash, availableBitcoin, withdrawalNeeded, fairValueRatio, currentPrice);
-      
-    } else if (fairValueRatio <= 0.8) {
-      // Significantly undervalued (common in bear markets)
-      return this.undervaluedStrategy(availableCash, availableBitcoin, withdrawalNeeded, fairValueRatio, currentPrice);
-      
-    } else if (fairValueRatio <= 1.2) {
-      // Near fair value (±20% - historically 1.1% of time spent exactly at fair value)
-      return this.fairValueStrategy(availableCash, availableBitcoin, withdrawalNeeded, fairValueRatio, currentPrice);
-      
-    } else if (fairValueRatio <= 2.5) {
-      // Moderately overvalued (common in bull markets)
-      return this.overvaluedStrategy(availableCash, availableBitcoin, withdrawalNeeded, fairValueRatio, currentPrice);
-      
-    } else if (fairValueRatio <= 5.0) {
-      // Significantly overvalued (bubble territory)
-      return this.bubbleStrategy(availableCash, availableBitcoin, withdrawalNeeded, fairValueRatio, currentPrice);
-      
-    } else {
-      // Extreme bubble (like 2013's 13x fair value)
-      return this.extremeBubbleStrategy(availableCash, availableBitcoin, withdrawalNeeded, fairValueRatio, currentPrice);
-    }
-  }
-
-  private static extremeUndervaluedStrategy(
-    availableCash: number, 
-    availableBitcoin: number, 
-    withdrawalNeeded: number, 
-    fairValueRatio: number,
-    currentPrice: number
-  ): WithdrawalDecision {
-    // Bitcoin is extremely cheap - preserve it at all costs
-    if (availableCash >= withdrawalNeeded) {
-      return {
-        useCashAmount: withdrawalNeeded,
-        useBitcoinAmount: 0,
-        strategy: 'Cash Only (Extreme HODL)',
-        reasoning: `Bitcoin is extremely undervalued at ${fairValueRatio.toFixed(2)}x fair value. Historical low was 0.42x. Use all available cash to preserve Bitcoin for inevitable recovery.`,
-        fairValueRatio,
-        recommendedAction: 'HODL_BITCOIN'
-      };
-    } else {
-      // Use all cash first, minimize Bitcoin sales
-      const bitcoinNeeded = (withdrawalNeeded - availableCash) / currentPrice;
-      return {
-        useCashAmount: availableCash,
-        useBitcoinAmount: bitcoinNeeded,
-        strategy: 'Cash First, Minimal Bitcoin',
-        reasoning: `Bitcoin extremely undervalued (${fairValueRatio.toFixed(2)}x). Using all ${availableCash.toLocaleString()} cash first, selling minimal Bitcoin.`,
-        fairValueRatio,
-        recommendedAction: 'HODL_BITCOIN'
-      };
-    }
-  }
-
-  private static undervaluedStrategy(
-    availableCash: number, 
-    availableBitcoin: number, 
-    withdrawalNeeded: number, 
-    fairValueRatio: number,
-    currentPrice: number
-  ): WithdrawalDecision {
-    // Bitcoin is significantly undervalued - strongly prefer cash
-    const cashRatio = Math.min(1.0, availableCash / withdrawalNeeded);
-    const preferredCashUsage = withdrawalNeeded * Math.max(0.8, cashRatio); // Use at least 80% cash if available
-    
-    if (availableCash >= preferredCashUsage) {
-      const bitcoinNeeded = Math.max(0, (withdrawalNeeded - preferredCashUsage) / currentPrice);
-      return {
-        useCashAmount: preferredCashUsage,
-        useBitcoinAmount: bitcoinNeeded,
-        strategy: bitcoinNeeded > 0 ? 'Mostly Cash (80%+)' : 'Cash Only',
-        reasoning: `Bitcoin undervalued at ${fairValueRatio.toFixed(2)}x fair value. Historically spends 54.4% of time below 1.0x. Preserve Bitcoin for recovery.`,
-        fairValueRatio,
-        recommendedAction: 'HODL_BITCOIN'
-      };
-    } else {
-      // Use all available cash, rest from Bitcoin
-      const bitcoinNeeded = (withdrawalNeeded - availableCash) / currentPrice;
-      return {
-        useCashAmount: availableCash,
-        useBitcoinAmount: bitcoinNeeded,
-        strategy: 'Cash First, Some Bitcoin',
-        reasoning: `Bitcoin undervalued but limited cash. Using all $${availableCash.toLocaleString()} cash first.`,
-        fairValueRatio,
-        recommendedAction: 'HODL_BITCOIN'
-      };
-    }
-  }
-
-  private static fairValueStrategy(
-    availableCash: number, 
-    availableBitcoin: number, 
-    withdrawalNeeded: number, 
-    fairValueRatio: number,
-    currentPrice: number
-  ): WithdrawalDecision {
-    // Near fair value - balanced approach
-    const totalValue = availableCash + (availableBitcoin * currentPrice);
-    const cashRatio = availableCash / totalValue;
-    // Bitcoin ratio calculation for potential future use
-    // const bitcoinRatio = 1 - cashRatio;
-    
-    // Use assets proportionally, but slightly favor cash to maintain Bitcoin exposure
-    const preferredCashUsage = Math.min(availableCash, withdrawalNeeded * Math.min(0.6, cashRatio * 1.2));
-    const bitcoinUsage = Math.max(0, (withdrawalNeeded - preferredCashUsage) / currentPrice);
-    
     return {
-      useCashAmount: preferredCashUsage,
-      useBitcoinAmount: bitcoinUsage,
-      strategy: 'Balanced Withdrawal',
-      reasoning: `Bitcoin near fair value (${fairValueRatio.toFixed(2)}x). Using balanced approach with slight cash preference to maintain Bitcoin exposure.`,
+      useCashAmount: cash,
+      useBitcoinAmount: bitcoin,
+      strategy: allocation.strategy,
+      reasoning: `Bitcoin at ${fairValueRatio.toFixed(2)}x fair value (${zone.name} zone). ${zone.note}`,
       fairValueRatio,
-      recommendedAction: 'BALANCED'
+      recommendedAction: zone.recommendedAction
     };
   }
 
-  private static overvaluedStrategy(
-    availableCash: number, 
-    availableBitcoin: number, 
-    withdrawalNeeded: number, 
-    fairValueRatio: number,
-    currentPrice: number
-  ): WithdrawalDecision {
-    // Bitcoin is overvalued - prefer to spend Bitcoin
-    const bitcoinValue = availableBitcoin * currentPrice;
-    
-    if (bitcoinValue >= withdrawalNeeded) {
-      // Can cover entirely with Bitcoin
-      const bitcoinNeeded = withdrawalNeeded / currentPrice;
-      return {
-        useCashAmount: 0,
-        useBitcoinAmount: bitcoinNeeded,
-        strategy: 'Bitcoin Only (Take Profits)',
-        reasoning: `Bitcoin overvalued at ${fairValueRatio.toFixed(2)}x fair value. Good time to take profits while preserving cash for future opportunities.`,
-        fairValueRatio,
-        recommendedAction: 'SPEND_BITCOIN'
-      };
-    } else {
-      // Use significant Bitcoin portion, supplement with cash
-      const maxBitcoinUsage = Math.min(availableBitcoin, (withdrawalNeeded * 0.8) / currentPrice);
-      const cashNeeded = Math.max(0, withdrawalNeeded - (maxBitcoinUsage * currentPrice));
-      
-      return {
-        useCashAmount: Math.min(availableCash, cashNeeded),
-        useBitcoinAmount: maxBitcoinUsage,
-        strategy: 'Mostly Bitcoin (80%+)',
-        reasoning: `Bitcoin overvalued at ${fairValueRatio.toFixed(2)}x. Taking profits while Bitcoin is above fair value.`,
-        fairValueRatio,
-        recommendedAction: 'SPEND_BITCOIN'
-      };
-    }
+  /**
+   * Zone containing the ratio, with boundaries from bubbleScaledFrom upward moved by the bubble scale
+   */
+  static findZone(config: SmartWithdrawalConfig, fairValueRatio: number, bubbleScale: number = 1): WithdrawalZone {
+    const scaled = (ratio: number) => (ratio >= config.bubbleScaledFrom ? ratio * bubbleScale : ratio);
+    const zone = config.zones.find(candidate => candidate.maxRatio === null || fairValueRatio <= scaled(candidate.maxRatio));
+    return zone || config.zones[config.zones.length - 1];
   }
 
-  private static bubbleStrategy(
-    availableCash: number, 
-    availableBitcoin: number, 
-    withdrawalNeeded: number, 
-    fairValueRatio: number,
+  private static allocate(
+    zone: WithdrawalZone,
+    availableCash: number,
+    availableBitcoin: number,
+    withdrawalNeeded: number,
     currentPrice: number
-  ): WithdrawalDecision {
-    // Bitcoin in bubble territory - aggressively take profits
-    const bitcoinNeeded = withdrawalNeeded / currentPrice;
-    
-    return {
-      useCashAmount: 0,
-      useBitcoinAmount: Math.min(availableBitcoin, bitcoinNeeded),
-      strategy: 'Bitcoin Only (Bubble Profits)',
-      reasoning: `Bitcoin in bubble territory at ${fairValueRatio.toFixed(2)}x fair value. Aggressively taking profits. Historical analysis shows mean reversion is likely.`,
-      fairValueRatio,
-      recommendedAction: 'SPEND_BITCOIN'
-    };
+  ): { cash: number; bitcoin: number; strategy: string } {
+    const bitcoinValue = availableBitcoin * currentPrice;
+    const cashPercent = Math.round(zone.cashShare * 100);
+
+    switch (zone.rule) {
+      case 'cash-first': {
+        const cash = Math.min(availableCash, withdrawalNeeded * zone.cashShare);
+        const bitcoin = Math.max(0, (withdrawalNeeded - cash) / currentPrice);
+        let strategy = 'Cash First, Some Bitcoin';
+        if (bitcoin === 0) {
+          strategy = `Cash Only (${zone.name})`;
+        } else if (zone.cashShare < 1 && cash >= withdrawalNeeded * zone.cashShare) {
+          strategy = `Mostly Cash (${cashPercent}%)`;
+        }
+        return { cash, bitcoin, strategy };
+      }
+      case 'balanced': {
+        // Use assets proportionally, but slightly favor cash to maintain Bitcoin exposure
+        const holdingsCashRatio = availableCash / (availableCash + bitcoinValue);
+        const cash = Math.min(availableCash, withdrawalNeeded * Math.min(zone.cashShare, holdingsCashRatio * BALANCED_CASH_TILT));
+        return { cash, bitcoin: Math.max(0, (withdrawalNeeded - cash) / currentPrice), strategy: 'Balanced Withdrawal' };
+      }
+      case 'bitcoin-first': {
+        if (bitcoinValue >= withdrawalNeeded) {
+          return { cash: 0, bitcoin: withdrawalNeeded / currentPrice, strategy: `Bitcoin Only (${zone.name})` };
+        }
+        const bitcoin = Math.min(availableBitcoin, (withdrawalNeeded * (1 - zone.cashShare)) / currentPrice);
+        const cash = Math.min(availableCash, Math.max(0, withdrawalNeeded - bitcoin * currentPrice));
+        return { cash, bitcoin, strategy: `Mostly Bitcoin (${100 - cashPercent}%+)` };
+      }
+      default:
+        return {
+          cash: 0,
+          bitcoin: Math.min(availableBitcoin, withdrawalNeeded / currentPrice),
+          strategy: `Bitcoin Only (${zone.name})`
+        };
+    }
   }
 
-  private static extremeBubbleStrategy(
-    availableCash: number, 
-    availableBitcoin: number, 
-    withdrawalNeeded: number, 
-    fairValueRatio: number,
+  /**
+   * Round cash to the configured increment and Bitcoin up to the configured decimals,
+   * moving the difference to Bitcoin so the withdrawal is still covered
+   */
+  private static applyRounding(
+    rounding: WithdrawalRounding,
+    cash: number,
+    bitcoin: number,
+    availableCash: number,
+    withdrawalNeeded: number,
     currentPrice: number
-  ): WithdrawalDecision {
-    // Extreme bubble like 2013's 13x - maximum profit taking
-    const bitcoinNeeded = withdrawalNeeded / currentPrice;
-    
-    return {
-      useCashAmount: 0,
-      useBitcoinAmount: Math.min(availableBitcoin, bitcoinNeeded),
-      strategy: 'Bitcoin Only (Extreme Bubble)',
-      reasoning: `Bitcoin in extreme bubble at ${fairValueRatio.toFixed(2)}x fair value! Historical high was 13.02x in 2013. Take maximum profits immediately - major correction likely.`,
-      fairValueRatio,
-      recommendedAction: 'SPEND_BITCOIN'
-    };
+  ): { cash: number; bitcoin: number } {
+    let roundedCash = cash;
+    let roundedBitcoin = bitcoin;
+    if (rounding.cashIncrement > 0) {
+      roundedCash = Math.round(cash / rounding.cashIncrement) * rounding.cashIncrement;
+      roundedCash = Math.max(0, Math.min(roundedCash, availableCash, withdrawalNeeded));
+      roundedBitcoin = Math.max(0, bitcoin + (cash - roundedCash) / currentPrice);
+    }
+    if (rounding.bitcoinDecimals !== null) {
+      const scale = Math.pow(10, rounding.bitcoinDecimals);
+      // Round away floating-point noise before rounding up so exact amounts stay put
+      roundedBitcoin = Math.ceil(Math.round(roundedBitcoin * scale * 1e6) / 1e6) / scale;
+    }
+    return { cash: roundedCash, bitcoin: roundedBitcoin };
   }
 
   private static emergencyWithdrawal(
@@ -313,9 +388,10 @@ export class SmartWithdrawalStrategy {
     currentPrice: number, 
     currentDate: Date, 
     bitcoinHoldings: number, 
-    cashHoldings: number
+    cashHoldings: number,
+    priceModel: PriceModel = POWER_LAW_MODEL
   ): string {
-    const fairValue = BitcoinPowerLaw.calculateFairValue(currentDate);
+    const fairValue = priceModel.fairValue(currentDate);
     const ratio = currentPrice / fairValue;
     const bitcoinValue = bitcoinHoldings * currentPrice;
     const totalValue = bitcoinValue + cashHoldings;
@@ -0,0 +1,54 @@
+/**
+ * Tests for the withdrawal strategy comparison:
+ * - One outcome per strategy over the 50-year plan
+ * - Metrics match each strategy's own plan
+ * - Max drawdown from portfolio value peaks
+ */
+
+import { SimulationYear } from '../types/Bitcoin';
+import { RETIREMENT_YEARS, evaluateRetirementPlan } from './RetirementEngine';
+import { COMPARISON_STRATEGIES, calculateMaxDrawdown, compareWithdrawalStrategies } from './StrategyComparison';
+import { CASH_FIRST_STRATEGY } from './WithdrawalStrategy';
+import { makeTestScenario } from './testScenario';
+
+const scenario = makeTestScenario({ retirementInputs: { bitcoinAmount: 2, cashAmount: 200000 } });
+
+describe('StrategyComparison', () => {
+  it('returns one outcome per strategy and a value for every year', () => {
+    const comparison = compareWithdrawalStrategies(scenario)!;
+    expect(comparison.outcomes.map(outcome => outcome.strategyId)).toEqual(COMPARISON_STRATEGIES.map(strategy => strategy.id));
+    expect(comparison.portfolioValues).toHaveLength(RETIREMENT_YEARS);
+  });
+
+  it('matches each strategy\'s own plan', () => {
+    const comparison = compareWithdrawalStrategies(scenario)!;
+    const plan = evaluateRetirementPlan({ ...scenario, withdrawalStrategy: CASH_FIRST_STRATEGY })!;
+    const outcome = comparison.outcomes.find(o => o.strategyId === 'cash-first')!;
+    const finalYear = plan.withdrawalYears[plan.withdrawalYears.length - 1];
+
+    expect(outcome.terminalBitcoin).toBeCloseTo(finalYear.remainingBitcoin, 10);
+    expect(outcome.terminalValue).toBeCloseTo(finalYear.totalRemainingValue, 6);
+    expect(outcome.depletionYear).toBe(plan.depletionYear);
+    expect(outcome.totalBitcoinSold).toBeCloseTo(plan.withdrawalYears.reduce((sum, row) => sum + row.bitcoinSold, 0), 10);
+    expect(comparison.portfolioValues[0]['cash-first']).toBeCloseTo(plan.withdrawalYears[0].totalRemainingValue, 6);
+  });
+
+  it('cash first keeps Bitcoin through the first bear market that proportional sells into', () => {
+    const comparison = compareWithdrawalStrategies(scenario)!;
+    const cashFirst = comparison.outcomes.find(o => o.strategyId === 'cash-first')!;
+    const proportional = comparison.outcomes.find(o => o.strategyId === 'proportional')!;
+    // The plan starts in a bear market below fair value, where proportional sells Bitcoin from the first year
+    expect(proportional.firstSaleBelowFairValue).toBe(2026);
+    expect(cashFirst.firstSaleBelowFairValue === null || cashFirst.firstSaleBelowFairValue > 2026).toBe(true);
+  });
+
+  it('measures max drawdown from the highest earlier value', () => {
+    const rows = [100, 150, 90, 120, 60, 200].map(value => ({ totalRemainingValue: value } as SimulationYear));
+    expect(calculateMaxDrawdown(rows)).toBeCloseTo(0.6, 10);
+    expect(calculateMaxDrawdown([])).toBe(0);
+  });
+
+  it('returns null when there is nothing to simulate', () => {
+    expect(compareWithdrawalStrategies(makeTestScenario({ retirementInputs: { annualWithdrawal: 0 } }))).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { RetirementScenario, SimulationYear } from '../types/Bitcoin';
+import { RETIREMENT_YEARS, evaluateRetirementPlan } from './RetirementEngine';
+import {
+  CASH_FIRST_STRATEGY,
+  PROPORTIONAL_STRATEGY,
+  SMART_WITHDRAWAL_STRATEGY,
+  WithdrawalStrategy
+} from './WithdrawalStrategy';
+
+/** Smart Withdrawal and the simple baselines it is measured against */
+export const COMPARISON_STRATEGIES: WithdrawalStrategy[] = [
+  SMART_WITHDRAWAL_STRATEGY,
+  CASH_FIRST_STRATEGY,
+  PROPORTIONAL_STRATEGY
+];
+
+export interface StrategyOutcome {
+  strategyId: string;
+  name: string;
+  terminalBitcoin: number;
+  /** Cash plus Bitcoin value at the end of the last simulated year */
+  terminalValue: number;
+  depletionYear: number | null;
+  /** Largest fall in portfolio value from an earlier peak, as a share of the peak */
+  maxDrawdown: number;
+  totalBitcoinSold: number;
+  /** First year Bitcoin was sold below fair value, null if it never was */
+  firstSaleBelowFairValue: number | null;
+}
+
+/**
+ * Portfolio value at the end of a withdrawal year, one field per strategy id
+ */
+export type PortfolioValuePoint = { year: number } & Record<string, number>;
+
+export interface StrategyComparison {
+  outcomes: StrategyOutcome[];
+  portfolioValues: PortfolioValuePoint[];
+}
+
+/**
+ * Largest peak-to-trough fall in total value across the rows, as a share of the peak
+ */
+export const calculateMaxDrawdown = (rows: SimulationYear[]): number => {
+  let peak = 0;
+  let maxDrawdown = 0;
+  rows.forEach(row => {
+    peak = Math.max(peak, row.totalRemainingValue);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - row.totalRemainingValue) / peak);
+    }
+  });
+  return maxDrawdown;
+};
+
+/**
+ * Run the same 50-year plan once per withdrawal strategy.
+ * Plans that deplete early count as worth nothing for the remaining years.
+ * Returns null when the scenario has nothing to simulate.
+ */
+export const compareWithdrawalStrategies = (
+  scenario: RetirementScenario,
+  strategies: WithdrawalStrategy[] = COMPARISON_STRATEGIES
+): StrategyComparison | null => {
+  const outcomes: StrategyOutcome[] = [];
+  const portfolioValues: PortfolioValuePoint[] = [];
+
+  for (const strategy of strategies) {
+    const plan = evaluateRetirementPlan({ ...scenario, withdrawalStrategy: strategy });
+    if (!plan) return null;
+
+    const { withdrawalYears, retirementStartYear } = plan;
+    const finalYear = withdrawalYears[withdrawalYears.length - 1];
+    const firstSaleBelowFairValue = withdrawalYears.find(row => row.bitcoinSold > 0 && row.priceToFairRatio < 1);
+    outcomes.push({
+      strategyId: strategy.id,
+      name: strategy.name,
+      terminalBitcoin: finalYear.remainingBitcoin,
+      terminalValue: finalYear.totalRemainingValue,
+      depletionYear: plan.depletionYear,
+      maxDrawdown: calculateMaxDrawdown(withdrawalYears),
+      totalBitcoinSold: withdrawalYears.reduce((sum, row) => sum + row.bitcoinSold, 0),
+      firstSaleBelowFairValue: firstSaleBelowFairValue ? firstSaleBelowFairValue.year : null
+    });
+
+    for (let i = 0; i < RETIREMENT_YEARS; i++) {
+      if (!portfolioValues[i]) {
+        portfolioValues[i] = { year: retirementStartYear + i };
+      }
+      portfolioValues[i][strategy.id] = withdrawalYears[i] ? withdrawalYears[i].totalRemainingValue : 0;
+    }
+  }
+
+  return { outcomes, portfolioValues };
+};
@@ -0,0 +1,75 @@
+/**
+ * Tests for the stress-test library:
+ * - Each stress path's prices (below the floor, half exponent, 2011 drawdown, flat decade)
+ * - One outcome per stress scenario, passing on the same terms as the 50-year simulation
+ * - No result without Bitcoin or savings
+ */
+
+import { POWER_LAW_MODEL } from '../models/PriceModel';
+import { RetirementScenario } from '../types/Bitcoin';
+import { DEFAULT_CYCLE_CALENDAR } from './CycleCalendar';
+import { calculateCyclePrice } from './RetirementCalculations';
+import { evaluateRetirementPlan, getPlanPricePath } from './RetirementEngine';
+import { STRESS_SCENARIOS, runStressTests } from './StressTest';
+import { makeTestScenario } from './testScenario';
+
+const pathFor = (id: string, scenario: RetirementScenario = makeTestScenario()) =>
+  STRESS_SCENARIOS.find(stress => stress.id === id)!.createPricePath(scenario, 2026);
+
+const january = (year: number) => new Date(year, 0, 1);
+
+describe('StressTest', () => {
+  it('keeps the price below the floor for four years, then recovers', () => {
+    const path = pathFor('below-floor');
+    [0, 1, 2, 3].forEach(index => {
+      expect(path(2026 + index, index).price).toBeCloseTo(POWER_LAW_MODEL.floor(january(2026 + index)) * 0.8, 6);
+    });
+    const floor = POWER_LAW_MODEL.floor(january(2030));
+    expect(path(2030, 4).price).toBeCloseTo(floor + (POWER_LAW_MODEL.fairValue(january(2030)) - floor) * 0.75, 6);
+  });
+
+  it('grows the plan prices at half the exponent from the retirement year', () => {
+    const scenario = makeTestScenario();
+    const path = pathFor('exponent-decline', scenario);
+    const planPath = getPlanPricePath(2026, POWER_LAW_MODEL, DEFAULT_CYCLE_CALENDAR, null);
+    expect(path(2026, 0).price).toBeCloseTo(planPath(2026, 0).price, 6);
+
+    const growth = POWER_LAW_MODEL.fairValue(january(2046)) / POWER_LAW_MODEL.fairValue(january(2026));
+    expect(path(2046, 20).price / planPath(2046, 20).price).toBeCloseTo(Math.sqrt(growth) / growth, 6);
+  });
+
+  it('starts the 2011-style drawdown 93% below fair value', () => {
+    const path = pathFor('drawdown-2011');
+    expect(path(2026, 0).price).toBeCloseTo(POWER_LAW_MODEL.fairValue(january(2026)) * 0.07, 6);
+    expect(path(2029, 3)).toEqual(calculateCyclePrice(2029, false, POWER_LAW_MODEL, DEFAULT_CYCLE_CALENDAR));
+  });
+
+  it('holds the price flat for a decade, then grows from that level', () => {
+    const path = pathFor('flat-decade');
+    const startFairValue = POWER_LAW_MODEL.fairValue(january(2026));
+    expect(path(2026, 0).price).toBeCloseTo(startFairValue, 6);
+    expect(path(2035, 9).price).toBeCloseTo(startFairValue, 6);
+    expect(path(2036, 10).price).toBeCloseTo(startFairValue, 6);
+    expect(path(2037, 11).price).toBeGreaterThan(startFairValue);
+  });
+
+  it('reports one outcome per stress scenario, passing like the 50-year simulation', () => {
+    const modest = runStressTests(makeTestScenario({ retirementInputs: { annualWithdrawal: 1000 } }))!;
+    expect(modest.map(outcome => outcome.id)).toEqual(STRESS_SCENARIOS.map(stress => stress.id));
+    expect(modest.every(outcome => outcome.passes && outcome.yearsLasted === 50)).toBe(true);
+
+    const heavy = runStressTests(makeTestScenario({ retirementInputs: { annualWithdrawal: 400000 } }))!;
+    expect(heavy.every(outcome => !outcome.passes && outcome.depletionYear !== null)).toBe(true);
+  });
+
+  it('leaves less Bitcoin than the plan under the 2011-style drawdown', () => {
+    const scenario = makeTestScenario();
+    const plan = evaluateRetirementPlan(scenario)!;
+    const drawdown = runStressTests(scenario)!.find(outcome => outcome.id === 'drawdown-2011')!;
+    expect(drawdown.remainingBitcoin).toBeLessThan(plan.withdrawalYears[plan.withdrawalYears.length - 1].remainingBitcoin);
+  });
+
+  it('has nothing to stress without Bitcoin or savings', () => {
+    expect(runStressTests(makeTestScenario({ retirementInputs: { bitcoinAmount: 0 } }))).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { RetirementScenario } from '../types/Bitcoin';
+import { CyclePhaseResult, calculateCyclePrice } from './RetirementCalculations';
+import {
+  PlanPricePath,
+  evaluateRetirementPlan,
+  findDepletionIndex,
+  getPlanPricePath,
+  simulateWithdrawalPhase,
+  withdrawalPhaseSucceeds
+} from './RetirementEngine';
+import { SerializedScenario } from './SuccessHeatmap';
+
+/**
+ * A named market path that deliberately breaks the price model for the withdrawal phase
+ */
+export interface StressScenario {
+  id: string;
+  name: string;
+  description: string;
+  createPricePath: (scenario: RetirementScenario, retirementStartYear: number) => PlanPricePath;
+}
+
+export interface StressTestOutcome {
+  id: string;
+  name: string;
+  description: string;
+  passes: boolean;
+  yearsLasted: number;
+  depletionYear: number | null;
+  remainingBitcoin: number;
+}
+
+export interface StressTestRequest {
+  id: number;
+  scenario: SerializedScenario;
+}
+
+export interface StressTestResponse {
+  id: number;
+  outcomes: StressTestOutcome[] | null;
+}
+
+// Price during the prolonged stay below the floor, as a multiple of the floor
+const BELOW_FLOOR_MULTIPLE = 0.8;
+const BELOW_FLOOR_YEARS = 4;
+// Share of the model's growth left after the exponent drops by half
+const EXPONENT_DECLINE = 0.5;
+// June to November 2011: $32 to $2, then back to fair value over three years
+const DRAWDOWN_RATIOS = [0.07, 0.17, 0.41];
+const FLAT_YEARS = 10;
+
+const cycleYearPrice = (scenario: RetirementScenario, year: number): CyclePhaseResult =>
+  calculateCyclePrice(year, false, scenario.priceModel, scenario.cycleCalendar);
+
+/**
+ * The built-in stress library: each path starts on January 1 of the retirement start year
+ */
+export const STRESS_SCENARIOS: StressScenario[] = [
+  {
+    id: 'below-floor',
+    name: '4 years below the floor',
+    description: `${BELOW_FLOOR_YEARS} years at ${BELOW_FLOOR_MULTIPLE}× the floor, a recovery year, then the cycle calendar`,
+    createPricePath: (scenario) => (year, yearIndex) => {
+      const targetDate = new Date(year, 0, 1);
+      const floorValue = scenario.priceModel.floor(targetDate);
+      if (yearIndex < BELOW_FLOOR_YEARS) {
+        return { price: floorValue * BELOW_FLOOR_MULTIPLE, phase: `Below Floor — Year ${yearIndex + 1}`, cycleYear: 0 };
+      }
+      if (yearIndex === BELOW_FLOOR_YEARS) {
+        const fairValue = scenario.priceModel.fairValue(targetDate);
+        return { price: floorValue + (fairValue - floorValue) * 0.75, phase: 'Bear Market Recovery', cycleYear: 1 };
+      }
+      return cycleYearPrice(scenario, year);
+    }
+  },
+  {
+    id: 'exponent-decline',
+    name: 'Power Law exponent halves',
+    description: 'From retirement on, the trend grows at half its exponent (fair value growth to the power 0.5); the usual plan prices ride on that lower trend',
+    createPricePath: (scenario, retirementStartYear) => {
+      const { priceModel } = scenario;
+      const planPath = getPlanPricePath(retirementStartYear, priceModel, scenario.cycleCalendar, null);
+      const startFairValue = priceModel.fairValue(new Date(retirementStartYear, 0, 1));
+      return (year, yearIndex) => {
+        const fairValue = priceModel.fairValue(new Date(year, 0, 1));
+        // For the Power Law, (t / t0)^b becomes (t / t0)^(b / 2)
+        const reducedFairValue = startFairValue * Math.pow(fairValue / startFairValue, EXPONENT_DECLINE);
+        const cycle = planPath(year, yearIndex);
+        return { ...cycle, price: cycle.price * reducedFairValue / fairValue, phase: `${cycle.phase} (half exponent)` };
+      };
+    }
+  },
+  {
+    id: 'drawdown-2011',
+    name: '2011-style 93% drawdown',
+    description: 'The price starts retirement 93% below fair value and takes three years to climb back, then follows the cycle calendar',
+    createPricePath: (scenario) => (year, yearIndex) => {
+      if (yearIndex < DRAWDOWN_RATIOS.length) {
+        const ratio = DRAWDOWN_RATIOS[yearIndex];
+        return {
+          price: scenario.priceModel.fairValue(new Date(year, 0, 1)) * ratio,
+          phase: `2011-Style Drawdown (${ratio.toFixed(2)}x)`,
+          cycleYear: 0
+        };
+      }
+      return cycleYearPrice(scenario, year);
+    }
+  },
+  {
+    id: 'flat-decade',
+    name: 'Flat decade',
+    description: `The price stays at the retirement year's fair value for ${FLAT_YEARS} years, then grows with the model from that level`,
+    createPricePath: (scenario, retirementStartYear) => {
+      const { priceModel } = scenario;
+      const startFairValue = priceModel.fairValue(new Date(retirementStartYear, 0, 1));
+      const resumeFairValue = priceModel.fairValue(new Date(retirementStartYear + FLAT_YEARS, 0, 1));
+      return (year, yearIndex) => {
+        if (yearIndex < FLAT_YEARS) {
+          return { price: startFairValue, phase: `Flat Decade — Year ${yearIndex + 1}`, cycleYear: -1 };
+        }
+        // The decade of lost growth is never made up
+        return { price: priceModel.fairValue(new Date(year, 0, 1)) * startFairValue / resumeFairValue, phase: 'After Flat Decade', cycleYear: -1 };
+      };
+    }
+  }
+];
+
+/**
+ * Run the plan's 50 years of withdrawals along every stress path.
+ * A path passes on the same terms as the 50-year simulation.
+ * Returns null when the scenario has nothing to simulate.
+ */
+export const runStressTests = (
+  scenario: RetirementScenario,
+  stressScenarios: StressScenario[] = STRESS_SCENARIOS
+): StressTestOutcome[] | null => {
+  const plan = evaluateRetirementPlan(scenario);
+  if (!plan) return null;
+
+  const { retirementStartYear, bitcoinAtRetirement } = plan;
+  return stressScenarios.map(stress => {
+    const withdrawalYears = simulateWithdrawalPhase(
+      scenario,
+      retirementStartYear,
+      bitcoinAtRetirement,
+      stress.createPricePath(scenario, retirementStartYear)
+    );
+    const depletionIndex = findDepletionIndex(withdrawalYears);
+    return {
+      id: stress.id,
+      name: stress.name,
+      description: stress.description,
+      passes: withdrawalPhaseSucceeds(withdrawalYears),
+      yearsLasted: depletionIndex >= 0 ? depletionIndex + 1 : withdrawalYears.length,
+      depletionYear: depletionIndex >= 0 ? withdrawalYears[depletionIndex].year : null,
+      remainingBitcoin: Math.max(0, withdrawalYears[withdrawalYears.length - 1].remainingBitcoin)
+    };
+  });
+};
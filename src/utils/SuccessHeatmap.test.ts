@@ -0,0 +1,85 @@
+/**
+ * Tests for the success heatmap:
+ * - Evenly spaced, rounded, de-duplicated axes
+ * - Cells match the plan at that withdrawal and BTC holdings or retirement year
+ * - Serialized scenarios survive a structured clone and rebuild the same plan
+ */
+
+import { PUBLISHED_POWER_LAW_PARAMETERS } from '../models/PowerLaw';
+import { POWER_LAW_MODEL, PowerLawPriceModel, PriceModelRegistry, createDefaultPriceModelSettings } from '../models/PriceModel';
+import { evaluateRetirementPlan } from './RetirementEngine';
+import { planPasses, withYearsUntilRetirement } from './RetirementSolver';
+import {
+  HeatmapOptions,
+  buildHeatmapAxis,
+  computeSuccessHeatmap,
+  createDefaultHeatmapOptions,
+  restoreScenario,
+  serializeScenario
+} from './SuccessHeatmap';
+import { DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS, WithdrawalStrategyRegistry } from './WithdrawalStrategy';
+import { makeTestScenario } from './testScenario';
+
+const scenario = makeTestScenario({
+  retirementInputs: { bitcoinAmount: 2, annualWithdrawal: 60000 },
+  monthlySavingsInputs: { monthlySavingsAmount: 1000, yearsToRetirement: 5, enabled: true },
+  withdrawalStrategy: WithdrawalStrategyRegistry.create('cash-first', DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS)
+});
+
+const options = (overrides: Partial<HeatmapOptions> = {}): HeatmapOptions => ({
+  ...createDefaultHeatmapOptions(scenario),
+  steps: 4,
+  ...overrides
+});
+
+describe('SuccessHeatmap', () => {
+  it('builds evenly spaced axes, rounded and without duplicates', () => {
+    expect(buildHeatmapAxis(0, 30000, 4)).toEqual([0, 10000, 20000, 30000]);
+    expect(buildHeatmapAxis(1, 2, 3, 3)).toEqual([1, 1.5, 2]);
+    expect(buildHeatmapAxis(0, 2, 5)).toEqual([0, 1, 2]);
+    expect(buildHeatmapAxis(0, 100, 100)).toHaveLength(21);
+  });
+
+  it('fills each BTC × withdrawal cell from the plan with those inputs', () => {
+    const heatmap = computeSuccessHeatmap(scenario, options());
+    expect(heatmap.cells).toHaveLength(heatmap.rows.length);
+
+    const row = 2;
+    const column = 1;
+    const plan = evaluateRetirementPlan({
+      ...scenario,
+      retirementInputs: { ...scenario.retirementInputs, bitcoinAmount: heatmap.rows[row], annualWithdrawal: heatmap.withdrawals[column] }
+    });
+    expect(heatmap.cells[row][column]).toEqual({ passes: planPasses(plan), yearsLasted: plan!.yearsLasted });
+  });
+
+  it('uses years until retirement, with the savings window, on the retirement-year axis', () => {
+    const heatmap = computeSuccessHeatmap(scenario, options({ rowAxis: 'retirement-year', yearsMin: 0, yearsMax: 9 }));
+    expect(heatmap.rows).toEqual([0, 3, 6, 9]);
+
+    const retireIn6 = withYearsUntilRetirement(scenario, 6);
+    const planIn6 = evaluateRetirementPlan({
+      ...retireIn6,
+      retirementInputs: { ...retireIn6.retirementInputs, annualWithdrawal: heatmap.withdrawals[3] }
+    });
+    expect(heatmap.cells[2][3].yearsLasted).toBe(planIn6!.yearsLasted);
+  });
+
+  it('serializes to plain data and restores the same plan and Power Law model', () => {
+    const priceModelSettings = {
+      ...createDefaultPriceModelSettings(2026),
+      powerLawParameters: { ...PUBLISHED_POWER_LAW_PARAMETERS, b: 5.7 }
+    };
+    const powerLawScenario = { ...scenario, priceModel: PriceModelRegistry.create(POWER_LAW_MODEL.id, priceModelSettings) };
+    const serialized = serializeScenario(powerLawScenario, POWER_LAW_MODEL.id, priceModelSettings, 'cash-first', DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS);
+    const expected = evaluateRetirementPlan(powerLawScenario)!;
+
+    // Only plain data crosses to a worker
+    const cloned = JSON.parse(JSON.stringify(serialized), (key, value) => key === 'startDate' ? new Date(value) : value);
+    const restored = restoreScenario(cloned);
+
+    expect((restored.priceModel as PowerLawPriceModel).parameters.b).toBe(5.7);
+    expect(restored.withdrawalStrategy.id).toBe('cash-first');
+    expect(evaluateRetirementPlan(restored)!.withdrawalYears).toEqual(expected.withdrawalYears);
+  });
+});
@@ -0,0 +1,158 @@
+import { PriceModelRegistry, PriceModelSettings } from '../models/PriceModel';
+import { RetirementScenario } from '../types/Bitcoin';
+import { evaluateRetirementPlan } from './RetirementEngine';
+import { planPasses, withYearsUntilRetirement } from './RetirementSolver';
+import { WithdrawalStrategyRegistry, WithdrawalStrategySettings } from './WithdrawalStrategy';
+
+export type HeatmapRowAxis = 'bitcoin' | 'retirement-year';
+export type HeatmapMetric = 'pass-fail' | 'years-lasted';
+
+/**
+ * Grid ranges: annual withdrawals across the columns, BTC holdings or years until retirement down the rows
+ */
+export interface HeatmapOptions {
+  rowAxis: HeatmapRowAxis;
+  /** Points per axis, including both ends */
+  steps: number;
+  withdrawalMin: number;
+  withdrawalMax: number;
+  bitcoinMin: number;
+  bitcoinMax: number;
+  yearsMin: number;
+  yearsMax: number;
+}
+
+export interface HeatmapCell {
+  /** Both the Bear Market Test and the 50-year simulation pass */
+  passes: boolean;
+  yearsLasted: number;
+}
+
+export interface SuccessHeatmap {
+  rowAxis: HeatmapRowAxis;
+  withdrawals: number[];
+  /** BTC holdings or years until retirement, one per row */
+  rows: number[];
+  /** cells[row][column] */
+  cells: HeatmapCell[][];
+}
+
+/**
+ * Everything a worker needs to rebuild the scenario: plain data instead of the price model and strategy instances
+ */
+export interface SerializedScenario extends Omit<RetirementScenario, 'priceModel' | 'withdrawalStrategy'> {
+  priceModelId: string;
+  priceModelSettings: PriceModelSettings;
+  withdrawalStrategyId: string;
+  withdrawalStrategySettings: WithdrawalStrategySettings;
+}
+
+export interface SuccessHeatmapRequest {
+  id: number;
+  scenario: SerializedScenario;
+  options: HeatmapOptions;
+}
+
+export interface SuccessHeatmapResponse {
+  id: number;
+  heatmap: SuccessHeatmap;
+}
+
+export const MAX_HEATMAP_STEPS = 21;
+
+/**
+ * Ranges around the scenario's own inputs: half to one and a half times the withdrawal and BTC, retiring within 20 years
+ */
+export const createDefaultHeatmapOptions = (scenario: RetirementScenario): HeatmapOptions => {
+  const { annualWithdrawal, bitcoinAmount } = scenario.retirementInputs;
+  return {
+    rowAxis: 'bitcoin',
+    steps: 11,
+    withdrawalMin: Math.round(annualWithdrawal * 0.5),
+    withdrawalMax: Math.round(annualWithdrawal * 1.5),
+    bitcoinMin: bitcoinAmount * 0.5,
+    bitcoinMax: Math.max(bitcoinAmount * 1.5, 1),
+    yearsMin: 0,
+    yearsMax: 20
+  };
+};
+
+/**
+ * Evenly spaced points from min to max, rounded to the given number of decimals, without duplicates
+ */
+export const buildHeatmapAxis = (min: number, max: number, steps: number, decimals: number = 0): number[] => {
+  const count = Math.max(2, Math.min(MAX_HEATMAP_STEPS, Math.round(steps)));
+  const factor = Math.pow(10, decimals);
+  const points: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = Math.round((min + (max - min) * i / (count - 1)) * factor) / factor;
+    if (points.indexOf(value) === -1) {
+      points.push(value);
+    }
+  }
+  return points;
+};
+
+/**
+ * Pass/fail and years lasted for every withdrawal × BTC (or retirement year) combination of the scenario
+ */
+export const computeSuccessHeatmap = (scenario: RetirementScenario, options: HeatmapOptions): SuccessHeatmap => {
+  const withdrawals = buildHeatmapAxis(options.withdrawalMin, options.withdrawalMax, options.steps);
+  const rows = options.rowAxis === 'bitcoin'
+    ? buildHeatmapAxis(options.bitcoinMin, options.bitcoinMax, options.steps, 3)
+    : buildHeatmapAxis(options.yearsMin, options.yearsMax, options.steps);
+
+  const cells = rows.map(row => {
+    const rowScenario = options.rowAxis === 'bitcoin'
+      ? { ...scenario, retirementInputs: { ...scenario.retirementInputs, bitcoinAmount: row } }
+      : withYearsUntilRetirement(scenario, row);
+    return withdrawals.map(annualWithdrawal => {
+      const plan = evaluateRetirementPlan({
+        ...rowScenario,
+        retirementInputs: { ...rowScenario.retirementInputs, annualWithdrawal }
+      });
+      return { passes: planPasses(plan), yearsLasted: plan ? plan.yearsLasted : 0 };
+    });
+  });
+
+  return { rowAxis: options.rowAxis, withdrawals, rows, cells };
+};
+
+/**
+ * Plain-data copy of a scenario for posting to a worker. The price model settings must be the ones
+ * the scenario's model was created from, including the Power Law fit, bands and upper bound.
+ */
+export const serializeScenario = (
+  scenario: RetirementScenario,
+  priceModelId: string,
+  priceModelSettings: PriceModelSettings,
+  withdrawalStrategyId: string,
+  withdrawalStrategySettings: WithdrawalStrategySettings
+): SerializedScenario => {
+  const { priceModel, withdrawalStrategy, ...data } = scenario;
+  return {
+    ...data,
+    priceModelId,
+    priceModelSettings,
+    withdrawalStrategyId,
+    withdrawalStrategySettings
+  };
+};
+
+/**
+ * Rebuild a serialized scenario with fresh price model and withdrawal strategy instances
+ */
+export const restoreScenario = (serialized: SerializedScenario): RetirementScenario => {
+  const {
+    priceModelId,
+    priceModelSettings,
+    withdrawalStrategyId,
+    withdrawalStrategySettings,
+    ...data
+  } = serialized;
+  return {
+    ...data,
+    priceModel: PriceModelRegistry.create(priceModelId, priceModelSettings),
+    withdrawalStrategy: WithdrawalStrategyRegistry.create(withdrawalStrategyId, withdrawalStrategySettings)
+  };
+};
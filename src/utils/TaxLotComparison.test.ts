@@ -0,0 +1,51 @@
+/**
+ * Tests for the tax-lot selection comparison:
+ * - One outcome per method over the 50-year plan
+ * - Cumulative tax per year matches each method's plan
+ */
+
+import { LOT_SELECTION_METHODS } from './CapitalGainsTax';
+import { RETIREMENT_YEARS, evaluateRetirementPlan } from './RetirementEngine';
+import { compareLotSelectionMethods } from './TaxLotComparison';
+import { makeTestScenario } from './testScenario';
+
+const scenario = makeTestScenario({
+  retirementInputs: { bitcoinAmount: 2, cashAmount: 50000, annualWithdrawal: 60000 },
+  monthlySavingsInputs: { monthlySavingsAmount: 2000, yearsToRetirement: 5, enabled: true },
+  capitalGainsTax: { startingCostBasis: 20000 }
+});
+
+describe('TaxLotComparison', () => {
+  it('returns one outcome per lot selection method', () => {
+    const comparison = compareLotSelectionMethods(scenario)!;
+    expect(comparison.outcomes.map(outcome => outcome.method)).toEqual(LOT_SELECTION_METHODS);
+    expect(comparison.cumulativeTax).toHaveLength(RETIREMENT_YEARS);
+  });
+
+  it('matches each method\'s own plan, with tax enabled', () => {
+    const comparison = compareLotSelectionMethods(scenario)!;
+    const hifo = evaluateRetirementPlan({
+      ...scenario,
+      capitalGainsTax: { ...scenario.capitalGainsTax, enabled: true, lotSelection: 'hifo' }
+    })!;
+    const outcome = comparison.outcomes.find(o => o.method === 'hifo')!;
+
+    expect(outcome.totalTaxPaid).toBeGreaterThan(0);
+    expect(outcome.totalTaxPaid).toBeCloseTo(hifo.totalTaxPaid, 6);
+    expect(outcome.unrealizedGain).toBeCloseTo(hifo.withdrawalYears[hifo.withdrawalYears.length - 1].unrealizedGain, 6);
+    expect(comparison.cumulativeTax[RETIREMENT_YEARS - 1].hifo).toBeCloseTo(hifo.totalTaxPaid, 6);
+  });
+
+  it('defers tax with HIFO compared to FIFO in the first years', () => {
+    const comparison = compareLotSelectionMethods(scenario)!;
+    const earlyYears = comparison.cumulativeTax[9];
+    expect(earlyYears.hifo).toBeLessThanOrEqual(earlyYears.fifo);
+  });
+
+  it('returns null when there is nothing to simulate', () => {
+    expect(compareLotSelectionMethods({
+      ...scenario,
+      retirementInputs: { ...scenario.retirementInputs, annualWithdrawal: 0 }
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { RetirementScenario } from '../types/Bitcoin';
+import { LOT_SELECTION_METHODS, LotSelectionMethod } from './CapitalGainsTax';
+import { RETIREMENT_YEARS, evaluateRetirementPlan } from './RetirementEngine';
+
+export interface LotSelectionOutcome {
+  method: LotSelectionMethod;
+  totalTaxPaid: number;
+  /** Untaxed gain in the lots still held at the end of the plan */
+  unrealizedGain: number;
+  remainingBitcoin: number;
+  yearsLasted: number;
+  depletionYear: number | null;
+}
+
+/**
+ * Cumulative tax paid by the end of a withdrawal year, one field per lot selection method
+ */
+export type CumulativeTaxPoint = { year: number } & Record<LotSelectionMethod, number>;
+
+/**
+ * No tax yet for any method; typed as a full record so a new lot selection method has to be added here
+ */
+const noTaxByMethod = (): Record<LotSelectionMethod, number> => ({ fifo: 0, lifo: 0, hifo: 0, 'min-tax': 0 });
+
+export interface LotSelectionComparison {
+  outcomes: LotSelectionOutcome[];
+  cumulativeTax: CumulativeTaxPoint[];
+}
+
+/**
+ * Run the 50-year plan once per lot selection method with capital gains tax enabled.
+ * Plans that deplete early keep their final cumulative tax for the remaining years.
+ * Returns null when the scenario has nothing to simulate.
+ */
+export const compareLotSelectionMethods = (
+  scenario: RetirementScenario,
+  methods: LotSelectionMethod[] = LOT_SELECTION_METHODS
+): LotSelectionComparison | null => {
+  const outcomes: LotSelectionOutcome[] = [];
+  const cumulativeTax: CumulativeTaxPoint[] = [];
+
+  for (const method of methods) {
+    const plan = evaluateRetirementPlan({
+      ...scenario,
+      capitalGainsTax: { ...scenario.capitalGainsTax, enabled: true, lotSelection: method }
+    });
+    if (!plan) return null;
+
+    const { withdrawalYears, retirementStartYear } = plan;
+    const finalYear = withdrawalYears[withdrawalYears.length - 1];
+    outcomes.push({
+      method,
+      totalTaxPaid: plan.totalTaxPaid,
+      unrealizedGain: finalYear.unrealizedGain,
+      remainingBitcoin: finalYear.remainingBitcoin,
+      yearsLasted: plan.yearsLasted,
+      depletionYear: plan.depletionYear
+    });
+
+    let total = 0;
+    for (let i = 0; i < RETIREMENT_YEARS; i++) {
+      total += withdrawalYears[i] ? withdrawalYears[i].taxPaid : 0;
+      if (!cumulativeTax[i]) {
+        cumulativeTax[i] = { year: retirementStartYear + i, ...noTaxByMethod() };
+      }
+      cumulativeTax[i][method] = total;
+    }
+  }
+
+  return { outcomes, cumulativeTax };
+};
@@ -0,0 +1,204 @@
+/**
+ * Tests for the withdrawal strategies:
+ * - Registry lists the built-ins and falls back to Smart Withdrawal
+ * - Smart Withdrawal matches the zone decision
+ * - Cash-first and proportional baselines
+ * - Constant dollar, fixed percentage and VPW spending amounts
+ * - Guyton-Klinger inflation rule and guardrails
+ * - Two-bucket cash spending and refill
+ * - Monthly withdrawals spend a twelfth of the yearly amount
+ */
+
+import { POWER_LAW_MODEL } from '../models/PriceModel';
+import { DEFAULT_SMART_WITHDRAWAL_CONFIG, SmartWithdrawalStrategy } from './SmartWithdrawalStrategy';
+import {
+  DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS,
+  SMART_WITHDRAWAL_STRATEGY,
+  WithdrawalStrategyRegistry,
+  WithdrawalStrategySettings,
+  WithdrawalYearContext,
+  calculateVpwRate
+} from './WithdrawalStrategy';
+
+const date = new Date(2030, 0, 1);
+const fairValue = POWER_LAW_MODEL.fairValue(date);
+
+function makeContext(overrides: Partial<WithdrawalYearContext> = {}): WithdrawalYearContext {
+  return {
+    yearIndex: 0,
+    yearsRemaining: 50,
+    date,
+    bitcoinPrice: fairValue,
+    periodFraction: 1,
+    availableCash: 100000,
+    // Portfolio of 1,000,000: 100,000 cash and 900,000 in Bitcoin
+    availableBitcoin: 900000 / fairValue,
+    plannedWithdrawal: 40000,
+    inflationSinceRetirement: 1,
+    yearlyInflation: 1,
+    initialPortfolioValue: 1000000,
+    previousWithdrawal: null,
+    previousPortfolioValue: null,
+    priceModel: POWER_LAW_MODEL,
+    smartWithdrawal: DEFAULT_SMART_WITHDRAWAL_CONFIG,
+    ...overrides
+  };
+}
+
+function create(id: string, settings: Partial<WithdrawalStrategySettings> = {}) {
+  return WithdrawalStrategyRegistry.create(id, { ...DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS, ...settings });
+}
+
+describe('WithdrawalStrategy', () => {
+  describe('WithdrawalStrategyRegistry', () => {
+    it('lists the built-in strategies', () => {
+      expect(WithdrawalStrategyRegistry.list().map(definition => definition.id)).toEqual([
+        'smart', 'cash-first', 'proportional', 'constant-dollar', 'fixed-percentage', 'vpw', 'guyton-klinger', 'two-bucket'
+      ]);
+    });
+
+    it('creates each strategy with its own id and falls back to Smart Withdrawal', () => {
+      WithdrawalStrategyRegistry.list().forEach(definition => {
+        expect(create(definition.id).id).toBe(definition.id);
+      });
+      expect(create('unknown')).toBe(SMART_WITHDRAWAL_STRATEGY);
+    });
+  });
+
+  it('scales every strategy\'s spending by the share of the year it pays for', () => {
+    WithdrawalStrategyRegistry.list().forEach(definition => {
+      const strategy = create(definition.id);
+      const yearly = strategy.withdraw(makeContext({ bitcoinPrice: fairValue * 0.7 }));
+      const monthly = strategy.withdraw(makeContext({ bitcoinPrice: fairValue * 0.7, periodFraction: 1 / 12 }));
+      expect(monthly.amount).toBeCloseTo(yearly.amount / 12, 6);
+    });
+  });
+
+  describe('Smart Withdrawal', () => {
+    it('spends the planned withdrawal split by the zones', () => {
+      const context = makeContext({ bitcoinPrice: fairValue * 2 });
+      const withdrawal = SMART_WITHDRAWAL_STRATEGY.withdraw(context);
+      const decision = SmartWithdrawalStrategy.calculateWithdrawal({
+        currentBitcoinPrice: context.bitcoinPrice,
+        currentDate: date,
+        availableCash: context.availableCash,
+        availableBitcoin: context.availableBitcoin,
+        withdrawalNeeded: 40000
+      });
+      expect(withdrawal.amount).toBe(40000);
+      expect(withdrawal.cashUsed).toBe(decision.useCashAmount);
+      expect(withdrawal.bitcoinSold).toBe(decision.useBitcoinAmount);
+      expect(withdrawal.strategy).toBe(decision.strategy);
+    });
+  });
+
+  describe('Baselines', () => {
+    it('cash first spends cash until it runs out, whatever the price', () => {
+      const cashFirst = create('cash-first');
+      expect(cashFirst.withdraw(makeContext({ bitcoinPrice: fairValue * 3 })).cashUsed).toBe(40000);
+      const short = cashFirst.withdraw(makeContext({ availableCash: 10000 }));
+      expect(short.cashUsed).toBe(10000);
+      expect(short.bitcoinSold * fairValue).toBeCloseTo(30000, 6);
+    });
+
+    it('proportional splits by the cash and Bitcoin share of the portfolio', () => {
+      const withdrawal = create('proportional').withdraw(makeContext());
+      expect(withdrawal.amount).toBe(40000);
+      expect(withdrawal.cashUsed).toBeCloseTo(4000, 6);
+      expect(withdrawal.bitcoinSold * fairValue).toBeCloseTo(36000, 6);
+    });
+  });
+
+  describe('Portfolio-based spending', () => {
+    it('constant dollar spends the rate on the starting portfolio, raised with inflation', () => {
+      const withdrawal = create('constant-dollar').withdraw(makeContext({ inflationSinceRetirement: 1.5 }));
+      expect(withdrawal.amount).toBeCloseTo(60000, 6);
+      // Proportional split: 10% cash, 90% Bitcoin
+      expect(withdrawal.cashUsed).toBeCloseTo(6000, 6);
+      expect(withdrawal.bitcoinSold * fairValue).toBeCloseTo(54000, 6);
+      expect(withdrawal.strategy).toBe('4% Rule');
+    });
+
+    it('fixed percentage follows the current portfolio value', () => {
+      const withdrawal = create('fixed-percentage', { fixedPercentage: 0.05 }).withdraw(makeContext({ bitcoinPrice: fairValue * 2 }));
+      expect(withdrawal.amount).toBeCloseTo(0.05 * (100000 + 1800000), 6);
+    });
+
+    it('never spends more than the portfolio holds', () => {
+      const withdrawal = create('constant-dollar').withdraw(makeContext({ availableCash: 10000, availableBitcoin: 0 }));
+      expect(withdrawal.amount).toBe(10000);
+      expect(withdrawal.cashUsed).toBe(10000);
+      expect(withdrawal.bitcoinSold).toBe(0);
+    });
+
+    it('VPW rate is the start-of-year annuity payment and rises as the horizon shortens', () => {
+      expect(calculateVpwRate(0.05, 1)).toBeCloseTo(1, 10);
+      expect(calculateVpwRate(0, 20)).toBeCloseTo(0.05, 10);
+      expect(calculateVpwRate(0.05, 30)).toBeCloseTo(0.0620, 4);
+
+      const vpw = create('vpw', { vpwExpectedReturn: 0.05, vpwHorizonYears: 60 });
+      const early = vpw.withdraw(makeContext({ yearIndex: 0 }));
+      const late = vpw.withdraw(makeContext({ yearIndex: 30 }));
+      expect(early.amount).toBeCloseTo(1000000 * calculateVpwRate(0.05, 60), 6);
+      expect(late.amount).toBeCloseTo(1000000 * calculateVpwRate(0.05, 30), 6);
+    });
+  });
+
+  describe('Guyton-Klinger', () => {
+    const guytonKlinger = create('guyton-klinger', { guytonKlingerInitialRate: 0.05 });
+
+    it('starts at the initial rate and raises with inflation inside the guardrails', () => {
+      expect(guytonKlinger.withdraw(makeContext()).amount).toBeCloseTo(50000, 6);
+      const raised = guytonKlinger.withdraw(makeContext({
+        yearIndex: 1,
+        previousWithdrawal: 50000,
+        previousPortfolioValue: 950000,
+        yearlyInflation: 1.03
+      }));
+      expect(raised.amount).toBeCloseTo(51500, 6);
+    });
+
+    it('skips the raise after a losing year while the rate is above the initial rate', () => {
+      const withdrawal = guytonKlinger.withdraw(makeContext({
+        yearIndex: 1,
+        availableBitcoin: 800000 / fairValue,
+        previousWithdrawal: 50000,
+        previousPortfolioValue: 1000000,
+        yearlyInflation: 1.03
+      }));
+      expect(withdrawal.amount).toBeCloseTo(50000, 6);
+      expect(withdrawal.strategy).toBe('Guardrails: raise skipped');
+    });
+
+    it('cuts above the upper guardrail except in the last 15 years, and raises below the lower one', () => {
+      // 80,000 on 900,000 is 8.9%, above 5% × 1.2
+      const crashed = makeContext({ yearIndex: 5, availableBitcoin: 800000 / fairValue, previousWithdrawal: 80000, previousPortfolioValue: 800000 });
+      expect(guytonKlinger.withdraw(crashed).amount).toBeCloseTo(72000, 6);
+      expect(guytonKlinger.withdraw({ ...crashed, yearsRemaining: 15 }).amount).toBeCloseTo(80000, 6);
+
+      // 30,000 on 1,000,000 is 3%, below 5% × 0.8
+      const boomed = guytonKlinger.withdraw(makeContext({ yearIndex: 5, previousWithdrawal: 30000, previousPortfolioValue: 900000 }));
+      expect(boomed.amount).toBeCloseTo(33000, 6);
+      expect(boomed.strategy).toBe('Guardrails: 10% raise');
+    });
+  });
+
+  describe('Two-bucket', () => {
+    const twoBucket = create('two-bucket', { bucketYears: 3 });
+
+    it('spends cash below fair value', () => {
+      const withdrawal = twoBucket.withdraw(makeContext({ bitcoinPrice: fairValue * 0.7 }));
+      expect(withdrawal.cashUsed).toBe(40000);
+      expect(withdrawal.bitcoinSold).toBe(0);
+      expect(withdrawal.cashRefill).toBe(0);
+    });
+
+    it('sells Bitcoin at or above fair value and refills cash to its target', () => {
+      const withdrawal = twoBucket.withdraw(makeContext({ availableCash: 50000 }));
+      expect(withdrawal.cashUsed).toBe(0);
+      expect(withdrawal.cashRefill).toBeCloseTo(120000 - 50000, 6);
+      expect(withdrawal.bitcoinSold * fairValue).toBeCloseTo(40000 + 70000, 6);
+      expect(withdrawal.strategy).toBe('Bitcoin Bucket, Cash Refilled');
+    });
+  });
+});
@@ -0,0 +1,422 @@
+import { PriceModel } from '../models/PriceModel';
+import { SmartWithdrawalConfig, SmartWithdrawalStrategy } from './SmartWithdrawalStrategy';
+
+// Guyton-Klinger skips the capital preservation cut in the last 15 years of the plan
+const GUYTON_KLINGER_PRESERVATION_CUTOFF_YEARS = 15;
+
+/**
+ * What a strategy sees at the start of each withdrawal year, or each month with monthly withdrawals
+ */
+export interface WithdrawalYearContext {
+  /** 0 in the first retirement year */
+  yearIndex: number;
+  /** Years left in the plan, including this one */
+  yearsRemaining: number;
+  date: Date;
+  bitcoinPrice: number;
+  /** Share of the year this withdrawal pays for: 1 yearly, 1/12 monthly. Strategies scale their yearly spending by it. */
+  periodFraction: number;
+  availableCash: number;
+  availableBitcoin: number;
+  /** The annual withdrawal input grown with inflation to this year */
+  plannedWithdrawal: number;
+  /** Price level relative to the first retirement year */
+  inflationSinceRetirement: number;
+  /** Price level change over the last year (1.03 = 3%) */
+  yearlyInflation: number;
+  /** Cash plus Bitcoin value at the start of the first retirement year */
+  initialPortfolioValue: number;
+  /** Last year's total withdrawal, null in the first year */
+  previousWithdrawal: number | null;
+  /** Cash plus Bitcoin value at the start of last year, null in the first year */
+  previousPortfolioValue: number | null;
+  priceModel: PriceModel;
+  smartWithdrawal: SmartWithdrawalConfig;
+}
+
+export interface StrategyWithdrawal {
+  /** Spending for the year (or month) in nominal dollars */
+  amount: number;
+  cashUsed: number;
+  /** Bitcoin sold for the spending plus any cash refill, before capital gains tax */
+  bitcoinSold: number;
+  /** Proceeds of the Bitcoin sale moved into cash instead of spent */
+  cashRefill: number;
+  /** Shown in the table's Activity column */
+  strategy: string;
+}
+
+/**
+ * Decides each year how much to spend and whether it comes from cash or Bitcoin.
+ * The 50-year plan, the simulations and the chart plan line all call the scenario's strategy.
+ */
+export interface WithdrawalStrategy {
+  id: string;
+  name: string;
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal;
+}
+
+/**
+ * Settings for the built-in strategies. Each strategy reads only the fields it lists in its definition.
+ */
+export interface WithdrawalStrategySettings {
+  /** Share of the starting portfolio spent in the first year, then grown with inflation (4% rule) */
+  constantDollarRate: number;
+  /** Share of the current portfolio spent every year */
+  fixedPercentage: number;
+  /** Expected yearly return used to size Variable Percentage Withdrawals */
+  vpwExpectedReturn: number;
+  /** Years the Variable Percentage Withdrawal schedule spreads the portfolio over */
+  vpwHorizonYears: number;
+  /** Guyton-Klinger first-year withdrawal rate */
+  guytonKlingerInitialRate: number;
+  /** How far the withdrawal rate can drift from the initial rate before a cut or raise (0.2 = 20%) */
+  guytonKlingerGuardrail: number;
+  /** Size of a guardrail cut or raise */
+  guytonKlingerAdjustment: number;
+  /** Years of spending the two-bucket strategy keeps in cash */
+  bucketYears: number;
+}
+
+export interface WithdrawalStrategyDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Settings the user can edit for this strategy */
+  settings: Array<keyof WithdrawalStrategySettings>;
+  create(settings: WithdrawalStrategySettings): WithdrawalStrategy;
+}
+
+export const DEFAULT_WITHDRAWAL_STRATEGY_SETTINGS: WithdrawalStrategySettings = {
+  constantDollarRate: 0.04,
+  fixedPercentage: 0.04,
+  vpwExpectedReturn: 0.05,
+  vpwHorizonYears: 60,
+  guytonKlingerInitialRate: 0.05,
+  guytonKlingerGuardrail: 0.2,
+  guytonKlingerAdjustment: 0.1,
+  bucketYears: 3
+};
+
+/**
+ * Share of the portfolio to spend so that equal start-of-year payments last the horizon at the expected return
+ */
+export const calculateVpwRate = (expectedReturn: number, yearsRemaining: number): number => {
+  if (expectedReturn === 0) return 1 / yearsRemaining;
+  return expectedReturn / ((1 + expectedReturn) * (1 - Math.pow(1 + expectedReturn, -yearsRemaining)));
+};
+
+const formatRate = (rate: number): string => `${Math.round(rate * 1000) / 10}%`;
+
+const portfolioValue = (context: WithdrawalYearContext): number => {
+  return context.availableCash + context.availableBitcoin * context.bitcoinPrice;
+};
+
+/**
+ * Spend an amount from cash and Bitcoin in proportion to their share of the portfolio,
+ * never more than the portfolio holds
+ */
+const withdrawProportionally = (context: WithdrawalYearContext, amount: number, strategy: string): StrategyWithdrawal => {
+  const total = portfolioValue(context);
+  const spend = Math.max(0, Math.min(amount, total));
+  const cashUsed = total > 0 ? spend * (context.availableCash / total) : 0;
+  return {
+    amount: spend,
+    cashUsed,
+    bitcoinSold: context.bitcoinPrice > 0 ? (spend - cashUsed) / context.bitcoinPrice : 0,
+    cashRefill: 0,
+    strategy
+  };
+};
+
+/**
+ * The planned withdrawal split by the Smart Withdrawal zones
+ */
+export class SmartZoneStrategy implements WithdrawalStrategy {
+  readonly id = 'smart';
+  readonly name = 'Smart Withdrawal';
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const decision = SmartWithdrawalStrategy.calculateWithdrawal({
+      currentBitcoinPrice: context.bitcoinPrice,
+      currentDate: context.date,
+      availableCash: context.availableCash,
+      availableBitcoin: context.availableBitcoin,
+      withdrawalNeeded: context.plannedWithdrawal * context.periodFraction,
+      priceModel: context.priceModel,
+      config: context.smartWithdrawal
+    });
+    return {
+      amount: context.plannedWithdrawal * context.periodFraction,
+      cashUsed: decision.useCashAmount,
+      bitcoinSold: decision.useBitcoinAmount,
+      cashRefill: 0,
+      strategy: decision.strategy
+    };
+  }
+}
+
+/**
+ * Baseline: the planned withdrawal from cash until it runs out, then from Bitcoin, whatever the price
+ */
+export class CashFirstStrategy implements WithdrawalStrategy {
+  readonly id = 'cash-first';
+  readonly name = 'Cash First Always';
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const spending = context.plannedWithdrawal * context.periodFraction;
+    const cashUsed = Math.min(context.availableCash, spending);
+    return {
+      amount: spending,
+      cashUsed,
+      bitcoinSold: (spending - cashUsed) / context.bitcoinPrice,
+      cashRefill: 0,
+      strategy: cashUsed > 0 ? 'Cash First' : 'Bitcoin (Cash Spent)'
+    };
+  }
+}
+
+/**
+ * Baseline: the planned withdrawal from cash and Bitcoin in proportion to their share of the portfolio
+ */
+export class ProportionalStrategy implements WithdrawalStrategy {
+  readonly id = 'proportional';
+  readonly name = 'Proportional';
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    return withdrawProportionally(context, context.plannedWithdrawal * context.periodFraction, 'Proportional');
+  }
+}
+
+/**
+ * The 4% rule: a share of the starting portfolio, raised with inflation every year regardless of markets
+ */
+export class ConstantDollarStrategy implements WithdrawalStrategy {
+  readonly id = 'constant-dollar';
+  readonly name = 'Constant Dollar';
+
+  constructor(private readonly settings: WithdrawalStrategySettings) {}
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const amount = context.initialPortfolioValue * this.settings.constantDollarRate * context.inflationSinceRetirement;
+    return withdrawProportionally(context, amount * context.periodFraction, `${formatRate(this.settings.constantDollarRate)} Rule`);
+  }
+}
+
+/**
+ * The same share of whatever the portfolio is worth each year
+ */
+export class FixedPercentageStrategy implements WithdrawalStrategy {
+  readonly id = 'fixed-percentage';
+  readonly name = 'Fixed Percentage';
+
+  constructor(private readonly settings: WithdrawalStrategySettings) {}
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const amount = portfolioValue(context) * this.settings.fixedPercentage;
+    return withdrawProportionally(context, amount * context.periodFraction, `Fixed ${formatRate(this.settings.fixedPercentage)}`);
+  }
+}
+
+/**
+ * Variable Percentage Withdrawal: the annuity payment that would spread the portfolio evenly
+ * over the remaining horizon at the expected return, paid at the start of the year
+ */
+export class VariablePercentageStrategy implements WithdrawalStrategy {
+  readonly id = 'vpw';
+  readonly name = 'Variable Percentage Withdrawal';
+
+  constructor(private readonly settings: WithdrawalStrategySettings) {}
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const rate = calculateVpwRate(
+      this.settings.vpwExpectedReturn,
+      Math.max(1, this.settings.vpwHorizonYears - context.yearIndex)
+    );
+    return withdrawProportionally(context, portfolioValue(context) * rate * context.periodFraction, `VPW ${formatRate(rate)}`);
+  }
+}
+
+/**
+ * Guyton-Klinger guardrails: last year's withdrawal raised with inflation (skipped after a losing year
+ * when the rate is above the initial rate), cut when the rate drifts above the upper guardrail and
+ * raised when it drifts below the lower one
+ */
+export class GuytonKlingerStrategy implements WithdrawalStrategy {
+  readonly id = 'guyton-klinger';
+  readonly name = 'Guyton-Klinger Guardrails';
+
+  constructor(private readonly settings: WithdrawalStrategySettings) {}
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const { guytonKlingerInitialRate: initialRate, guytonKlingerGuardrail: guardrail, guytonKlingerAdjustment: adjustment } = this.settings;
+    const total = portfolioValue(context);
+
+    if (context.previousWithdrawal === null) {
+      return withdrawProportionally(context, context.initialPortfolioValue * initialRate * context.periodFraction, 'Guardrails: initial');
+    }
+
+    let amount = context.previousWithdrawal;
+    let label = 'Guardrails: inflation raise';
+    const lostValue = context.previousPortfolioValue !== null && total < context.previousPortfolioValue;
+    if (lostValue && total > 0 && context.previousWithdrawal / total > initialRate) {
+      label = 'Guardrails: raise skipped';
+    } else {
+      amount *= context.yearlyInflation;
+    }
+
+    const rate = total > 0 ? amount / total : Infinity;
+    if (rate > initialRate * (1 + guardrail) && context.yearsRemaining > GUYTON_KLINGER_PRESERVATION_CUTOFF_YEARS) {
+      amount *= 1 - adjustment;
+      label = `Guardrails: ${formatRate(adjustment)} cut`;
+    } else if (rate < initialRate * (1 - guardrail)) {
+      amount *= 1 + adjustment;
+      label = `Guardrails: ${formatRate(adjustment)} raise`;
+    }
+
+    return withdrawProportionally(context, amount * context.periodFraction, label);
+  }
+}
+
+/**
+ * Cash bucket pays the planned withdrawal while Bitcoin is below fair value. At or above fair value
+ * Bitcoin pays instead and the cash bucket is refilled to its target years of spending.
+ */
+export class TwoBucketStrategy implements WithdrawalStrategy {
+  readonly id = 'two-bucket';
+  readonly name = 'Two-Bucket';
+
+  constructor(private readonly settings: WithdrawalStrategySettings) {}
+
+  withdraw(context: WithdrawalYearContext): StrategyWithdrawal {
+    const { availableCash, availableBitcoin, bitcoinPrice, plannedWithdrawal } = context;
+    const spending = plannedWithdrawal * context.periodFraction;
+    const aboveFairValue = bitcoinPrice >= context.priceModel.fairValue(context.date);
+
+    if (aboveFairValue && availableBitcoin > 0) {
+      const bitcoinForSpending = Math.min(availableBitcoin, spending / bitcoinPrice);
+      const cashUsed = Math.min(availableCash, spending - bitcoinForSpending * bitcoinPrice);
+      const cashTarget = this.settings.bucketYears * plannedWithdrawal;
+      const cashRefill = Math.max(0, Math.min(
+        cashTarget - (availableCash - cashUsed),
+        (availableBitcoin - bitcoinForSpending) * bitcoinPrice
+      ));
+      return {
+        amount: spending,
+        cashUsed,
+        bitcoinSold: bitcoinForSpending + cashRefill / bitcoinPrice,
+        cashRefill,
+        strategy: cashRefill > 0 ? 'Bitcoin Bucket, Cash Refilled' : 'Bitcoin Bucket'
+      };
+    }
+
+    const cashUsed = Math.min(availableCash, spending);
+    return {
+      amount: spending,
+      cashUsed,
+      bitcoinSold: (spending - cashUsed) / bitcoinPrice,
+      cashRefill: 0,
+      strategy: cashUsed >= spending ? 'Cash Bucket' : 'Cash Bucket Empty, Some Bitcoin'
+    };
+  }
+}
+
+/**
+ * Smart Withdrawal instance used whenever no other strategy is given
+ */
+export const SMART_WITHDRAWAL_STRATEGY: WithdrawalStrategy = new SmartZoneStrategy();
+
+export const CASH_FIRST_STRATEGY: WithdrawalStrategy = new CashFirstStrategy();
+
+export const PROPORTIONAL_STRATEGY: WithdrawalStrategy = new ProportionalStrategy();
+
+/**
+ * Built-in and user-added withdrawal strategies, looked up by id
+ */
+export class WithdrawalStrategyRegistry {
+  private static definitions = new Map<string, WithdrawalStrategyDefinition>();
+
+  static register(definition: WithdrawalStrategyDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  static get(id: string): WithdrawalStrategyDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  static list(): WithdrawalStrategyDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Strategy instance for an id, falling back to Smart Withdrawal for unknown ids
+   */
+  static create(id: string, settings: WithdrawalStrategySettings): WithdrawalStrategy {
+    const definition = this.definitions.get(id);
+    return definition ? definition.create(settings) : SMART_WITHDRAWAL_STRATEGY;
+  }
+}
+
+WithdrawalStrategyRegistry.register({
+  id: 'smart',
+  name: 'Smart Withdrawal',
+  description: 'Spends the planned withdrawal, split between cash and Bitcoin by the price-to-fair-value zones.',
+  settings: [],
+  create: () => SMART_WITHDRAWAL_STRATEGY
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'cash-first',
+  name: 'Cash First Always',
+  description: 'Spends the planned withdrawal from cash until it runs out, then sells Bitcoin at whatever the price is.',
+  settings: [],
+  create: () => CASH_FIRST_STRATEGY
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'proportional',
+  name: 'Proportional',
+  description: 'Spends the planned withdrawal from cash and Bitcoin in proportion to their share of the portfolio.',
+  settings: [],
+  create: () => PROPORTIONAL_STRATEGY
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'constant-dollar',
+  name: 'Constant Dollar (4% Rule)',
+  description: 'Spends a share of the starting portfolio in the first year and raises it with inflation every year after.',
+  settings: ['constantDollarRate'],
+  create: settings => new ConstantDollarStrategy(settings)
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'fixed-percentage',
+  name: 'Fixed Percentage',
+  description: 'Spends the same share of the portfolio\'s current value every year, so spending rises and falls with the market.',
+  settings: ['fixedPercentage'],
+  create: settings => new FixedPercentageStrategy(settings)
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'vpw',
+  name: 'Variable Percentage Withdrawal',
+  description: 'Spends the annuity payment that would use up the portfolio over the horizon at the expected return; the share grows as the horizon shortens.',
+  settings: ['vpwExpectedReturn', 'vpwHorizonYears'],
+  create: settings => new VariablePercentageStrategy(settings)
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'guyton-klinger',
+  name: 'Guyton-Klinger Guardrails',
+  description: 'Raises spending with inflation, skips the raise after a losing year, and cuts or raises it when the withdrawal rate leaves the guardrails.',
+  settings: ['guytonKlingerInitialRate', 'guytonKlingerGuardrail', 'guytonKlingerAdjustment'],
+  create: settings => new GuytonKlingerStrategy(settings)
+});
+
+WithdrawalStrategyRegistry.register({
+  id: 'two-bucket',
+  name: 'Two-Bucket (Cash / BTC)',
+  description: 'Spends the planned withdrawal from cash below fair value; at or above fair value sells Bitcoin instead and tops cash back up to its target.',
+  settings: ['bucketYears'],
+  create: settings => new TwoBucketStrategy(settings)
+});
@@ -0,0 +1,63 @@
+import { POWER_LAW_MODEL, PriceModel } from '../models/PriceModel';
+import { RetirementScenario, WithdrawalFrequency } from '../types/Bitcoin';
+import { CapitalGainsTaxInputs, DEFAULT_CAPITAL_GAINS_TAX_INPUTS } from './CapitalGainsTax';
+import { BuyBackInputs, CashRefillInputs, DEFAULT_BUY_BACK_INPUTS, DEFAULT_CASH_REFILL_INPUTS } from './CashReserve';
+import { CycleCalendarSettings, DEFAULT_CYCLE_CALENDAR } from './CycleCalendar';
+import { CustomCycle } from './CustomCycle';
+import { InflationInputs, NO_INFLATION } from './Inflation';
+import { BearMarketTestParameters, DEFAULT_BEAR_MARKET_TEST } from './RetirementCalculations';
+import { DEFAULT_SMART_WITHDRAWAL_CONFIG, SmartWithdrawalConfig } from './SmartWithdrawalStrategy';
+import { SMART_WITHDRAWAL_STRATEGY, WithdrawalStrategy } from './WithdrawalStrategy';
+
+/**
+ * Fields a test changes on the shared scenario; input groups are merged into their defaults
+ */
+export interface ScenarioOverrides {
+  retirementInputs?: Partial<RetirementScenario['retirementInputs']>;
+  monthlySavingsInputs?: Partial<RetirementScenario['monthlySavingsInputs']>;
+  startDate?: Date;
+  priceModel?: PriceModel;
+  inflation?: InflationInputs;
+  capitalGainsTax?: Partial<CapitalGainsTaxInputs>;
+  smartWithdrawal?: SmartWithdrawalConfig;
+  withdrawalStrategy?: WithdrawalStrategy;
+  cashRefill?: Partial<CashRefillInputs>;
+  buyBack?: Partial<BuyBackInputs>;
+  withdrawalFrequency?: WithdrawalFrequency;
+  cycleCalendar?: CycleCalendarSettings;
+  customCycle?: CustomCycle | null;
+  bearMarketTest?: BearMarketTestParameters;
+}
+
+/**
+ * Scenario for tests: 5 BTC and $100k cash withdrawing $40k a year from 2026 on the Power Law,
+ * retiring now with no savings, inflation or tax
+ */
+export const makeTestScenario = (overrides: ScenarioOverrides = {}): RetirementScenario => ({
+  retirementInputs: {
+    bitcoinAmount: 5,
+    cashAmount: 100000,
+    annualWithdrawal: 40000,
+    yearsUntilRetirement: 0,
+    ...overrides.retirementInputs
+  },
+  monthlySavingsInputs: {
+    monthlySavingsAmount: 0,
+    yearsToRetirement: 0,
+    enabled: false,
+    doubleDownInBearMarkets: false,
+    ...overrides.monthlySavingsInputs
+  },
+  startDate: overrides.startDate ?? new Date(2026, 0, 1),
+  priceModel: overrides.priceModel ?? POWER_LAW_MODEL,
+  inflation: overrides.inflation ?? NO_INFLATION,
+  capitalGainsTax: { ...DEFAULT_CAPITAL_GAINS_TAX_INPUTS, ...overrides.capitalGainsTax },
+  smartWithdrawal: overrides.smartWithdrawal ?? DEFAULT_SMART_WITHDRAWAL_CONFIG,
+  withdrawalStrategy: overrides.withdrawalStrategy ?? SMART_WITHDRAWAL_STRATEGY,
+  cashRefill: { ...DEFAULT_CASH_REFILL_INPUTS, ...overrides.cashRefill },
+  buyBack: { ...DEFAULT_BUY_BACK_INPUTS, ...overrides.buyBack },
+  withdrawalFrequency: overrides.withdrawalFrequency ?? 'yearly',
+  cycleCalendar: overrides.cycleCalendar ?? DEFAULT_CYCLE_CALENDAR,
+  customCycle: overrides.customCycle ?? null,
+  bearMarketTest: overrides.bearMarketTest ?? DEFAULT_BEAR_MARKET_TEST
+});
@@ -0,0 +1,17 @@
+import { EarliestRetirementRequest, EarliestRetirementResponse, findEarliestRetirementYear } from '../utils/RetirementSolver';
+import { restoreScenario } from '../utils/SuccessHeatmap';
+
+/**
+ * Searches for the earliest retirement year off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<EarliestRetirementRequest>) => {
+  const { id, scenario } = event.data;
+  const response: EarliestRetirementResponse = {
+    id,
+    result: findEarliestRetirementYear(restoreScenario(scenario))
+  };
+  context.postMessage(response);
+};
@@ -0,0 +1,17 @@
+import { HistoricalBacktestRequest, HistoricalBacktestResponse, runHistoricalBacktest } from '../utils/HistoricalBacktest';
+import { restoreScenario } from '../utils/SuccessHeatmap';
+
+/**
+ * Replays the historical start dates off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<HistoricalBacktestRequest>) => {
+  const { id, scenario, prices, options, powerLawParameters } = event.data;
+  const response: HistoricalBacktestResponse = {
+    id,
+    result: runHistoricalBacktest(restoreScenario(scenario), prices, options, powerLawParameters)
+  };
+  context.postMessage(response);
+};
@@ -0,0 +1,17 @@
+import { MonteCarloRequest, MonteCarloResponse, runMonteCarloSimulation } from '../utils/MonteCarloSimulation';
+import { restoreScenario } from '../utils/SuccessHeatmap';
+
+/**
+ * Runs the Monte Carlo paths off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { id, scenario, process, options } = event.data;
+  const response: MonteCarloResponse = {
+    id,
+    result: runMonteCarloSimulation(restoreScenario(scenario), process, options)
+  };
+  context.postMessage(response);
+};
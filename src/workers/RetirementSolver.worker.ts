@@ -0,0 +1,17 @@
+import { RetirementSolverRequest, RetirementSolverResponse, solveRetirement } from '../utils/RetirementSolver';
+import { restoreScenario } from '../utils/SuccessHeatmap';
+
+/**
+ * Runs the Retirement Solver searches off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<RetirementSolverRequest>) => {
+  const { id, scenario } = event.data;
+  const response: RetirementSolverResponse = {
+    id,
+    results: solveRetirement(restoreScenario(scenario))
+  };
+  context.postMessage(response);
+};
@@ -0,0 +1,17 @@
+import { SensitivityRequest, SensitivityResponse, runSensitivityAnalysis } from '../utils/SensitivityAnalysis';
+import { restoreScenario } from '../utils/SuccessHeatmap';
+
+/**
+ * Runs the sensitivity analysis off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<SensitivityRequest>) => {
+  const { id, scenario } = event.data;
+  const response: SensitivityResponse = {
+    id,
+    analysis: runSensitivityAnalysis(restoreScenario(scenario))
+  };
+  context.postMessage(response);
+};
@@ -0,0 +1,14 @@
+import { StressTestRequest, StressTestResponse, runStressTests } from '../utils/StressTest';
+import { restoreScenario } from '../utils/SuccessHeatmap';
+
+/**
+ * Runs the stress paths off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<StressTestRequest>) => {
+  const { id, scenario } = event.data;
+  const response: StressTestResponse = { id, outcomes: runStressTests(restoreScenario(scenario)) };
+  context.postMessage(response);
+};
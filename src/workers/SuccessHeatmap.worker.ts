@@ -0,0 +1,21 @@
+import {
+  SuccessHeatmapRequest,
+  SuccessHeatmapResponse,
+  computeSuccessHeatmap,
+  restoreScenario
+} from '../utils/SuccessHeatmap';
+
+/**
+ * Computes the success heatmap off the main thread
+ */
+// eslint-disable-next-line no-restricted-globals
+const context = self as unknown as Worker;
+
+context.onmessage = (event: MessageEvent<SuccessHeatmapRequest>) => {
+  const { id, scenario, options } = event.data;
+  const response: SuccessHeatmapResponse = {
+    id,
+    heatmap: computeSuccessHeatmap(restoreScenario(scenario), options)
+  };
+  context.postMessage(response);
+};
@@ -0,0 +1,6 @@
+/**
+ * Starts the sensitivity analysis worker; kept apart from the panel so Jest, which cannot parse
+ * import.meta, can mock it
+ */
+export const createSensitivityWorker = (): Worker =>
+  new Worker(new URL('./SensitivityAnalysis.worker.ts', import.meta.url));